@@ -0,0 +1,87 @@
+// Keeps GeoQuest playable without signal. The app itself and the hunt in progress come
+// from the cache when the network can't be reached; answers and photos made offline
+// are queued by the page (client/src/lib/offline-queue.ts), not here.
+
+const VERSION = "v1";
+const SHELL_CACHE = `geoquest-shell-${VERSION}`;
+const DATA_CACHE = `geoquest-data-${VERSION}`;
+
+// Read while offline so the app still knows who's playing and can resume their hunt
+const CACHED_API = [
+  /^\/api\/auth\/me$/,
+  /^\/api\/settings$/,
+  /^\/api\/stats$/,
+  /^\/api\/game\/sessions\/[0-9a-f-]+$/,
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+// index.html and the hashed scripts and styles it loads, which change with each build
+async function cacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const res = await fetch("/", { cache: "no-cache" });
+  const html = await res.clone().text();
+  await cache.put("/", res);
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((m) => m[1]);
+  await cache.addAll(["/favicon.png", "/icon.svg", "/manifest.webmanifest", ...assets]);
+}
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    // Only this worker's own caches from older versions; saved map tiles stay
+    for (const name of await caches.keys()) {
+      const stale = (name.startsWith("geoquest-shell-") || name.startsWith("geoquest-data-")) && name !== SHELL_CACHE && name !== DATA_CACHE;
+      if (stale) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Sent by the page when a different player signs in
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "clearData") event.waitUntil(caches.delete(DATA_CACHE));
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate" && !url.pathname.startsWith("/api/")) {
+    // Every page is the same app, so any of them can be served from the cached "/"
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (CACHED_API.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, DATA_CACHE, request));
+  }
+});
+
+async function networkFirst(request, cacheName, cacheKey) {
+  try {
+    const res = await fetch(request);
+    if (res.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(cacheKey, res.clone());
+    }
+    return res;
+  } catch (err) {
+    const cached = await caches.match(cacheKey);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, res.clone());
+  }
+  return res;
+}
@@ -6,14 +6,44 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Game from "@/pages/Game";
 import Settings from "@/pages/Settings";
 import Stats from "@/pages/Stats";
+import Classes from "@/pages/Classes";
+import Login from "@/pages/Login";
+import Questions from "@/pages/Questions";
+import Trails from "@/pages/Trails";
+import Leaderboard from "@/pages/Leaderboard";
+import HuntReplay from "@/pages/HuntReplay";
 import NotFound from "@/pages/not-found";
+import { usePlayer, useSyncTimezone } from "@/hooks/use-auth";
+import { useOfflineSync } from "@/hooks/use-offline";
+import { Loader2 } from "lucide-react";
 
 function Router() {
+  const { data: player, isLoading } = usePlayer();
+  useSyncTimezone(player);
+  useOfflineSync(player);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-50">
+        <Loader2 className="w-12 h-12 text-green-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!player) {
+    return <Login />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Game} />
       <Route path="/settings" component={Settings} />
       <Route path="/stats" component={Stats} />
+      <Route path="/classes" component={Classes} />
+      <Route path="/questions" component={Questions} />
+      <Route path="/trails" component={Trails} />
+      <Route path="/leaderboard" component={Leaderboard} />
+      <Route path="/hunts/:id" component={HuntReplay} />
       <Route component={NotFound} />
     </Switch>
   );
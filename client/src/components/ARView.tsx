@@ -2,14 +2,24 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import Webcam from "react-webcam";
 import { motion, AnimatePresence } from "framer-motion";
 import { getRhumbLineBearing, getDistance } from "geolib";
-import { TreeDeciduous, Dog, Bird, Leaf, X, CameraOff, MapPin, CheckCircle2, Trophy, Clock, Target, Camera, BarChart3, TrendingUp, History, Sprout, Footprints } from "lucide-react";
+import { TreeDeciduous, Dog, Bird, Leaf, X, CameraOff, MapPin, CheckCircle2, Trophy, Clock, Target, Camera, BarChart3, TrendingUp, History, Sprout, Footprints, CloudUpload, WifiOff, SignalHigh, SignalMedium, SignalLow } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import type { Checkpoint } from "@shared/schema";
+import type { Checkpoint, TeamMemberScore } from "@shared/schema";
+import type { GpsQuality } from "@/lib/gps-filter";
+import { getLocationProvider } from "@/lib/location-provider";
 
 const STATIONARY_AVATARS = [TreeDeciduous, Sprout, Leaf];
 const ROVING_AVATARS = [Dog, Bird, Footprints];
 
+const GPS_INDICATORS: Record<GpsQuality, { Icon: typeof SignalHigh; color: string; label: string }> = {
+  good: { Icon: SignalHigh, color: "text-emerald-300", label: "GPS good" },
+  fair: { Icon: SignalMedium, color: "text-yellow-300", label: "GPS fair" },
+  poor: { Icon: SignalLow, color: "text-red-400", label: "GPS weak" },
+};
+
+const DISTANCE_MIN_STEP = 3; // meters; the least movement counted towards distance walked
+
 const getAvatar = (id: number, isRoving: boolean) => {
   if (isRoving) {
     const Icon = ROVING_AVATARS[id % ROVING_AVATARS.length];
@@ -23,22 +33,26 @@ interface ARViewProps {
   checkpoints: (Checkpoint & { distance?: number })[];
   userLat: number;
   userLng: number;
+  gpsAccuracy?: number | null; // meters
+  gpsQuality?: GpsQuality | null;
   score: number;
   timeRemaining: number | null;
+  captureRadius?: number; // meters
+  // Trail hunts only send stops as they unlock, so the count can exceed checkpoints
+  totalCheckpoints?: number;
+  // Team hunts only
+  teamCode?: string | null;
+  scoreboard?: TeamMemberScore[];
+  // Answered without signal; shown as waiting until the server confirms them
+  pendingCheckpointIds?: number[];
+  offline?: boolean;
   onCheckpointTap: (checkpoint: Checkpoint) => void;
   onClose: () => void;
 }
 
-interface DeviceOrientation {
-  alpha: number | null;
-  beta: number | null;
-  gamma: number | null;
-}
-
-export function ARView({ checkpoints: initialCheckpoints, userLat, userLng, score, timeRemaining, onCheckpointTap, onClose }: ARViewProps) {
+export function ARView({ checkpoints: initialCheckpoints, userLat, userLng, gpsAccuracy = null, gpsQuality = null, score, timeRemaining, captureRadius = 20, totalCheckpoints, teamCode, scoreboard = [], pendingCheckpointIds = [], offline = false, onCheckpointTap, onClose }: ARViewProps) {
   const [checkpoints, setCheckpoints] = useState(initialCheckpoints);
   const [cameraPermission, setCameraPermission] = useState<"granted" | "denied" | "prompt">("prompt");
-  const [deviceOrientation, setDeviceOrientation] = useState<DeviceOrientation>({ alpha: null, beta: null, gamma: null });
   const [compassHeading, setCompassHeading] = useState<number>(0);
   const [tappingCheckpoint, setTappingCheckpoint] = useState<number | null>(null);
   const [showStats, setShowStats] = useState(false);
@@ -53,33 +67,22 @@ export function ARView({ checkpoints: initialCheckpoints, userLat, userLng, scor
     setCheckpoints(initialCheckpoints);
   }, [initialCheckpoints]);
 
+  // Only moves bigger than the position's own uncertainty count, and none while the
+  // signal is weak, so standing still under trees doesn't add up to a walk
   useEffect(() => {
-    const interval = setInterval(() => {
-      setCheckpoints(prev => prev.map(cp => {
-        if (!cp.isRoving || cp.collected) return cp;
-        const drift = 0.00001;
-        const newLat = cp.lat + (Math.random() - 0.5) * drift;
-        const newLng = cp.lng + (Math.random() - 0.5) * drift;
-        return { ...cp, lat: newLat, lng: newLng };
-      }));
-    }, 2000);
-    return () => clearInterval(interval);
-  }, []);
-
-  useEffect(() => {
-    if (userLat && userLng) {
-      if (lastLocation.current) {
-        const d = getDistance(
-          { latitude: lastLocation.current.lat, longitude: lastLocation.current.lng },
-          { latitude: userLat, longitude: userLng }
-        );
-        if (d > 0.5) {
-          setTotalDistance(prev => prev + d);
-        }
-      }
-      lastLocation.current = { lat: userLat, lng: userLng };
+    if (!userLat || !userLng || gpsQuality === "poor") return;
+    if (lastLocation.current) {
+      const d = getDistance(
+        { latitude: lastLocation.current.lat, longitude: lastLocation.current.lng },
+        { latitude: userLat, longitude: userLng }
+      );
+      if (d < Math.max(DISTANCE_MIN_STEP, gpsAccuracy ?? 0)) return;
+      setTotalDistance(prev => prev + d);
     }
-  }, [userLat, userLng]);
+    lastLocation.current = { lat: userLat, lng: userLng };
+  }, [userLat, userLng, gpsAccuracy, gpsQuality]);
+
+  const gpsIndicator = gpsQuality ? GPS_INDICATORS[gpsQuality] : null;
 
   const capturePhoto = useCallback(() => {
     if (webcamRef.current) {
@@ -100,37 +103,19 @@ export function ARView({ checkpoints: initialCheckpoints, userLat, userLng, scor
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const accuracy = Math.round((checkpoints.filter(cp => cp.collected).length / checkpoints.length) * 100) || 0;
-  const remainingCount = checkpoints.filter(cp => !cp.collected).length;
+  const total = totalCheckpoints ?? checkpoints.length;
+  const collectedCount = checkpoints.filter(cp => cp.collected).length;
+  const accuracy = Math.round((collectedCount / total) * 100) || 0;
+  const remainingCount = total - collectedCount;
+  const nextTrailStop = checkpoints.find(cp => cp.order !== undefined && !cp.collected);
 
-  useEffect(() => {
-    const handleOrientation = (event: DeviceOrientationEvent) => {
-      setDeviceOrientation({ alpha: event.alpha, beta: event.beta, gamma: event.gamma });
-      if (event.alpha !== null) {
-        let heading = event.alpha;
-        if ((event as any).webkitCompassHeading !== undefined) {
-          heading = (event as any).webkitCompassHeading;
-        } else {
-          heading = 360 - event.alpha;
-        }
-        setCompassHeading(heading);
-      }
-    };
-    if (typeof DeviceOrientationEvent !== "undefined" && typeof (DeviceOrientationEvent as any).requestPermission === "function") {
-      (DeviceOrientationEvent as any).requestPermission().then((response: string) => {
-        if (response === "granted") window.addEventListener("deviceorientation", handleOrientation as any, true);
-      }).catch(err => console.error(err));
-    } else {
-      window.addEventListener("deviceorientation", handleOrientation as any, true);
-    }
-    return () => window.removeEventListener("deviceorientation", handleOrientation as any, true);
-  }, []);
+  useEffect(() => getLocationProvider().watchHeading(setCompassHeading), []);
 
   const handleUserMedia = useCallback(() => setCameraPermission("granted"), []);
   const handleUserMediaError = useCallback((error: any) => setCameraPermission("denied"), []);
 
   const handleTap = (cp: Checkpoint) => {
-    if (cp.collected) return;
+    if (cp.collected || pendingCheckpointIds.includes(cp.id)) return;
     setTappingCheckpoint(cp.id);
     setTimeout(() => {
       onCheckpointTap(cp);
@@ -176,15 +161,19 @@ export function ARView({ checkpoints: initialCheckpoints, userLat, userLng, scor
             const pos = getCheckpointScreenPosition(cp);
             if (!pos.isVisible) return null;
             return (
-              <motion.div key={cp.id} initial={{ opacity: 0, scale: 0 }} animate={{ opacity: 1, scale: pos.scale }} exit={{ opacity: 0, scale: 0 }} style={{ position: "absolute", left: `${pos.x}%`, top: `${pos.y}%`, transform: "translate(-50%, -50%)" }} className="pointer-events-auto cursor-pointer" onClick={() => pos.distance < 20 && handleTap(cp)}>
+              <motion.div key={cp.id} initial={{ opacity: 0, scale: 0 }} animate={{ opacity: 1, scale: pos.scale }} exit={{ opacity: 0, scale: 0 }} style={{ position: "absolute", left: `${pos.x}%`, top: `${pos.y}%`, transform: "translate(-50%, -50%)" }} className="pointer-events-auto cursor-pointer" onClick={() => pos.distance < captureRadius && handleTap(cp)}>
                 <div className="relative">
-                  <motion.div animate={tappingCheckpoint === cp.id ? { scale: [1, 2, 0], rotate: [0, 90, 180], opacity: [1, 1, 0] } : { y: [0, -10, 0], scale: pos.distance < 20 ? [1, 1.1, 1] : [1, 0.9, 1] }} transition={tappingCheckpoint === cp.id ? { duration: 0.6, ease: "backIn" } : { duration: 3, repeat: Infinity, ease: "easeInOut" }} className="relative">
+                  <motion.div animate={tappingCheckpoint === cp.id ? { scale: [1, 2, 0], rotate: [0, 90, 180], opacity: [1, 1, 0] } : { y: [0, -10, 0], scale: pos.distance < captureRadius ? [1, 1.1, 1] : [1, 0.9, 1] }} transition={tappingCheckpoint === cp.id ? { duration: 0.6, ease: "backIn" } : { duration: 3, repeat: Infinity, ease: "easeInOut" }} className="relative">
                     <AnimatePresence mode="wait">
                       {cp.collected ? (
                         <motion.div key="collected" initial={{ opacity: 0, scale: 0 }} animate={{ opacity: 1, scale: 1.2 }} className="w-16 h-16 rounded-full bg-blue-500 flex items-center justify-center shadow-lg border-2 border-white/50">
                           <CheckCircle2 className="w-10 h-10 text-white" />
                         </motion.div>
-                      ) : pos.distance < 20 ? (
+                      ) : pendingCheckpointIds.includes(cp.id) ? (
+                        <motion.div key="pending" initial={{ opacity: 0, scale: 0 }} animate={{ opacity: 1, scale: 1 }} className="w-16 h-16 rounded-full bg-amber-500/90 flex items-center justify-center shadow-lg border-2 border-white/50" data-testid={`marker-pending-${cp.id}`}>
+                          <CloudUpload className="w-9 h-9 text-white" />
+                        </motion.div>
+                      ) : pos.distance < captureRadius ? (
                         <motion.div key="avatar" initial={{ opacity: 0, scale: 0.5, rotate: -20 }} animate={{ opacity: 1, scale: 1, rotate: 0 }} exit={{ opacity: 0, scale: 0.5, rotate: 20 }} className={`w-20 h-20 rounded-full bg-gradient-to-br ${cp.isRoving ? 'from-orange-500 to-red-700' : 'from-emerald-500 to-green-700'} flex items-center justify-center shadow-2xl ring-4 ring-white/30`}>
                           {getAvatar(cp.id, !!cp.isRoving)}
                         </motion.div>
@@ -206,11 +195,45 @@ export function ARView({ checkpoints: initialCheckpoints, userLat, userLng, scor
       </div>
       <div className="absolute top-4 left-4 right-4 flex justify-between items-center z-[70]">
         <Button size="icon" variant="secondary" onClick={() => setShowStats(true)} className="rounded-full bg-black/40 backdrop-blur-md hover:bg-black/60 border-white/20"><BarChart3 className="w-5 h-5 text-white" /></Button>
+        {(offline || pendingCheckpointIds.length > 0) && (
+          <div className="bg-black/60 backdrop-blur-md rounded-full px-3 py-1.5 text-white text-xs font-bold flex items-center gap-1.5" data-testid="text-sync-status">
+            {offline ? <WifiOff className="w-4 h-4 text-amber-300" /> : <CloudUpload className="w-4 h-4 text-amber-300" />}
+            {offline ? "Offline" : "Syncing"}
+            {pendingCheckpointIds.length > 0 && ` · ${pendingCheckpointIds.length} waiting`}
+          </div>
+        )}
         <div className="flex gap-2">
+          {gpsIndicator && (
+            <div className="h-10 rounded-full bg-black/40 backdrop-blur-md border border-white/20 px-3 flex items-center gap-1.5 text-white text-xs font-bold" title={gpsIndicator.label} data-testid="status-gps-quality">
+              <gpsIndicator.Icon className={`w-4 h-4 ${gpsIndicator.color}`} />
+              {gpsAccuracy !== null && `±${Math.round(gpsAccuracy)}m`}
+            </div>
+          )}
           {photos.length > 0 && <Button size="icon" variant="secondary" onClick={() => setShowGallery(true)} className="rounded-full bg-black/40 backdrop-blur-md hover:bg-black/60 border-white/20 relative"><History className="w-5 h-5 text-white" /><span className="absolute -top-1 -right-1 bg-primary text-white text-[10px] w-4 h-4 rounded-full flex items-center justify-center border border-white">{photos.length}</span></Button>}
           <Button size="icon" variant="secondary" onClick={onClose} className="rounded-full bg-black/40 backdrop-blur-md hover:bg-black/60 border-white/20"><X className="w-5 h-5 text-white" /></Button>
         </div>
       </div>
+      {nextTrailStop && (
+        <div className="absolute top-20 left-4 right-4 z-[65] flex justify-center pointer-events-none">
+          <div className="bg-black/60 backdrop-blur-md rounded-2xl px-4 py-2 text-white text-center max-w-sm" data-testid="text-trail-stop">
+            <div className="text-xs font-bold uppercase tracking-wider text-emerald-300">Stop {nextTrailStop.order} of {total}</div>
+            {nextTrailStop.directions && <div className="text-sm font-medium">{nextTrailStop.directions}</div>}
+          </div>
+        </div>
+      )}
+      {teamCode && (
+        <div className="absolute top-40 right-4 z-[65] pointer-events-none">
+          <div className="bg-black/60 backdrop-blur-md rounded-2xl px-3 py-2 text-white min-w-[140px]" data-testid="panel-team-scoreboard">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-emerald-300 mb-1">Team {teamCode}</div>
+            {scoreboard.map((member) => (
+              <div key={member.userId} className="flex justify-between gap-3 text-xs font-bold" data-testid={`text-team-score-${member.userId}`}>
+                <span className="truncate">{member.nickname}</span>
+                <span>{member.score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="absolute bottom-12 left-1/2 -translate-x-1/2 z-[70]">
         <Button size="icon" variant="ghost" onClick={capturePhoto} className="w-20 h-20 rounded-full border-4 border-white shadow-2xl bg-white/20 backdrop-blur-sm hover:bg-white/40 active:scale-95 transition-all flex items-center justify-center p-0"><div className="w-14 h-14 rounded-full bg-white flex items-center justify-center"><Camera className="w-8 h-8 text-black" /></div></Button>
       </div>
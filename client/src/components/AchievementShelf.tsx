@@ -0,0 +1,66 @@
+import { Award, Brain, Calendar, Dog, Flag, Flame, Footprints, Leaf, Lock, Medal, Mountain, Rabbit, Sprout, Trees, type LucideIcon } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { useAchievements } from "@/hooks/use-achievements";
+import type { Achievement } from "@shared/schema";
+
+// Keyed by the icon names in shared/achievements.ts
+const BADGE_ICONS: Record<string, LucideIcon> = {
+  sprout: Sprout,
+  brain: Brain,
+  rabbit: Rabbit,
+  dog: Dog,
+  flag: Flag,
+  medal: Medal,
+  flame: Flame,
+  calendar: Calendar,
+  footprints: Footprints,
+  mountain: Mountain,
+  leaf: Leaf,
+  trees: Trees,
+};
+
+function Badge({ achievement }: { achievement: Achievement }) {
+  const earned = achievement.earnedAt !== null;
+  const Icon = earned ? BADGE_ICONS[achievement.icon] ?? Award : Lock;
+
+  return (
+    <div
+      className="flex flex-col items-center text-center gap-1"
+      title={achievement.description}
+      data-testid={`badge-achievement-${achievement.id}`}
+    >
+      <div className={`w-14 h-14 rounded-full flex items-center justify-center ${earned ? "bg-gradient-to-br from-amber-300 to-orange-500 shadow-md" : "bg-gray-200"}`}>
+        <Icon className={`w-7 h-7 ${earned ? "text-white" : "text-gray-400"}`} />
+      </div>
+      <p className={`text-[11px] font-bold leading-tight ${earned ? "text-gray-800" : "text-gray-400"}`}>{achievement.name}</p>
+      {!earned && (
+        <p className="text-[10px] text-gray-400">{Math.min(achievement.progress, achievement.goal)}/{achievement.goal}</p>
+      )}
+    </div>
+  );
+}
+
+export function AchievementShelf() {
+  const achievementsQuery = useAchievements();
+  const achievements = achievementsQuery.data ?? [];
+  const earnedCount = achievements.filter(a => a.earnedAt !== null).length;
+
+  if (achievements.length === 0) return null;
+
+  return (
+    <Card className="p-4 bg-white/90 backdrop-blur-sm">
+      <h3 className="text-sm font-bold text-gray-700 mb-4 flex items-center justify-between">
+        <span className="flex items-center gap-2">
+          <Award className="w-4 h-4 text-amber-500" />
+          Badges
+        </span>
+        <span className="text-xs text-gray-500" data-testid="text-badges-earned">{earnedCount} of {achievements.length}</span>
+      </h3>
+      <div className="grid grid-cols-4 gap-3">
+        {achievements.map((achievement) => (
+          <Badge key={achievement.id} achievement={achievement} />
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, Loader2 } from "lucide-react";
+import { MapSelector } from "@/components/MapSelector";
+import { useImportCheckpoints } from "@/hooks/use-checkpoints";
+import { usePacks } from "@/hooks/use-packs";
+import { useToast } from "@/hooks/use-toast";
+import type { CheckpointImportItem, WaypointFileFormat } from "@shared/routes";
+import type { Question } from "@shared/schema";
+
+const STATUS_STYLES = {
+  imported: "bg-green-100 text-green-700",
+  skipped: "bg-yellow-100 text-yellow-700",
+};
+
+const MATCH_LABELS: Record<NonNullable<CheckpointImportItem["matchedBy"]>, string> = {
+  choice: "picked",
+  name: "by name",
+  pack: "from pack",
+};
+
+function formatForFile(name: string): WaypointFileFormat {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".gpx")) return "gpx";
+  if (lower.endsWith(".kml")) return "kml";
+  return "geojson";
+}
+
+export function CheckpointImportDialog() {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<WaypointFileFormat>("gpx");
+  const [packId, setPackId] = useState("none");
+  const [choices, setChoices] = useState<Record<number, number | null>>({});
+  const importMutation = useImportCheckpoints();
+  const packsQuery = usePacks();
+  const questionsQuery = useQuery<Question[]>({ queryKey: ["/api/questions"] });
+  const { toast } = useToast();
+
+  const report = importMutation.data;
+  const placed = report?.items.filter(item => item.status === "imported" && item.lat !== null && item.lng !== null) ?? [];
+  const questionOptions = (questionsQuery.data ?? []).filter(q => packId === "none" || q.packId === Number(packId));
+
+  const runImport = (dryRun: boolean, overrides: { packId?: string; choices?: Record<number, number | null> } = {}) => {
+    const pack = overrides.packId ?? packId;
+    const picked = overrides.choices ?? choices;
+    importMutation.mutate(
+      {
+        format,
+        content,
+        packId: pack === "none" ? undefined : Number(pack),
+        choices: Object.entries(picked).map(([index, questionId]) => ({ index: Number(index), questionId })),
+        dryRun,
+      },
+      {
+        onSuccess: (result) => {
+          if (!result.dryRun) {
+            toast({ title: "Import finished", description: `${result.imported} checkpoints added, ${result.skipped} skipped.` });
+          }
+        },
+        onError: (error) => {
+          toast({ title: "Import failed", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(formatForFile(file.name));
+    setChoices({});
+    importMutation.reset();
+    file.text().then(setContent);
+  };
+
+  // Each change shows its effect straight away
+  const handlePackChange = (value: string) => {
+    setPackId(value);
+    if (content) runImport(true, { packId: value });
+  };
+
+  const handleChoice = (index: number, value: string) => {
+    const next = { ...choices, [index]: value === "none" ? null : Number(value) };
+    setChoices(next);
+    runImport(true, { choices: next });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full" data-testid="button-import-checkpoints">
+          <FileUp className="w-4 h-4 mr-1" /> Import Waypoints
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Checkpoints</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="waypoint-file">GPX, KML or GeoJSON file</Label>
+            <Input id="waypoint-file" type="file" accept=".gpx,.kml,.geojson,.json" onChange={handleFile} data-testid="input-waypoint-file" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Questions for waypoints whose names don't match one</Label>
+            <Select value={packId} onValueChange={handlePackChange}>
+              <SelectTrigger data-testid="select-import-pack">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None, match by name only</SelectItem>
+                {packsQuery.data?.map((pack) => (
+                  <SelectItem key={pack.id} value={String(pack.id)}>Take them in turn from {pack.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              disabled={!content || importMutation.isPending}
+              onClick={() => runImport(true)}
+              data-testid="button-preview-import"
+            >
+              Preview
+            </Button>
+            <Button
+              disabled={!content || importMutation.isPending || (report !== undefined && report.imported === 0)}
+              onClick={() => runImport(false)}
+              data-testid="button-run-checkpoint-import"
+            >
+              {importMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Import
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-3" data-testid="checkpoint-import-report">
+              <p className="text-sm font-bold">
+                {fileName}: {report.dryRun ? "would import" : "imported"} {report.imported}, skipped {report.skipped}
+              </p>
+
+              {placed.length > 0 && (
+                <MapSelector
+                  lat={placed[0].lat!}
+                  lng={placed[0].lng!}
+                  existingCheckpoints={placed.map((item) => ({ id: item.index, lat: item.lat!, lng: item.lng!, isCustom: true, label: item.name }))}
+                />
+              )}
+
+              <div className="max-h-72 overflow-y-auto space-y-2">
+                {report.items.map((item) => (
+                  <div key={item.index} className="space-y-1 text-sm" data-testid={`row-waypoint-${item.index}`}>
+                    <div className="flex items-start gap-2">
+                      <Badge variant="outline" className={STATUS_STYLES[item.status]}>{item.status}</Badge>
+                      <span className="flex-1 font-medium">{item.name}</span>
+                      {item.matchedBy && <span className="text-xs text-muted-foreground">{MATCH_LABELS[item.matchedBy]}</span>}
+                    </div>
+                    {item.message && <p className="text-xs text-muted-foreground">{item.message}</p>}
+                    {report.dryRun && item.lat !== null && (
+                      <Select
+                        value={item.questionId !== null ? String(item.questionId) : "none"}
+                        onValueChange={(value) => handleChoice(item.index, value)}
+                      >
+                        <SelectTrigger className="h-8 text-xs" data-testid={`select-waypoint-question-${item.index}`}>
+                          <SelectValue placeholder="Pick a question" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Leave out</SelectItem>
+                          {questionOptions.map((q) => (
+                            <SelectItem key={q.id} value={String(q.id)}>{q.question}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
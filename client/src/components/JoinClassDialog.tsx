@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Users } from "lucide-react";
+import { useJoinClass, useLeaveClass } from "@/hooks/use-classes";
+import { useToast } from "@/hooks/use-toast";
+import type { Player } from "@shared/schema";
+
+interface JoinClassDialogProps {
+  player: Player;
+}
+
+export function JoinClassDialog({ player }: JoinClassDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [joinCode, setJoinCode] = useState("");
+  const joinMutation = useJoinClass();
+  const leaveMutation = useLeaveClass();
+  const { toast } = useToast();
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    joinMutation.mutate(joinCode, {
+      onSuccess: (updated) => {
+        toast({ title: "Class joined!", description: `You're now exploring with ${updated.className}.` });
+        setJoinCode("");
+        setOpen(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-full rounded-2xl bg-white/60 backdrop-blur-sm border-green-200 text-green-800 font-bold"
+          data-testid="button-class"
+        >
+          <Users className="w-4 h-4 mr-2" />
+          {player.className ? `Class: ${player.className}` : "Join a Class"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {player.className ? player.className : "Join a Class"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleJoin} className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {player.className
+              ? "Got a code for a different class? Enter it to switch."
+              : "Ask your teacher for the class code."}
+          </p>
+          <Input
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+            placeholder="ABC123"
+            maxLength={6}
+            className="text-center text-2xl font-mono tracking-[0.3em] uppercase"
+            data-testid="input-join-code"
+          />
+          {joinMutation.error && (
+            <p className="text-sm font-bold text-red-600 text-center">{joinMutation.error.message}</p>
+          )}
+          <Button
+            type="submit"
+            disabled={!joinCode || joinMutation.isPending}
+            className="w-full bg-green-600 hover:bg-green-700"
+            data-testid="button-join-class"
+          >
+            {joinMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Join
+          </Button>
+          {player.className && (
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={leaveMutation.isPending}
+              onClick={() => leaveMutation.mutate(undefined, { onSuccess: () => setOpen(false) })}
+              className="w-full text-red-600"
+              data-testid="button-leave-class"
+            >
+              Leave {player.className}
+            </Button>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
-import { MapContainer, TileLayer, Marker, useMapEvents, Circle, Popup } from 'react-leaflet';
+import { MapContainer, Marker, useMapEvents, Circle, Popup } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 import { useState, useEffect } from 'react';
+import { MapTileLayer } from '@/components/MapTileLayer';
 
 // Fix for default marker icons in Leaflet with React
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -37,10 +38,11 @@ L.Marker.prototype.options.icon = DefaultIcon;
 interface MapSelectorProps {
   lat: number;
   lng: number;
-  onLocationSelect: (lat: number, lng: number) => void;
+  onLocationSelect?: (lat: number, lng: number) => void; // leave out for a map that only shows checkpoints
   radius?: number;
-  existingCheckpoints?: { lat: number; lng: number; id: number; isCustom?: boolean; isRoving?: boolean }[];
-  onCheckpointMove?: (id: number, lat: number, lng: number) => void;
+  existingCheckpoints?: { lat: number; lng: number; id: number; isCustom?: boolean; isRoving?: boolean; label?: string }[];
+  // revert puts the marker back, e.g. when saving the move fails
+  onCheckpointMove?: (id: number, lat: number, lng: number, revert: () => void) => void;
   playerLocation?: { lat: number; lng: number };
 }
 
@@ -76,19 +78,6 @@ function LocationMarker({ lat, lng, onLocationSelect }: { lat: number; lng: numb
 }
 
 export function MapSelector({ lat, lng, onLocationSelect, radius, existingCheckpoints, playerLocation, onCheckpointMove, theme = "standard" }: MapSelectorProps & { theme?: string }) {
-  const getTileUrl = () => {
-    switch (theme) {
-      case 'satellite':
-        return "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}";
-      case 'terrain':
-        return "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png";
-      case 'dark':
-        return "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png";
-      default:
-        return "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
-    }
-  };
-
   return (
     <div className="h-[300px] w-full rounded-lg overflow-hidden border-2 border-muted relative z-0">
       <MapContainer 
@@ -97,10 +86,7 @@ export function MapSelector({ lat, lng, onLocationSelect, radius, existingCheckp
         scrollWheelZoom={false}
         style={{ height: "100%", width: "100%", zIndex: 0 }}
       >
-        <TileLayer
-          attribution='&copy; OpenStreetMap contributors'
-          url={getTileUrl()}
-        />
+        <MapTileLayer theme={theme} />
         
         {/* Radius circle around center/selection */}
         {radius && (
@@ -117,19 +103,20 @@ export function MapSelector({ lat, lng, onLocationSelect, radius, existingCheckp
             key={`cp-${cp.id}-${cp.isCustom ? 'custom' : 'random'}`} 
             position={[cp.lat, cp.lng]} 
             icon={cp.isRoving ? PlayerIcon : CheckpointIcon}
-            draggable={true}
+            draggable={!!onCheckpointMove}
             eventHandlers={{
               dragend: (e) => {
                 if (onCheckpointMove) {
-                  const pos = e.target.getLatLng();
-                  onCheckpointMove(cp.id, pos.lat, pos.lng);
+                  const marker = e.target;
+                  const pos = marker.getLatLng();
+                  onCheckpointMove(cp.id, pos.lat, pos.lng, () => marker.setLatLng([cp.lat, cp.lng]));
                 }
               }
             }}
           >
             <Popup>
               <div className="text-sm font-medium">
-                {cp.isRoving ? 'Roving' : cp.isCustom ? 'Custom' : 'Random'} Checkpoint
+                {cp.label ?? `${cp.isRoving ? 'Roving' : cp.isCustom ? 'Custom' : 'Random'} Checkpoint`}
               </div>
               <div className="text-xs text-muted-foreground">ID: {cp.id}</div>
             </Popup>
@@ -145,7 +132,7 @@ export function MapSelector({ lat, lng, onLocationSelect, radius, existingCheckp
           />
         )}
 
-        <LocationMarker lat={lat} lng={lng} onLocationSelect={onLocationSelect} />
+        {onLocationSelect && <LocationMarker lat={lat} lng={lng} onLocationSelect={onLocationSelect} />}
       </MapContainer>
     </div>
   );
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import { getTileSubdomains, getTileUrl, readCachedTile } from "@/lib/map-tiles";
+
+// A tile layer that draws tiles saved for offline first and only asks the tile server
+// for the rest, so a downloaded hunt area still has a map without signal
+class OfflineTileLayer extends L.TileLayer {
+  constructor(private theme: string) {
+    super(getTileUrl(theme), {
+      attribution: "&copy; OpenStreetMap contributors",
+      subdomains: getTileSubdomains(theme),
+      maxZoom: 19,
+    });
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement("img");
+    tile.alt = "";
+    tile.setAttribute("role", "presentation");
+    tile.onload = () => {
+      if (tile.src.startsWith("blob:")) URL.revokeObjectURL(tile.src);
+      done(undefined, tile);
+    };
+    tile.onerror = () => done(new Error(`Couldn't load map tile ${coords.z}/${coords.x}/${coords.y}`), tile);
+
+    readCachedTile(this.theme, coords)
+      .catch(() => null)
+      .then((blob) => {
+        tile.src = blob ? URL.createObjectURL(blob) : this.getTileUrl(coords);
+      });
+    return tile;
+  }
+}
+
+export function MapTileLayer({ theme = "standard" }: { theme?: string }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new OfflineTileLayer(theme).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, theme]);
+
+  return null;
+}
@@ -1,11 +1,16 @@
 import { useState, useEffect } from "react";
-import { Camera, Check, X, Upload, Sparkles, Loader2 } from "lucide-react";
+import { Camera, Check, X, Upload, Sparkles, Loader2, CloudUpload } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { natureItems } from "@/lib/nature-items";
+import { natureItems } from "@shared/nature-items";
+import type { HuntStreak } from "@shared/schema";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAnnounceAchievements } from "@/hooks/use-achievements";
+import { describeStreak } from "@/hooks/use-game";
+import { usePlayer } from "@/hooks/use-auth";
+import { useQueuedSubmissions, useSubmissionSettled } from "@/hooks/use-offline";
+import { isOfflineError, newIdempotencyKey, queueSubmission, sendSubmission } from "@/lib/offline-queue";
 
 export function NatureScavengerHunt({ onComplete }: { onComplete: () => void }) {
   const [dailyItems, setDailyItems] = useState<any[]>([]);
@@ -13,7 +18,11 @@ export function NatureScavengerHunt({ onComplete }: { onComplete: () => void })
   const [selectedItem, setSelectedItem] = useState<any | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
   const { toast } = useToast();
+  const announceAchievements = useAnnounceAchievements();
   const queryClient = useQueryClient();
+  const { data: player } = usePlayer();
+  const queuedSubmissions = useQueuedSubmissions(player?.id);
+  const pendingItems = queuedSubmissions.filter(s => s.kind === "photo").map(s => s.target);
 
   useEffect(() => {
     const shuffled = [...natureItems].sort(() => Math.random() - 0.5);
@@ -30,29 +39,56 @@ export function NatureScavengerHunt({ onComplete }: { onComplete: () => void })
     setSelectedItem(null);
   };
 
+  // The server keeps count of the day's finds and says when one completes the daily goal
+  const recordFound = (itemId: number, dailyGoal: { streak: HuntStreak } | null) => {
+    setCompletedItems(prev => [...prev, itemId]);
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+
+    if (dailyGoal) {
+      toast({
+        title: "Daily Goal Reached!",
+        description: `You've found 3 items! ${describeStreak(dailyGoal.streak)}`,
+      });
+      onComplete();
+    }
+  };
+
+  // A photo taken without signal is checked later; the app-wide sync says how it went
+  useSubmissionSettled(({ submission, status, body }) => {
+    if (submission.kind === "photo" && status === 200 && body.verified && dailyItems.some(item => item.id === submission.target)) {
+      recordFound(submission.target, body.dailyGoal ?? null);
+    }
+  });
+
+  // Resolves to null when the photo was queued to send once there's signal
   const verifyMutation = useMutation({
-    mutationFn: async ({ itemName, image }: { itemName: string; image: string }) => {
-      const res = await apiRequest("POST", "/api/verify-photo", { itemName, image });
+    mutationFn: async ({ item, image }: { item: { id: number; name: string }; image: string }) => {
+      const key = newIdempotencyKey();
+      const body = { itemName: item.name, image };
+      let res: Response;
+      try {
+        res = await sendSubmission("/api/verify-photo", body, key);
+      } catch (e) {
+        if (!isOfflineError(e) || !player) throw e;
+        await queueSubmission({ key, kind: "photo", userId: player.id, url: "/api/verify-photo", body, target: item.id, label: item.name });
+        return null;
+      }
+      if (!res.ok) throw new Error((await res.json()).message || "Failed to analyze image");
       return res.json();
     },
-    onSuccess: async (data) => {
-      if (data.verified) {
-        const newCompleted = [...completedItems, selectedItem.id];
-        setCompletedItems(newCompleted);
-        queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    onSuccess: (data) => {
+      if (data === null) {
+        toast({
+          title: "Photo saved",
+          description: "No signal here, so it'll be checked when you're back online.",
+        });
+      } else if (data.verified) {
         toast({
           title: "Item Verified!",
           description: data.feedback,
         });
-        
-        if (newCompleted.length >= 3) {
-          await apiRequest("POST", "/api/stats/complete-hunt", {});
-          toast({
-            title: "Daily Goal Reached!",
-            description: "You've found 3 items! Daily streak increased!",
-          });
-          onComplete();
-        }
+        announceAchievements(data.achievements ?? []);
+        recordFound(selectedItem.id, data.dailyGoal ?? null);
       } else {
         toast({
           title: "Verification Failed",
@@ -71,7 +107,7 @@ export function NatureScavengerHunt({ onComplete }: { onComplete: () => void })
       reader.onload = async (event) => {
         setIsVerifying(true);
         await verifyMutation.mutateAsync({
-          itemName: selectedItem.name,
+          item: selectedItem,
           image: event.target?.result as string
         });
         setIsVerifying(false);
@@ -95,6 +131,7 @@ export function NatureScavengerHunt({ onComplete }: { onComplete: () => void })
       <div className="grid gap-3">
         {dailyItems.map((item) => {
           const isCompleted = completedItems.includes(item.id);
+          const isPending = !isCompleted && pendingItems.includes(item.id);
           return (
             <Card
               key={item.id}
@@ -103,7 +140,7 @@ export function NatureScavengerHunt({ onComplete }: { onComplete: () => void })
                   ? "bg-green-50 border-green-200" 
                   : "hover:border-green-300 cursor-pointer"
               }`}
-              onClick={() => !isCompleted && !isVerifying && setSelectedItem(item)}
+              onClick={() => !isCompleted && !isPending && !isVerifying && setSelectedItem(item)}
             >
               <div className="flex items-center justify-between">
                 <div>
@@ -125,6 +162,10 @@ export function NatureScavengerHunt({ onComplete }: { onComplete: () => void })
                   <div className="bg-green-500 rounded-full p-2 text-white">
                     <Check size={18} />
                   </div>
+                ) : isPending ? (
+                  <div className="bg-amber-100 rounded-full p-2 text-amber-600" title="Waiting to be checked" data-testid={`status-photo-pending-${item.id}`}>
+                    <CloudUpload size={18} />
+                  </div>
                 ) : (
                   <div className="bg-green-100 rounded-full p-2 text-green-600">
                     <Camera size={18} />
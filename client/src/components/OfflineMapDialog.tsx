@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, Loader2, MapPinned, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { clearOfflineAreas, downloadArea, estimateDownload, getOfflineAreas, MAX_OFFLINE_TILES, TileQuotaError, type DownloadEstimate, type OfflineArea } from "@/lib/map-tiles";
+
+interface OfflineMapDialogProps {
+  lat: number;
+  lng: number;
+  radius: number; // meters, the hunt's spawn radius
+  theme: string;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1_000_000) return `${Math.max(1, Math.round(bytes / 1000))} KB`;
+  if (bytes < 1_000_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+  return `${(bytes / 1_000_000_000).toFixed(1)} GB`;
+}
+
+// Saves the map around the player for the hunt's radius before they head somewhere
+// without signal
+export function OfflineMapDialog({ lat, lng, radius, theme }: OfflineMapDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [estimate, setEstimate] = useState<DownloadEstimate | null>(null);
+  const [areas, setAreas] = useState<OfflineArea[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setAreas(getOfflineAreas());
+    estimateDownload(theme, lat, lng, radius).then(setEstimate).catch(() => setEstimate(null));
+  }, [open, theme, lat, lng, radius]);
+
+  const tooBig = estimate !== null && estimate.tiles > MAX_OFFLINE_TILES;
+  const noRoom = estimate !== null && estimate.available !== null && estimate.bytes > estimate.available;
+
+  const handleDownload = async () => {
+    abort.current = new AbortController();
+    setProgress({ done: 0, total: estimate?.tiles ?? 0 });
+    try {
+      const area = await downloadArea(theme, lat, lng, radius, {
+        signal: abort.current.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setAreas(getOfflineAreas());
+      toast({ title: "Map saved for offline", description: `${area.tiles} tiles around you, ${formatBytes(area.bytes)} downloaded.` });
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      toast({
+        title: err instanceof TileQuotaError ? "Out of storage" : "Couldn't save the map",
+        description: err instanceof Error ? err.message : "Something went wrong downloading the map.",
+        variant: "destructive",
+      });
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClear = async () => {
+    await clearOfflineAreas();
+    setAreas([]);
+    setEstimate(await estimateDownload(theme, lat, lng, radius));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !progress && setOpen(value)}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-full rounded-2xl bg-white/60 backdrop-blur-sm border-green-200 text-green-800 font-bold"
+          data-testid="button-offline-map"
+        >
+          <MapPinned className="w-4 h-4 mr-2" />
+          Download Area for Offline
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">Offline Map</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Saves the {theme} map within {radius}m of where you are, so it still shows where there's no signal.
+          </p>
+
+          {estimate ? (
+            <div className="rounded-xl bg-green-50 p-3 text-sm space-y-1" data-testid="text-offline-estimate">
+              <p className="font-bold text-green-900">About {formatBytes(estimate.bytes)} · {estimate.tiles} tiles</p>
+              {estimate.available !== null && (
+                <p className="text-xs text-green-700">{formatBytes(estimate.available)} free for offline storage on this device</p>
+              )}
+              {tooBig && <p className="text-xs font-bold text-red-600">That's more than {MAX_OFFLINE_TILES} tiles. Lower the spawn radius to save it.</p>}
+              {noRoom && !tooBig && <p className="text-xs font-bold text-red-600">There isn't enough room. Remove saved maps or free some space.</p>}
+            </div>
+          ) : (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-5 h-5 animate-spin text-green-600" />
+            </div>
+          )}
+
+          {progress ? (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{progress.done} of {progress.total} tiles</span>
+                <Button variant="ghost" size="sm" onClick={() => abort.current?.abort()} data-testid="button-cancel-offline-map">
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              onClick={handleDownload}
+              disabled={!estimate || tooBig || noRoom}
+              className="w-full bg-green-600 hover:bg-green-700"
+              data-testid="button-download-offline-map"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          )}
+
+          {areas.length > 0 && (
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs font-bold text-gray-500 uppercase">Saved areas</p>
+              {areas.map((area) => (
+                <p key={area.downloadedAt} className="text-xs text-gray-700">
+                  {area.theme} · {area.radius}m around {area.lat.toFixed(3)}, {area.lng.toFixed(3)} · {new Date(area.downloadedAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                </p>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!!progress}
+                onClick={handleClear}
+                className="w-full text-red-600"
+                data-testid="button-clear-offline-maps"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove Saved Maps
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
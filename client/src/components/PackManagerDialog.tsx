@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Layers, Loader2, Pencil, Trash2 } from "lucide-react";
+import { usePacks, useCreatePack, useUpdatePack, useDeletePack } from "@/hooks/use-packs";
+import { useToast } from "@/hooks/use-toast";
+import { packInputSchema } from "@shared/schema";
+import type { PackSummary } from "@shared/routes";
+
+export function PackManagerDialog() {
+  const [open, setOpen] = useState(false);
+  const packsQuery = usePacks();
+  const createMutation = useCreatePack();
+  const updateMutation = useUpdatePack();
+  const deleteMutation = useDeletePack();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  // Typed as a comma-separated list
+  const [tags, setTags] = useState("");
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setTags("");
+  };
+
+  const startEditing = (pack: PackSummary) => {
+    setEditingId(pack.id);
+    setName(pack.name);
+    setDescription(pack.description);
+    setTags(pack.tags.join(", "));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = packInputSchema.safeParse({
+      name,
+      description,
+      tags: tags.split(",").map(t => t.trim()).filter(Boolean),
+    });
+    if (!result.success) {
+      toast({ title: "Couldn't save pack", description: result.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    const onSuccess = () => {
+      toast({ title: "Pack saved" });
+      resetForm();
+    };
+    const onError = (error: Error) => {
+      toast({ title: "Couldn't save pack", description: error.message, variant: "destructive" });
+    };
+
+    if (editingId !== null) {
+      updateMutation.mutate({ id: editingId, data: result.data }, { onSuccess, onError });
+    } else {
+      createMutation.mutate(result.data, { onSuccess, onError });
+    }
+  };
+
+  const handleDelete = (pack: PackSummary) => {
+    if (!confirm(`Delete the "${pack.name}" pack? Its ${pack.questionCount} questions are kept.`)) return;
+    deleteMutation.mutate(pack.id, {
+      onSuccess: () => {
+        toast({ title: "Pack deleted" });
+        if (editingId === pack.id) resetForm();
+      },
+      onError: (error) => toast({ title: "Couldn't delete pack", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) resetForm(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-manage-packs">
+          <Layers className="w-4 h-4 mr-1" /> Packs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Question Packs</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {packsQuery.data?.map((pack) => (
+            <div key={pack.id} className="flex items-start justify-between gap-2 rounded-lg border p-3" data-testid={`row-pack-${pack.id}`}>
+              <div className="space-y-1">
+                <p className="font-medium">{pack.name} <span className="text-xs text-muted-foreground">({pack.questionCount})</span></p>
+                {pack.description && <p className="text-xs text-muted-foreground">{pack.description}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {pack.tags.map((tag) => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+                </div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => startEditing(pack)} data-testid={`button-edit-pack-${pack.id}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => handleDelete(pack)}
+                  data-testid={`button-delete-pack-${pack.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {packsQuery.data?.length === 0 && (
+            <p className="text-sm text-center text-muted-foreground py-4">No packs yet.</p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+          <p className="text-sm font-bold">{editingId !== null ? "Edit pack" : "New pack"}</p>
+          <div className="space-y-1">
+            <Label htmlFor="pack-name">Name</Label>
+            <Input id="pack-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Forest ecology" data-testid="input-pack-name" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pack-description">Description</Label>
+            <Textarea id="pack-description" value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-pack-description" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pack-tags">Tags (separated by commas)</Label>
+            <Input id="pack-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="trees, insects" data-testid="input-pack-tags" />
+          </div>
+          <div className="flex gap-2">
+            {editingId !== null && (
+              <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+            )}
+            <Button type="submit" disabled={isSaving} className="flex-1" data-testid="button-save-pack">
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Save Pack
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { MapContainer, Polygon, Polyline, CircleMarker, Circle, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { useState } from "react";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, PenLine, Trash2, Upload } from "lucide-react";
+import { usePlayAreas, useCreatePlayArea, useImportPlayAreas, useDeletePlayArea } from "@/hooks/use-play-areas";
+import { useToast } from "@/hooks/use-toast";
+import type { AreaGeometry, PlayAreaKind } from "@shared/schema";
+
+const KIND_COLORS: Record<PlayAreaKind, string> = {
+  include: "#16a34a",
+  exclude: "#dc2626",
+};
+
+// GeoJSON is [lng, lat]; Leaflet wants [lat, lng]
+function toLeafletPositions(geometry: AreaGeometry): [number, number][][][] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.map(rings => rings.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number])));
+}
+
+function DrawingClicks({ onClick }: { onClick: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    click(e) {
+      onClick(e.latlng.lat, e.latlng.lng);
+    },
+  });
+  return null;
+}
+
+interface PlayAreaEditorProps {
+  lat: number;
+  lng: number;
+  radius?: number;
+  theme?: string;
+}
+
+export function PlayAreaEditor({ lat, lng, radius, theme = "standard" }: PlayAreaEditorProps) {
+  const areasQuery = usePlayAreas();
+  const createMutation = useCreatePlayArea();
+  const importMutation = useImportPlayAreas();
+  const deleteMutation = useDeletePlayArea();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<PlayAreaKind>("include");
+  // Vertices of the polygon being drawn, as [lat, lng]; null when not drawing
+  const [vertices, setVertices] = useState<[number, number][] | null>(null);
+
+  const handleFinish = () => {
+    if (!vertices || vertices.length < 3) {
+      toast({ title: "Keep drawing", description: "Click at least three points on the map.", variant: "destructive" });
+      return;
+    }
+    const ring = [...vertices, vertices[0]].map(([vLat, vLng]): [number, number] => [vLng, vLat]);
+    createMutation.mutate(
+      { name: name.trim() || `Area ${(areasQuery.data?.length ?? 0) + 1}`, kind, geometry: { type: "Polygon", coordinates: [ring] } },
+      {
+        onSuccess: () => {
+          toast({ title: "Area saved" });
+          setVertices(null);
+          setName("");
+        },
+        onError: (error) => toast({ title: "Couldn't save area", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then((content) => {
+      importMutation.mutate({ content, kind }, {
+        onSuccess: ({ created, skipped }) => toast({
+          title: `Added ${created.length} area${created.length === 1 ? "" : "s"}`,
+          description: skipped.length ? `Skipped ${skipped.join("; ")}` : undefined,
+        }),
+        onError: (error) => toast({ title: "Upload failed", description: error.message, variant: "destructive" }),
+      });
+    });
+  };
+
+  const handleDelete = (id: number, areaName: string) => {
+    if (!confirm(`Delete "${areaName}"?`)) return;
+    deleteMutation.mutate(id, {
+      onSuccess: () => toast({ title: "Area deleted" }),
+      onError: (error) => toast({ title: "Couldn't delete area", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="h-[300px] w-full rounded-lg overflow-hidden border-2 border-muted relative z-0">
+        <MapContainer center={[lat, lng]} zoom={15} scrollWheelZoom={false} style={{ height: "100%", width: "100%", zIndex: 0 }}>
+          <MapTileLayer theme={theme} />
+          {radius && (
+            <Circle center={[lat, lng]} radius={radius} pathOptions={{ color: "blue", fillOpacity: 0.05, dashArray: "4" }} />
+          )}
+          {areasQuery.data?.map((area) => (
+            <Polygon
+              key={area.id}
+              positions={toLeafletPositions(area.geometry)}
+              pathOptions={{ color: KIND_COLORS[area.kind], fillOpacity: 0.2 }}
+            />
+          ))}
+          {vertices && (
+            <>
+              <DrawingClicks onClick={(vLat, vLng) => setVertices(prev => [...(prev ?? []), [vLat, vLng]])} />
+              <Polyline positions={vertices} pathOptions={{ color: KIND_COLORS[kind], dashArray: "6" }} />
+              {vertices.map((v, i) => (
+                <CircleMarker key={i} center={v} radius={4} pathOptions={{ color: KIND_COLORS[kind] }} />
+              ))}
+            </>
+          )}
+        </MapContainer>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="area-name">Name</Label>
+          <Input id="area-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Park boundary" data-testid="input-area-name" />
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={kind} onValueChange={(val) => setKind(val as PlayAreaKind)}>
+            <SelectTrigger data-testid="select-area-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="include">Playable</SelectItem>
+              <SelectItem value="exclude">Off limits</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {vertices ? (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Click the map to add corners ({vertices.length} so far).</p>
+          <div className="grid grid-cols-3 gap-2">
+            <Button variant="outline" onClick={() => setVertices(null)}>Cancel</Button>
+            <Button variant="outline" disabled={vertices.length === 0} onClick={() => setVertices(prev => prev!.slice(0, -1))}>Undo</Button>
+            <Button onClick={handleFinish} disabled={createMutation.isPending} data-testid="button-finish-area">
+              {createMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Finish
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="secondary" onClick={() => setVertices([])} data-testid="button-draw-area">
+            <PenLine className="w-4 h-4 mr-2" /> Draw Area
+          </Button>
+          <Button variant="outline" asChild disabled={importMutation.isPending}>
+            <label className="cursor-pointer" data-testid="button-upload-areas">
+              {importMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Upload className="w-4 h-4 mr-2" />}
+              Upload GeoJSON
+              <input type="file" accept=".geojson,.json" className="hidden" onChange={handleFile} />
+            </label>
+          </Button>
+        </div>
+      )}
+
+      {areasQuery.data?.map((area) => (
+        <div key={area.id} className="flex items-center gap-2 text-sm" data-testid={`row-area-${area.id}`}>
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: KIND_COLORS[area.kind] }} />
+          <span className="flex-1">{area.name}</span>
+          <span className="text-xs text-muted-foreground">{area.kind === "include" ? "Playable" : "Off limits"}</span>
+          <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} onClick={() => handleDelete(area.id, area.name)}>
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
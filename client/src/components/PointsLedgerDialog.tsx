@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Undo2 } from "lucide-react";
+import { usePointsLedger, useReversePoints } from "@/hooks/use-points";
+import { useToast } from "@/hooks/use-toast";
+import type { PointsEntryState, PointsSource, RosterEntry } from "@shared/schema";
+
+const SOURCE_LABELS: Record<PointsSource, string> = {
+  trivia: "Trivia answer",
+  roving_bonus: "Roving bonus",
+  photo_verify: "Nature photo",
+  achievement: "Achievement",
+  reversal: "Reversal",
+  carried_over: "Earlier points",
+};
+
+interface PointsLedgerDialogProps {
+  classId: number;
+  student: RosterEntry | null; // the dialog is open while set
+  onClose: () => void;
+}
+
+function EntryRow({ entry, onReverse }: { entry: PointsEntryState; onReverse: () => void }) {
+  const canReverse = entry.source !== "reversal" && !entry.reversed;
+
+  return (
+    <div className="flex items-center gap-3 py-2" data-testid={`row-points-${entry.id}`}>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-bold ${entry.reversed ? "text-gray-400 line-through" : "text-gray-800"}`}>
+          {SOURCE_LABELS[entry.source]}
+          {entry.achievementId && <span className="font-normal text-gray-500"> · {entry.achievementId}</span>}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {new Date(entry.createdAt).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+        </p>
+        {entry.note && <p className="text-xs text-gray-600 italic">"{entry.note}"</p>}
+      </div>
+      <span className={`w-12 text-right font-black ${entry.amount < 0 ? "text-red-600" : "text-green-700"}`}>
+        {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={!canReverse}
+        onClick={onReverse}
+        title={canReverse ? "Reverse these points" : undefined}
+        data-testid={`button-reverse-points-${entry.id}`}
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function PointsLedgerDialog({ classId, student, onClose }: PointsLedgerDialogProps) {
+  const ledgerQuery = usePointsLedger(classId, student?.userId ?? null);
+  const reverseMutation = useReversePoints(classId, student?.userId ?? 0);
+  const [reversing, setReversing] = useState<PointsEntryState | null>(null);
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setReversing(null);
+    setNote("");
+    onClose();
+  };
+
+  const handleReverse = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reversing) return;
+    reverseMutation.mutate({ entryId: reversing.id, note }, {
+      onSuccess: (reversal) => {
+        toast({ title: "Points reversed", description: `${reversal.amount} points for ${student?.nickname}.` });
+        setReversing(null);
+        setNote("");
+      },
+    });
+  };
+
+  return (
+    <Dialog open={student !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">{student?.nickname}'s Points</DialogTitle>
+        </DialogHeader>
+
+        {reversing ? (
+          <form onSubmit={handleReverse} className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Take back {reversing.amount} points from {SOURCE_LABELS[reversing.source].toLowerCase()}? The original
+              entry stays in the ledger alongside the reversal and your note.
+            </p>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why, e.g. answered from the classroom window"
+              maxLength={500}
+              data-testid="input-reversal-note"
+            />
+            {reverseMutation.error && (
+              <p className="text-sm font-bold text-red-600 text-center">{reverseMutation.error.message}</p>
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setReversing(null)}>
+                Back
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                className="flex-1"
+                disabled={!note.trim() || reverseMutation.isPending}
+                data-testid="button-confirm-reversal"
+              >
+                {reverseMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                Reverse
+              </Button>
+            </div>
+          </form>
+        ) : ledgerQuery.isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="w-6 h-6 animate-spin text-green-600" />
+          </div>
+        ) : ledgerQuery.data?.length ? (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {ledgerQuery.data.map((entry) => (
+              <EntryRow key={entry.id} entry={entry} onReverse={() => setReversing(entry)} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No points earned yet.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
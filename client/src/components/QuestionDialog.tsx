@@ -5,30 +5,42 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { motion, AnimatePresence } from "framer-motion";
 import { Checkpoint } from "@shared/schema";
-import { Loader2, Award, XCircle } from "lucide-react";
+import { Loader2, Award, XCircle, MapPin, CloudUpload } from "lucide-react";
 import confetti from "canvas-confetti";
 
+// "queued" when there was no signal and the answer will be checked once there is
+export type AnswerVerdict = "correct" | "incorrect" | "queued";
+
 interface QuestionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   checkpoint: Checkpoint | null;
-  onVerify: (answer: string) => Promise<boolean>;
+  onVerify: (answer: string) => Promise<AnswerVerdict>;
 }
 
 export function QuestionDialog({ open, onOpenChange, checkpoint, onVerify }: QuestionDialogProps) {
   const [selectedAnswer, setSelectedAnswer] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [result, setResult] = useState<"correct" | "incorrect" | null>(null);
+  const [result, setResult] = useState<AnswerVerdict | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   if (!checkpoint) return null;
 
   const handleSubmit = async () => {
     if (!selectedAnswer) return;
     setIsSubmitting(true);
+    setErrorMessage(null);
     
     try {
-      const isCorrect = await onVerify(selectedAnswer);
-      if (isCorrect) {
+      const verdict = await onVerify(selectedAnswer);
+      if (verdict === "queued") {
+        setResult("queued");
+        setTimeout(() => {
+          onOpenChange(false);
+          setResult(null);
+          setSelectedAnswer("");
+        }, 2000);
+      } else if (verdict === "correct") {
         setResult("correct");
         confetti({
           particleCount: 100,
@@ -46,7 +58,8 @@ export function QuestionDialog({ open, onOpenChange, checkpoint, onVerify }: Que
         setTimeout(() => setResult(null), 1500); // Allow retry
       }
     } catch (error) {
-      console.error(error);
+      // e.g. the server wants the player closer to the checkpoint
+      setErrorMessage(error instanceof Error ? error.message : "Something went wrong checking your answer.");
     } finally {
       setIsSubmitting(false);
     }
@@ -105,7 +118,16 @@ export function QuestionDialog({ open, onOpenChange, checkpoint, onVerify }: Que
           </RadioGroup>
         </div>
 
-        <DialogFooter className="p-6 pt-0">
+        <DialogFooter className="p-6 pt-0 flex-col gap-3 sm:flex-col">
+          {errorMessage && result === null && (
+            <div
+              className="w-full bg-amber-100 text-amber-700 p-3 rounded-xl flex items-center justify-center gap-2 font-bold text-sm text-center"
+              data-testid="text-verify-error"
+            >
+              <MapPin className="w-5 h-5 shrink-0" />
+              {errorMessage}
+            </div>
+          )}
           <AnimatePresence mode="wait">
             {result === "incorrect" ? (
               <motion.div 
@@ -120,18 +142,24 @@ export function QuestionDialog({ open, onOpenChange, checkpoint, onVerify }: Que
             ) : (
               <Button 
                 onClick={handleSubmit}
-                disabled={!selectedAnswer || isSubmitting || result === "correct"}
+                disabled={!selectedAnswer || isSubmitting || result === "correct" || result === "queued"}
                 className={cn(
                   "w-full py-6 text-lg rounded-xl font-bold shadow-lg transition-all",
                   result === "correct" 
                     ? "bg-green-500 hover:bg-green-600 text-white" 
-                    : "bg-primary hover:bg-primary/90 text-white"
+                    : result === "queued"
+                      ? "bg-amber-500 hover:bg-amber-600 text-white"
+                      : "bg-primary hover:bg-primary/90 text-white"
                 )}
               >
                 {isSubmitting ? (
                   <Loader2 className="w-5 h-5 animate-spin" />
                 ) : result === "correct" ? (
                   "Correct! +Points"
+                ) : result === "queued" ? (
+                  <span className="flex items-center gap-2" data-testid="text-answer-queued">
+                    <CloudUpload className="w-5 h-5" /> Saved for when you're back online
+                  </span>
                 ) : (
                   "Submit Answer"
                 )}
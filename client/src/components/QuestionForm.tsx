@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { usePacks } from "@/hooks/use-packs";
+import { questionInputSchema, type Difficulty, type Question, type QuestionInput } from "@shared/schema";
+
+interface QuestionFormProps {
+  question?: Question;
+  isSaving: boolean;
+  onSubmit: (data: QuestionInput) => void;
+}
+
+export function QuestionForm({ question, isSaving, onSubmit }: QuestionFormProps) {
+  const [text, setText] = useState(question?.question ?? "");
+  const [options, setOptions] = useState<string[]>(question?.options ?? ["", ""]);
+  // Tracked by index so renaming the correct option keeps it selected
+  const [answerIndex, setAnswerIndex] = useState(() => question ? question.options.indexOf(question.answer) : -1);
+  const [points, setPoints] = useState(question?.points ?? 10);
+  const [difficulty, setDifficulty] = useState<Difficulty>((question?.difficulty as Difficulty) ?? "easy");
+  const [packId, setPackId] = useState<number | null>(question?.packId ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const packsQuery = usePacks();
+
+  const updateOption = (index: number, value: string) => {
+    setOptions(prev => prev.map((o, i) => (i === index ? value : o)));
+  };
+
+  const removeOption = (index: number) => {
+    setOptions(prev => prev.filter((_, i) => i !== index));
+    if (answerIndex === index) setAnswerIndex(-1);
+    else if (answerIndex > index) setAnswerIndex(answerIndex - 1);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = questionInputSchema.safeParse({
+      question: text,
+      answer: options[answerIndex] ?? "",
+      options,
+      points,
+      difficulty,
+      packId,
+    });
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    setError(null);
+    onSubmit(result.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="question-text">Question</Label>
+        <Textarea
+          id="question-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          data-testid="input-question-text"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Options (pick the correct one)</Label>
+        <RadioGroup value={String(answerIndex)} onValueChange={(val) => setAnswerIndex(Number(val))} className="space-y-2">
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <RadioGroupItem value={String(index)} id={`answer-${index}`} data-testid={`radio-answer-${index}`} />
+              <Input
+                value={option}
+                onChange={(e) => updateOption(index, e.target.value)}
+                placeholder={`Option ${index + 1}`}
+                data-testid={`input-option-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={options.length <= 2}
+                onClick={() => removeOption(index)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </RadioGroup>
+        {options.length < 6 && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setOptions(prev => [...prev, ""])} data-testid="button-add-option">
+            <Plus className="w-4 h-4 mr-1" /> Add option
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="question-points">Points</Label>
+          <Input
+            id="question-points"
+            type="number"
+            min={1}
+            max={100}
+            value={points}
+            onChange={(e) => setPoints(Number(e.target.value))}
+            data-testid="input-question-points"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Difficulty</Label>
+          <Select value={difficulty} onValueChange={(val) => setDifficulty(val as Difficulty)}>
+            <SelectTrigger data-testid="select-question-difficulty">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="easy">Easy</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="hard">Hard</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Pack</Label>
+        <Select value={packId === null ? "none" : String(packId)} onValueChange={(val) => setPackId(val === "none" ? null : Number(val))}>
+          <SelectTrigger data-testid="select-question-pack">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No pack</SelectItem>
+            {packsQuery.data?.map((pack) => (
+              <SelectItem key={pack.id} value={String(pack.id)}>{pack.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && <p className="text-sm font-bold text-red-600" data-testid="text-question-error">{error}</p>}
+
+      <Button type="submit" disabled={isSaving} className="w-full" data-testid="button-save-question">
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+        Save Question
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, FileUp, Loader2 } from "lucide-react";
+import { useImportQuestions } from "@/hooks/use-questions";
+import { useToast } from "@/hooks/use-toast";
+import type { ColumnMapping, QuestionFileFormat } from "@shared/routes";
+
+const MAPPING_FIELDS: { field: keyof ColumnMapping; label: string; placeholder: string }[] = [
+  { field: "question", label: "Question", placeholder: "question" },
+  { field: "answer", label: "Answer", placeholder: "answer" },
+  { field: "options", label: "Options (one column, or several separated by commas)", placeholder: "options / choices" },
+  { field: "points", label: "Points", placeholder: "points" },
+  { field: "difficulty", label: "Difficulty", placeholder: "difficulty" },
+  { field: "pack", label: "Pack name", placeholder: "pack" },
+];
+
+const STATUS_STYLES = {
+  imported: "bg-green-100 text-green-700",
+  duplicate: "bg-yellow-100 text-yellow-700",
+  invalid: "bg-red-100 text-red-700",
+};
+
+export function QuestionImportDialog() {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<QuestionFileFormat>("json");
+  const [columns, setColumns] = useState<Record<string, string>>({});
+  const importMutation = useImportQuestions();
+  const { toast } = useToast();
+
+  const report = importMutation.data;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith(".csv") ? "csv" : "json");
+    importMutation.reset();
+    file.text().then(setContent);
+  };
+
+  const buildMapping = (): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    for (const { field } of MAPPING_FIELDS) {
+      const value = columns[field]?.trim();
+      if (!value) continue;
+      if (field === "options") {
+        mapping.options = value.includes(",") ? value.split(",").map(c => c.trim()) : value;
+      } else {
+        mapping[field] = value;
+      }
+    }
+    return mapping;
+  };
+
+  const runImport = (dryRun: boolean) => {
+    importMutation.mutate(
+      { format, content, mapping: buildMapping(), dryRun },
+      {
+        onSuccess: (result) => {
+          if (!result.dryRun) {
+            toast({ title: "Import finished", description: `${result.imported} questions added.` });
+          }
+        },
+        onError: (error) => {
+          toast({ title: "Import failed", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-questions">
+          <FileUp className="w-4 h-4 mr-1" /> Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="question-file">JSON or CSV file</Label>
+            <Input id="question-file" type="file" accept=".json,.csv" onChange={handleFile} data-testid="input-question-file" />
+          </div>
+
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="px-0">
+                <ChevronDown className="w-4 h-4 mr-1" /> Column names
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-2 pt-2">
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use the usual names. CSV options in one column are separated with "|".
+              </p>
+              {MAPPING_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Input
+                    value={columns[field] ?? ""}
+                    onChange={(e) => setColumns(prev => ({ ...prev, [field]: e.target.value }))}
+                    placeholder={placeholder}
+                    data-testid={`input-map-${field}`}
+                  />
+                </div>
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              disabled={!content || importMutation.isPending}
+              onClick={() => runImport(true)}
+              data-testid="button-check-import"
+            >
+              Check File
+            </Button>
+            <Button
+              disabled={!content || importMutation.isPending}
+              onClick={() => runImport(false)}
+              data-testid="button-run-import"
+            >
+              {importMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Import
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-3" data-testid="import-report">
+              <p className="text-sm font-bold">
+                {fileName}: {report.dryRun ? "would import" : "imported"} {report.imported}, {report.duplicates} duplicates, {report.invalid} invalid
+              </p>
+              {report.newPacks.length > 0 && (
+                <p className="text-sm text-muted-foreground" data-testid="text-new-packs">
+                  {report.dryRun ? "Would create" : "Created"} packs: {report.newPacks.join(", ")}
+                </p>
+              )}
+              <div className="max-h-60 overflow-y-auto space-y-1">
+                {report.rows.map((row) => (
+                  <div key={row.row} className="flex items-start gap-2 text-sm">
+                    <span className="text-muted-foreground w-12 shrink-0">Row {row.row}</span>
+                    <Badge variant="outline" className={STATUS_STYLES[row.status]}>{row.status}</Badge>
+                    <span className="flex-1">{row.message ?? row.question}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { MapSelector } from "@/components/MapSelector";
+import { useQuestions } from "@/hooks/use-questions";
+import { trailInputSchema, type Trail, type TrailInput, type TrailStop } from "@shared/schema";
+
+interface TrailEditorProps {
+  trail?: Trail;
+  // Where the map starts when the trail has no stops yet; null while locating
+  startLat: number | null;
+  startLng: number | null;
+  isSaving: boolean;
+  onSubmit: (data: TrailInput) => void;
+}
+
+export function TrailEditor({ trail, startLat, startLng, isSaving, onSubmit }: TrailEditorProps) {
+  const questionsQuery = useQuestions();
+  const [name, setName] = useState(trail?.name ?? "");
+  const [description, setDescription] = useState(trail?.description ?? "");
+  const [stops, setStops] = useState<TrailStop[]>(trail?.stops ?? []);
+  const [selected, setSelected] = useState<{ lat: number; lng: number } | null>(trail?.stops[0] ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateStop = (index: number, update: Partial<TrailStop>) => {
+    setStops(prev => prev.map((stop, i) => (i === index ? { ...stop, ...update } : stop)));
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    setStops(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const center = selected ?? (startLat !== null && startLng !== null ? { lat: startLat, lng: startLng } : null);
+
+  const addStop = () => {
+    const firstQuestion = questionsQuery.data?.[0];
+    if (!firstQuestion || !center) return;
+    setStops(prev => [...prev, { lat: center.lat, lng: center.lng, questionId: firstQuestion.id, directions: "" }]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = trailInputSchema.safeParse({ name, description, stops });
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    setError(null);
+    onSubmit(result.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="trail-name">Name</Label>
+        <Input id="trail-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Birch Loop" data-testid="input-trail-name" />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="trail-description">Description</Label>
+        <Textarea id="trail-description" value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-trail-description" />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Stops</Label>
+        <p className="text-xs text-muted-foreground">Click the map to pick a spot, then add it as the next stop. Drag a numbered stop to move it.</p>
+        {center ? (
+          <MapSelector
+            lat={center.lat}
+            lng={center.lng}
+            onLocationSelect={(lat, lng) => setSelected({ lat, lng })}
+            existingCheckpoints={stops.map((stop, i) => ({ id: i + 1, lat: stop.lat, lng: stop.lng, isCustom: true }))}
+            onCheckpointMove={(id, lat, lng) => updateStop(id - 1, { lat, lng })}
+          />
+        ) : (
+          <div className="h-[300px] bg-muted flex items-center justify-center rounded-lg">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+        <Button type="button" variant="secondary" className="w-full" onClick={addStop} disabled={!center || !questionsQuery.data?.length} data-testid="button-add-stop">
+          <Plus className="w-4 h-4 mr-2" /> Add Stop at Selection
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {stops.map((stop, index) => (
+          <div key={index} className="rounded-lg border p-3 space-y-2" data-testid={`row-stop-${index}`}>
+            <div className="flex items-center gap-2">
+              <span className="font-bold text-sm w-14 shrink-0">Stop {index + 1}</span>
+              <Select value={String(stop.questionId)} onValueChange={(val) => updateStop(index, { questionId: Number(val) })}>
+                <SelectTrigger className="flex-1 min-w-0" data-testid={`select-stop-question-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px] overflow-y-auto">
+                  {questionsQuery.data?.map((q) => (
+                    <SelectItem key={q.id} value={String(q.id)}>{q.question}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStop(index, -1)}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" disabled={index === stops.length - 1} onClick={() => moveStop(index, 1)}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => setStops(prev => prev.filter((_, i) => i !== index))}>
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            </div>
+            <Input
+              value={stop.directions}
+              onChange={(e) => updateStop(index, { directions: e.target.value })}
+              placeholder={index === 0 ? "How to find the first stop (optional)" : "Directions from the last stop, e.g. head toward the birch grove"}
+              data-testid={`input-stop-directions-${index}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm font-bold text-red-600" data-testid="text-trail-error">{error}</p>}
+
+      <Button type="submit" disabled={isSaving} className="w-full" data-testid="button-save-trail">
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+        Save Trail
+      </Button>
+    </form>
+  );
+}
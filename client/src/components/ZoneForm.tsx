@@ -0,0 +1,191 @@
+import { MapContainer, Polygon, Polyline, CircleMarker, Circle, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { useState } from "react";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { zoneInputSchema, type Zone, type ZoneInput } from "@shared/schema";
+
+type Shape = "circle" | "polygon";
+
+function MapClicks({ onClick }: { onClick: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    click(e) {
+      onClick(e.latlng.lat, e.latlng.lng);
+    },
+  });
+  return null;
+}
+
+// The zone's stored boundary as Leaflet [lat, lng] corners, without the closing position
+function boundaryCorners(zone?: Zone): [number, number][] {
+  if (zone?.boundary?.type !== "Polygon") return [];
+  return zone.boundary.coordinates[0].slice(0, -1).map(([lng, lat]): [number, number] => [lat, lng]);
+}
+
+interface ZoneFormProps {
+  zone?: Zone;
+  // Where the map starts for a new zone
+  startLat: number;
+  startLng: number;
+  isSaving: boolean;
+  onSubmit: (data: ZoneInput) => void;
+}
+
+export function ZoneForm({ zone, startLat, startLng, isSaving, onSubmit }: ZoneFormProps) {
+  const [name, setName] = useState(zone?.name ?? "");
+  const [shape, setShape] = useState<Shape>(zone?.boundary ? "polygon" : "circle");
+  const [center, setCenter] = useState<[number, number]>(zone ? [zone.lat, zone.lng] : [startLat, startLng]);
+  const [radius, setRadius] = useState(zone?.radius ?? 300);
+  const [corners, setCorners] = useState<[number, number][]>(boundaryCorners(zone));
+  const [timeLimit, setTimeLimit] = useState(zone?.timeLimit ?? 30);
+  const [checkpointCount, setCheckpointCount] = useState(zone?.checkpointCount ?? 5);
+  const [rovingCount, setRovingCount] = useState(zone?.rovingCount ?? 2);
+  const [mapTheme, setMapTheme] = useState(zone?.mapTheme ?? "standard");
+  const [zenMode, setZenMode] = useState(zone?.zenMode ?? false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMapClick = (lat: number, lng: number) => {
+    if (shape === "circle") setCenter([lat, lng]);
+    else setCorners(prev => [...prev, [lat, lng]]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (shape === "polygon" && corners.length < 3) {
+      setError("Click at least three corners on the map");
+      return;
+    }
+
+    // A drawn zone is centered on the middle of its corners
+    const [lat, lng] = shape === "circle" ? center : [
+      corners.reduce((sum, [cLat]) => sum + cLat, 0) / corners.length,
+      corners.reduce((sum, [, cLng]) => sum + cLng, 0) / corners.length,
+    ];
+    const result = zoneInputSchema.safeParse({
+      name,
+      lat,
+      lng,
+      radius: shape === "circle" ? radius : null,
+      boundary: shape === "polygon"
+        ? { type: "Polygon", coordinates: [[...corners, corners[0]].map(([cLat, cLng]) => [cLng, cLat])] }
+        : null,
+      timeLimit,
+      checkpointCount,
+      rovingCount,
+      mapTheme,
+      zenMode,
+    });
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    setError(null);
+    onSubmit(result.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="zone-name">Name</Label>
+        <Input id="zone-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Riverside Park" data-testid="input-zone-name" />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Area</Label>
+        <Select value={shape} onValueChange={(val) => setShape(val as Shape)}>
+          <SelectTrigger data-testid="select-zone-shape">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="circle">Circle around a point</SelectItem>
+            <SelectItem value="polygon">Drawn boundary</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {shape === "circle" ? "Click the map to place the center." : `Click the map to add corners (${corners.length} so far).`}
+        </p>
+        <div className="h-[300px] w-full rounded-lg overflow-hidden border-2 border-muted relative z-0">
+          <MapContainer center={center} zoom={15} scrollWheelZoom={false} style={{ height: "100%", width: "100%", zIndex: 0 }}>
+            <MapTileLayer theme={mapTheme} />
+            <MapClicks onClick={handleMapClick} />
+            {shape === "circle" ? (
+              <>
+                <Circle center={center} radius={radius} pathOptions={{ color: "blue", fillOpacity: 0.1 }} />
+                <CircleMarker center={center} radius={5} pathOptions={{ color: "blue" }} />
+              </>
+            ) : corners.length >= 3 ? (
+              <Polygon positions={corners} pathOptions={{ color: "blue", fillOpacity: 0.1 }} />
+            ) : (
+              <Polyline positions={corners} pathOptions={{ color: "blue", dashArray: "6" }} />
+            )}
+            {shape === "polygon" && corners.map((c, i) => (
+              <CircleMarker key={i} center={c} radius={4} pathOptions={{ color: "blue" }} />
+            ))}
+          </MapContainer>
+        </div>
+        {shape === "circle" ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Radius</span>
+              <span className="font-bold">{radius}m</span>
+            </div>
+            <Slider value={[radius]} onValueChange={(val) => setRadius(val[0])} min={50} max={2000} step={50} data-testid="slider-zone-radius" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <Button type="button" variant="outline" disabled={corners.length === 0} onClick={() => setCorners(prev => prev.slice(0, -1))}>Undo</Button>
+            <Button type="button" variant="outline" disabled={corners.length === 0} onClick={() => setCorners([])}>Clear</Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="zone-time-limit">Minutes</Label>
+          <Input id="zone-time-limit" type="number" min={1} value={timeLimit} disabled={zenMode} onChange={(e) => setTimeLimit(Number(e.target.value))} data-testid="input-zone-time-limit" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="zone-checkpoints">Checkpoints</Label>
+          <Input id="zone-checkpoints" type="number" min={1} value={checkpointCount} onChange={(e) => setCheckpointCount(Number(e.target.value))} data-testid="input-zone-checkpoints" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="zone-roving">Roving</Label>
+          <Input id="zone-roving" type="number" min={0} value={rovingCount} onChange={(e) => setRovingCount(Number(e.target.value))} data-testid="input-zone-roving" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Map Theme</Label>
+        <Select value={mapTheme} onValueChange={setMapTheme}>
+          <SelectTrigger data-testid="select-zone-theme">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="standard">Forest Standard</SelectItem>
+            <SelectItem value="satellite">Satellite View</SelectItem>
+            <SelectItem value="terrain">Outdoor Terrain</SelectItem>
+            <SelectItem value="dark">Midnight Explorer</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="zone-zen">Zen Mode</Label>
+        <Switch id="zone-zen" checked={zenMode} onCheckedChange={setZenMode} data-testid="switch-zone-zen" />
+      </div>
+
+      {error && <p className="text-sm font-bold text-red-600" data-testid="text-zone-error">{error}</p>}
+
+      <Button type="submit" disabled={isSaving} className="w-full" data-testid="button-save-zone">
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+        Save Zone
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { ZoneForm } from "@/components/ZoneForm";
+import { useZones, useCreateZone, useUpdateZone, useDeleteZone } from "@/hooks/use-zones";
+import { useToast } from "@/hooks/use-toast";
+import type { Zone, ZoneInput } from "@shared/schema";
+
+interface ZoneManagerProps {
+  lat: number;
+  lng: number;
+}
+
+export function ZoneManager({ lat, lng }: ZoneManagerProps) {
+  const zonesQuery = useZones();
+  const createMutation = useCreateZone();
+  const updateMutation = useUpdateZone();
+  const deleteMutation = useDeleteZone();
+  const { toast } = useToast();
+  // undefined: dialog closed, null: new zone
+  const [editing, setEditing] = useState<Zone | null | undefined>(undefined);
+
+  const handleSave = (data: ZoneInput) => {
+    const onSuccess = () => {
+      toast({ title: "Zone saved" });
+      setEditing(undefined);
+    };
+    const onError = (error: Error) => {
+      toast({ title: "Couldn't save zone", description: error.message, variant: "destructive" });
+    };
+
+    if (editing) {
+      updateMutation.mutate({ id: editing.id, data }, { onSuccess, onError });
+    } else {
+      createMutation.mutate(data, { onSuccess, onError });
+    }
+  };
+
+  const handleDelete = (zone: Zone) => {
+    if (!confirm(`Delete "${zone.name}"?`)) return;
+    deleteMutation.mutate(zone.id, {
+      onSuccess: () => toast({ title: "Zone deleted" }),
+      onError: (error) => toast({ title: "Couldn't delete zone", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {zonesQuery.data?.map((zone) => (
+        <div key={zone.id} className="flex items-center gap-2 text-sm" data-testid={`row-zone-${zone.id}`}>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{zone.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {zone.boundary ? "Drawn boundary" : `${zone.radius}m radius`} · {zone.checkpointCount} checkpoints · {zone.zenMode ? "zen" : `${zone.timeLimit} min`}
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => setEditing(zone)} data-testid={`button-edit-zone-${zone.id}`}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} onClick={() => handleDelete(zone)} data-testid={`button-delete-zone-${zone.id}`}>
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </Button>
+        </div>
+      ))}
+      {zonesQuery.data?.length === 0 && (
+        <p className="text-xs text-muted-foreground">No zones yet. Without one, hunts spawn around each player using the settings above.</p>
+      )}
+
+      <Button variant="secondary" className="w-full" onClick={() => setEditing(null)} data-testid="button-new-zone">
+        <Plus className="w-4 h-4 mr-2" /> New Zone
+      </Button>
+
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Zone" : "New Zone"}</DialogTitle>
+          </DialogHeader>
+          <ZoneForm
+            key={editing?.id ?? "new"}
+            zone={editing ?? undefined}
+            startLat={lat}
+            startLng={lng}
+            isSaving={createMutation.isPending || updateMutation.isPending}
+            onSubmit={handleSave}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import type { Achievement } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export function useAchievements() {
+  return useQuery<Achievement[]>({
+    queryKey: [api.achievements.list.path],
+  });
+}
+
+// Toasts each newly earned achievement and refreshes the badge shelf and the
+// points total its bonus went into
+export function useAnnounceAchievements() {
+  const { toast } = useToast();
+
+  return (achievements: Achievement[]) => {
+    if (achievements.length === 0) return;
+    achievements.forEach((achievement) => {
+      toast({
+        title: `Achievement unlocked: ${achievement.name}`,
+        description: achievement.points > 0 ? `${achievement.description} · +${achievement.points} points` : achievement.description,
+      });
+    });
+    queryClient.invalidateQueries({ queryKey: [api.achievements.list.path] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+  };
+}
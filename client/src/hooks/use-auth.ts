@@ -0,0 +1,89 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import type { Credentials, Player, Registration } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { storeSessionId } from "@/hooks/use-game";
+import { clearCachedPlayerData } from "@/lib/service-worker";
+
+export function usePlayer() {
+  return useQuery<Player | null>({
+    queryKey: [api.auth.me.path],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+}
+
+// Everything cached belongs to whoever was signed in, so start over on a switch
+function switchPlayer(player: Player | null) {
+  storeSessionId(null);
+  queryClient.clear();
+  clearCachedPlayerData();
+  queryClient.setQueryData([api.auth.me.path], player);
+}
+
+async function submitCredentials(path: string, credentials: Credentials | Registration): Promise<Player> {
+  const res = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentials),
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Sign in failed");
+  }
+
+  return api.auth.me.responses[200].parse(await res.json());
+}
+
+export function useLogin() {
+  return useMutation({
+    mutationFn: (credentials: Credentials) => submitCredentials(api.auth.login.path, credentials),
+    onSuccess: switchPlayer,
+  });
+}
+
+export function useRegister() {
+  return useMutation({
+    mutationFn: (registration: Registration) => submitCredentials(api.auth.register.path, registration),
+    onSuccess: switchPlayer,
+  });
+}
+
+export function useLogout() {
+  return useMutation({
+    mutationFn: async () => {
+      await fetch(api.auth.logout.path, { method: api.auth.logout.method, credentials: "include" });
+    },
+    onSuccess: () => switchPlayer(null),
+  });
+}
+
+export function useUpdatePrivacy() {
+  return useMutation({
+    mutationFn: async (leaderboardNicknameOnly: boolean) => {
+      const res = await apiRequest(api.auth.updatePrivacy.method, api.auth.updatePrivacy.path, { leaderboardNicknameOnly });
+      return api.auth.updatePrivacy.responses[200].parse(await res.json());
+    },
+    onSuccess: (player) => {
+      queryClient.setQueryData([api.auth.me.path], player);
+      queryClient.invalidateQueries({ queryKey: [api.leaderboards.get.path] });
+    },
+  });
+}
+
+// Streak days follow the player's midnight, so keep the server's idea of their
+// timezone in step with the device they're playing on
+export function useSyncTimezone(player: Player | null | undefined) {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    if (!player || !timezone || player.timezone === timezone) return;
+    apiRequest(api.auth.updateTimezone.method, api.auth.updateTimezone.path, { timezone })
+      .then(async (res) => queryClient.setQueryData([api.auth.me.path], api.auth.updateTimezone.responses[200].parse(await res.json())))
+      .catch(() => {
+        // Not worth bothering the player; days keep their previous timezone until next time
+      });
+  }, [player?.id, player?.timezone, timezone]);
+}
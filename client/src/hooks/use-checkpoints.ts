@@ -0,0 +1,58 @@
+import { useMutation } from "@tanstack/react-query";
+import { api, buildUrl, type ImportCheckpointsRequest, type UpdateCustomCheckpointRequest } from "@shared/routes";
+import { queryClient } from "@/lib/queryClient";
+
+async function sendCheckpointRequest(method: string, url: string, data?: UpdateCustomCheckpointRequest | ImportCheckpointsRequest): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Something went wrong saving the checkpoint");
+  }
+
+  return res;
+}
+
+function invalidateCheckpoints() {
+  queryClient.invalidateQueries({ queryKey: ["/api/checkpoints/all"] });
+}
+
+export function useUpdateCheckpoint() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateCustomCheckpointRequest }) => {
+      const res = await sendCheckpointRequest(
+        api.game.updateCustomCheckpoint.method,
+        buildUrl(api.game.updateCustomCheckpoint.path, { id }),
+        data,
+      );
+      return api.game.updateCustomCheckpoint.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidateCheckpoints,
+  });
+}
+
+export function useDeleteCheckpoint() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await sendCheckpointRequest(api.game.deleteCustomCheckpoint.method, buildUrl(api.game.deleteCustomCheckpoint.path, { id }));
+    },
+    onSuccess: invalidateCheckpoints,
+  });
+}
+
+export function useImportCheckpoints() {
+  return useMutation({
+    mutationFn: async (data: ImportCheckpointsRequest) => {
+      const res = await sendCheckpointRequest(api.game.importCustomCheckpoints.method, api.game.importCustomCheckpoints.path, data);
+      return api.game.importCustomCheckpoints.responses[200].parse(await res.json());
+    },
+    onSuccess: (report) => {
+      if (!report.dryRun) invalidateCheckpoints();
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { ClassSummary, Player, RosterEntry } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function useTeacherClasses(enabled = true) {
+  return useQuery<ClassSummary[]>({
+    queryKey: [api.classes.list.path],
+    enabled,
+  });
+}
+
+export function useClassRoster(classId: number | null) {
+  return useQuery<RosterEntry[]>({
+    queryKey: [buildUrl(api.classes.roster.path, { id: classId ?? 0 })],
+    enabled: classId !== null,
+  });
+}
+
+export function useCreateClass() {
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest(api.classes.create.method, api.classes.create.path, { name });
+      return api.classes.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.classes.list.path] });
+    },
+  });
+}
+
+// Joining or leaving changes which settings the player's hunts use
+function onClassChanged(player: Player) {
+  queryClient.setQueryData([api.auth.me.path], player);
+  queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+}
+
+export function useJoinClass() {
+  return useMutation({
+    mutationFn: async (joinCode: string) => {
+      const res = await fetch(api.classes.join.path, {
+        method: api.classes.join.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ joinCode }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to join class");
+      }
+
+      return api.classes.join.responses[200].parse(await res.json());
+    },
+    onSuccess: onClassChanged,
+  });
+}
+
+export function useLeaveClass() {
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(api.classes.leave.method, api.classes.leave.path);
+      return api.classes.leave.responses[200].parse(await res.json());
+    },
+    onSuccess: onClassChanged,
+  });
+}
@@ -1,15 +1,41 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, type GenerateGameRequest, type VerifyAnswerRequest } from "@shared/routes";
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl, type GenerateGameRequest, type VerifyAnswerRequest } from "@shared/routes";
+import type { Achievement, GameSessionState, HuntReplay, HuntStreak, HuntSummary, RovingPosition, TrackPointInput } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { isOfflineError, newIdempotencyKey, queueSubmission, sendSubmission } from "@/lib/offline-queue";
 import { useLocation } from "wouter";
 
 // We primarily use local state for the game loop, but use mutations for API interactions
-// The game state itself is managed in a context or component state, 
+// The game state itself is managed in a context or component state,
 // but here are the server interactions.
 
+const SESSION_STORAGE_KEY = "geoquest:sessionId";
+
+// The id of the hunt in progress survives reloads so the hunt can be resumed
+export function getStoredSessionId(): string | null {
+  return localStorage.getItem(SESSION_STORAGE_KEY);
+}
+
+export function storeSessionId(id: string | null) {
+  if (id) {
+    localStorage.setItem(SESSION_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+// Thrown when the server refuses an answer because the player is outside the capture radius
+export class ProximityError extends Error {
+  constructor(message: string, public distance: number, public captureRadius: number) {
+    super(message);
+    this.name = "ProximityError";
+  }
+}
+
 export function useGenerateGame() {
   const { toast } = useToast();
-  
+
   return useMutation({
     mutationFn: async (location: GenerateGameRequest) => {
       const res = await fetch(api.game.generate.path, {
@@ -17,14 +43,17 @@ export function useGenerateGame() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(location),
       });
-      
+
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Failed to generate game");
       }
-      
+
       return api.game.generate.responses[200].parse(await res.json());
     },
+    onSuccess: (session) => {
+      storeSessionId(session.id);
+    },
     onError: (error) => {
       toast({
         title: "Mission Failed!",
@@ -35,25 +64,195 @@ export function useGenerateGame() {
   });
 }
 
-export function useVerifyAnswer() {
+// Joins a teammate's hunt by its code; the hunt then continues like one of your own
+export function useJoinTeamHunt() {
   const { toast } = useToast();
-  
+
   return useMutation({
-    mutationFn: async (data: VerifyAnswerRequest) => {
-      const res = await fetch(api.game.verify.path, {
-        method: api.game.verify.method,
+    mutationFn: async (teamCode: string) => {
+      const res = await fetch(api.game.joinTeam.path, {
+        method: api.game.joinTeam.method,
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ teamCode }),
       });
-      
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to join team hunt");
+      }
+
+      return api.game.joinTeam.responses[200].parse(await res.json());
+    },
+    onSuccess: (session) => {
+      storeSessionId(session.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't join the team",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useGameSession(sessionId: string | null) {
+  return useQuery<GameSessionState | null>({
+    queryKey: [api.game.getSession.path, sessionId],
+    enabled: !!sessionId,
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.game.getSession.path, { id: sessionId! }));
+      if (res.status === 404) {
+        storeSessionId(null);
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error("Failed to load hunt");
+      }
+      return api.game.getSession.responses[200].parse(await res.json());
+    },
+  });
+}
+
+const ROVING_POLL_INTERVAL = 2000; // ms
+
+// Where the hunt's roving checkpoints are now, polled while enabled. The player's
+// position goes along so fleeing checkpoints can react, but isn't part of the query key.
+export function useRovingPositions(sessionId: string | null, lat: number | null, lng: number | null, enabled: boolean) {
+  const position = useRef({ lat, lng });
+  position.current = { lat, lng };
+
+  return useQuery<RovingPosition[]>({
+    queryKey: [api.game.roving.path, sessionId],
+    enabled: !!sessionId && enabled,
+    refetchInterval: ROVING_POLL_INTERVAL,
+    queryFn: async () => {
+      const { lat, lng } = position.current;
+      const res = await fetch(buildUrl(api.game.roving.path, { id: sessionId! }), {
+        method: api.game.roving.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(lat !== null && lng !== null ? { lat, lng } : {}),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to load roving checkpoints");
+      }
+      return api.game.roving.responses[200].parse(await res.json());
+    },
+  });
+}
+
+const TRACK_SAMPLE_INTERVAL = 5000; // ms between fixes kept for the breadcrumb track
+const TRACK_SEND_INTERVAL = 30000; // ms
+const TRACK_BATCH_SIZE = 100; // the most the server takes at once
+const TRACK_MAX_BUFFER = 500; // fixes held while offline; the oldest go first
+
+// Samples the player's position while active and sends it to the hunt in batches for
+// the breadcrumb track. The server does the filtering and works out the distance walked
+// from what it keeps, passing on any achievements that earned; this only keeps the
+// batches small and holds on to them through a dropped connection.
+export function useTrackRecorder(sessionId: string | null, lat: number | null, lng: number | null, accuracy: number | null, active: boolean, onAchievements: (achievements: Achievement[]) => void) {
+  const buffer = useRef<TrackPointInput[]>([]);
+  const lastSample = useRef(0);
+  const handler = useRef(onAchievements);
+  handler.current = onAchievements;
+
+  useEffect(() => {
+    if (!active || lat === null || lng === null || accuracy === null) return;
+    const now = Date.now();
+    if (now - lastSample.current < TRACK_SAMPLE_INTERVAL) return;
+    lastSample.current = now;
+    buffer.current = [...buffer.current, { lat, lng, accuracy, recordedAt: new Date(now).toISOString() }].slice(-TRACK_MAX_BUFFER);
+  }, [lat, lng, accuracy, active]);
+
+  useEffect(() => {
+    if (!sessionId || !active) return;
+
+    const send = async () => {
+      const points = buffer.current.slice(0, TRACK_BATCH_SIZE);
+      if (points.length === 0) return;
+      buffer.current = buffer.current.slice(points.length);
+      try {
+        const res = await fetch(buildUrl(api.game.track.path, { id: sessionId }), {
+          method: api.game.track.method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ points }),
+          credentials: "include",
+        });
+        // A hunt that has ended keeps nothing, so only a failed request is worth sending again
+        if (res.status >= 500) buffer.current = [...points, ...buffer.current].slice(-TRACK_MAX_BUFFER);
+        if (!res.ok) return;
+        handler.current(api.game.track.responses[200].parse(await res.json()).achievements);
+      } catch {
+        buffer.current = [...points, ...buffer.current].slice(-TRACK_MAX_BUFFER);
+      }
+    };
+
+    const interval = setInterval(send, TRACK_SEND_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      send();
+    };
+  }, [sessionId, active]);
+}
+
+export function useHuntHistory() {
+  return useQuery<HuntSummary[]>({
+    queryKey: [api.game.history.path],
+  });
+}
+
+export function useHuntReplay(sessionId: string) {
+  return useQuery<HuntReplay>({
+    queryKey: [buildUrl(api.game.replay.path, { id: sessionId })],
+  });
+}
+
+// Resolves to null when there was no signal and the answer was queued to send later.
+// The key goes with the first try too, in case that one arrived but its response didn't.
+export function useVerifyAnswer(userId: number | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: VerifyAnswerRequest) => {
+      const key = newIdempotencyKey();
+      let res: Response;
+      try {
+        res = await sendSubmission(api.game.verify.path, data, key);
+      } catch (e) {
+        if (!isOfflineError(e) || userId === undefined) throw e;
+        await queueSubmission({
+          key,
+          kind: "answer",
+          userId,
+          url: api.game.verify.path,
+          body: { ...data, answeredAt: new Date().toISOString() },
+          target: data.checkpointId,
+          sessionId: data.sessionId,
+          label: `checkpoint #${data.checkpointId}`,
+        });
+        return null;
+      }
+
+      if (res.status === 403) {
+        const error = api.game.verify.responses[403].parse(await res.json());
+        throw new ProximityError(error.message, error.distance, error.captureRadius);
+      }
+
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Verification failed");
       }
-      
+
       return api.game.verify.responses[200].parse(await res.json());
     },
+    onSuccess: (result) => {
+      // Keeps the copy of the hunt that can be resumed offline up to date
+      if (result?.correct) queryClient.invalidateQueries({ queryKey: [api.game.getSession.path] });
+    },
     onError: (error) => {
+      // The question dialog tells the player to get closer itself
+      if (error instanceof ProximityError) return;
       toast({
         title: "Uh oh!",
         description: "Something went wrong checking your answer.",
@@ -62,3 +261,35 @@ export function useVerifyAnswer() {
     }
   });
 }
+
+// What finishing a hunt did for the player's streak. Freezes follow the class's rules,
+// so one is only mentioned when this hunt earned it.
+export function describeStreak(streak: HuntStreak | null): string {
+  if (!streak) return "";
+  const days = `${streak.currentStreak}-day streak`;
+  return streak.freezeEarned ? `You're on a ${days} and earned a Streak Freeze!` : `You're on a ${days}!`;
+}
+
+export function useCompleteHunt() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await fetch(buildUrl(api.game.complete.path, { id: sessionId }), {
+        method: api.game.complete.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to complete hunt");
+      }
+
+      return api.game.complete.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      storeSessionId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: [api.game.history.path] });
+    },
+  });
+}
@@ -1,58 +1,56 @@
 import { useState, useEffect, useRef } from 'react';
+import { gpsQuality, PositionFilter, type GpsQuality } from '@/lib/gps-filter';
+import { getLocationProvider } from '@/lib/location-provider';
 
 interface GeoLocationState {
   lat: number | null;
   lng: number | null;
+  accuracy: number | null; // meters, of the smoothed position
+  speed: number | null; // m/s
+  heading: number | null; // degrees from north; null while standing still
+  quality: GpsQuality | null; // how good the latest fix was, even one too vague to use
   error: string | null;
   loading: boolean;
 }
 
+// The player's position from the current location provider, with vague fixes dropped
+// and the rest smoothed; see lib/gps-filter.ts
 export function useGeolocation() {
   const [state, setState] = useState<GeoLocationState>({
     lat: null,
     lng: null,
+    accuracy: null,
+    speed: null,
+    heading: null,
+    quality: null,
     error: null,
     loading: true,
   });
-  
-  const watchId = useRef<number | null>(null);
 
-  useEffect(() => {
-    if (!navigator.geolocation) {
-      setState(s => ({ ...s, error: "Geolocation is not supported", loading: false }));
-      return;
-    }
-
-    const success = (position: GeolocationPosition) => {
-      setState({
-        lat: position.coords.latitude,
-        lng: position.coords.longitude,
-        error: null,
-        loading: false,
-      });
-    };
-
-    const error = (err: GeolocationPositionError) => {
-      setState(s => ({ ...s, error: err.message, loading: false }));
-    };
-
-    const options = {
-      enableHighAccuracy: true,
-      timeout: 10000,
-      maximumAge: 0,
-    };
+  const filter = useRef(new PositionFilter());
 
-    // Get initial position quickly
-    navigator.geolocation.getCurrentPosition(success, error, options);
-
-    // Watch for updates
-    watchId.current = navigator.geolocation.watchPosition(success, error, options);
-
-    return () => {
-      if (watchId.current !== null) {
-        navigator.geolocation.clearWatch(watchId.current);
-      }
-    };
+  useEffect(() => {
+    return getLocationProvider().watchPosition(
+      (raw) => {
+        const quality = gpsQuality(raw.accuracy);
+        const fix = filter.current.process(raw);
+        if (!fix) {
+          setState(s => ({ ...s, quality }));
+          return;
+        }
+        setState({
+          lat: fix.lat,
+          lng: fix.lng,
+          accuracy: fix.accuracy,
+          speed: fix.speed,
+          heading: fix.heading,
+          quality,
+          error: null,
+          loading: false,
+        });
+      },
+      (message) => setState(s => ({ ...s, error: message, loading: false })),
+    );
   }, []);
 
   return state;
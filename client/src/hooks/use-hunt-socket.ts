@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { huntSocket } from "@shared/routes";
+import type { HuntSocketMessage } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY = 15000; // ms
+
+// Keeps a socket open to a team hunt while sessionId is set. Dropped connections
+// are retried with a growing delay; the server sends the whole hunt again on each
+// reconnect, so nothing missed while offline is lost.
+export function useHuntSocket(sessionId: string | null, onMessage: (message: HuntSocketMessage) => void) {
+  const handler = useRef(onMessage);
+  handler.current = onMessage;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${huntSocket.path}?sessionId=${encodeURIComponent(sessionId)}`);
+
+      socket.onopen = () => {
+        attempts = 0;
+      };
+      socket.onmessage = (event) => {
+        const result = huntSocket.message.safeParse(JSON.parse(event.data));
+        if (result.success) handler.current(result.data);
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(MAX_RECONNECT_DELAY, 1000 * 2 ** attempts);
+        attempts++;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [sessionId]);
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import type { Leaderboard, LeaderboardWindow } from "@shared/schema";
+
+export interface LeaderboardFilter {
+  classId?: number;
+  zoneId?: number;
+}
+
+export function useLeaderboard(timeWindow: LeaderboardWindow, filter: LeaderboardFilter) {
+  return useQuery<Leaderboard>({
+    queryKey: [api.leaderboards.get.path, timeWindow, filter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ window: timeWindow });
+      if (filter.classId !== undefined) params.set("classId", String(filter.classId));
+      if (filter.zoneId !== undefined) params.set("zoneId", String(filter.zoneId));
+
+      const res = await fetch(`${api.leaderboards.get.path}?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load leaderboard");
+      return api.leaderboards.get.responses[200].parse(await res.json());
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from "react";
+import { api } from "@shared/routes";
+import type { Player } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { flushQueue, getQueuedSubmissions, onQueueChange, onSubmissionSettled, type QueuedSubmission, type SettledSubmission } from "@/lib/offline-queue";
+import { useAnnounceAchievements } from "@/hooks/use-achievements";
+import { useToast } from "@/hooks/use-toast";
+
+const SYNC_RETRY_INTERVAL = 30000; // ms between tries while something is still queued
+
+export function useOnline(): boolean {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+}
+
+// The player's answers and photos still waiting to be sent, oldest first
+export function useQueuedSubmissions(userId: number | undefined): QueuedSubmission[] {
+  const [queued, setQueued] = useState<QueuedSubmission[]>([]);
+
+  useEffect(() => {
+    if (userId === undefined) {
+      setQueued([]);
+      return;
+    }
+    const load = () => {
+      getQueuedSubmissions(userId).then(setQueued).catch(() => setQueued([]));
+    };
+    load();
+    return onQueueChange(load);
+  }, [userId]);
+
+  return queued;
+}
+
+// Called with each queued submission once the server has answered it
+export function useSubmissionSettled(handler: (settled: SettledSubmission) => void) {
+  const current = useRef(handler);
+  current.current = handler;
+
+  useEffect(() => onSubmissionSettled((settled) => current.current(settled)), []);
+}
+
+// Mounted once for the signed-in player: sends the queue whenever there's a connection
+// and tells them how each submission went, whichever screen they're on by then
+export function useOfflineSync(player: Player | null | undefined) {
+  const online = useOnline();
+  const queued = useQueuedSubmissions(player?.id);
+  const hasQueued = queued.length > 0;
+  const announceAchievements = useAnnounceAchievements();
+  const { toast } = useToast();
+
+  useSubmissionSettled(({ submission, status, body }) => {
+    const { title, description } = describeSettled(submission, status, body);
+    toast({ title, description, variant: status === 200 ? "default" : "destructive" });
+    if (status !== 200) return;
+    announceAchievements(body.achievements ?? []);
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    if (submission.kind === "answer") {
+      queryClient.invalidateQueries({ queryKey: [api.game.getSession.path] });
+    }
+  });
+
+  useEffect(() => {
+    if (!player || !online || !hasQueued) return;
+    flushQueue(player.id);
+    const interval = setInterval(() => flushQueue(player.id), SYNC_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [player?.id, online, hasQueued]);
+}
+
+function describeSettled(submission: QueuedSubmission, status: number, body: any): { title: string; description: string } {
+  if (submission.kind === "photo") {
+    if (status === 200 && body.verified) return { title: `${submission.label} verified!`, description: body.feedback };
+    return { title: `Your ${submission.label} photo wasn't accepted`, description: body.feedback ?? body.message ?? "" };
+  }
+  if (status === 200 && body.correct) return { title: `Saved answer at ${submission.label} was right!`, description: `+${body.points} points` };
+  if (status === 200) return { title: `Saved answer at ${submission.label} wasn't right`, description: "Head back and try again." };
+  return { title: `Saved answer at ${submission.label} didn't count`, description: body.message ?? "" };
+}
@@ -0,0 +1,62 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl, type PackSummary } from "@shared/routes";
+import type { PackInput } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+async function sendPackRequest(method: string, url: string, data?: PackInput): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Something went wrong saving the pack");
+  }
+
+  return res;
+}
+
+// Deleting a pack changes its questions and may change settings too
+function invalidatePacks() {
+  queryClient.invalidateQueries({ queryKey: [api.packs.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.questions.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.game.getSettings.path] });
+}
+
+export function usePacks() {
+  return useQuery<PackSummary[]>({
+    queryKey: [api.packs.list.path],
+  });
+}
+
+export function useCreatePack() {
+  return useMutation({
+    mutationFn: async (data: PackInput) => {
+      const res = await sendPackRequest(api.packs.create.method, api.packs.create.path, data);
+      return api.packs.create.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidatePacks,
+  });
+}
+
+export function useUpdatePack() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: PackInput }) => {
+      const res = await sendPackRequest(api.packs.update.method, buildUrl(api.packs.update.path, { id }), data);
+      return api.packs.update.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidatePacks,
+  });
+}
+
+export function useDeletePack() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await sendPackRequest(api.packs.delete.method, buildUrl(api.packs.delete.path, { id }));
+    },
+    onSuccess: invalidatePacks,
+  });
+}
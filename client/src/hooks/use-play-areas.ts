@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { PlayArea, PlayAreaInput, PlayAreaKind } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+async function sendPlayAreaRequest(method: string, url: string, data?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Something went wrong saving the play area");
+  }
+
+  return res;
+}
+
+function invalidatePlayAreas() {
+  queryClient.invalidateQueries({ queryKey: [api.playAreas.list.path] });
+}
+
+export function usePlayAreas() {
+  return useQuery<PlayArea[]>({
+    queryKey: [api.playAreas.list.path],
+  });
+}
+
+export function useCreatePlayArea() {
+  return useMutation({
+    mutationFn: async (data: PlayAreaInput) => {
+      const res = await sendPlayAreaRequest(api.playAreas.create.method, api.playAreas.create.path, data);
+      return api.playAreas.create.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidatePlayAreas,
+  });
+}
+
+export function useImportPlayAreas() {
+  return useMutation({
+    mutationFn: async (data: { content: string; kind: PlayAreaKind }) => {
+      const res = await sendPlayAreaRequest(api.playAreas.import.method, api.playAreas.import.path, data);
+      return api.playAreas.import.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidatePlayAreas,
+  });
+}
+
+export function useDeletePlayArea() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await sendPlayAreaRequest(api.playAreas.delete.method, buildUrl(api.playAreas.delete.path, { id }));
+    },
+    onSuccess: invalidatePlayAreas,
+  });
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { PointsEntryState } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+export function usePointsLedger(classId: number, userId: number | null) {
+  return useQuery<PointsEntryState[]>({
+    queryKey: [buildUrl(api.points.ledger.path, { id: classId, userId: userId ?? 0 })],
+    enabled: userId !== null,
+  });
+}
+
+export function useReversePoints(classId: number, userId: number) {
+  return useMutation({
+    mutationFn: async ({ entryId, note }: { entryId: number; note: string }) => {
+      const res = await fetch(buildUrl(api.points.reverse.path, { id: classId, userId, entryId }), {
+        method: api.points.reverse.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to reverse points");
+      }
+
+      return api.points.reverse.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [buildUrl(api.points.ledger.path, { id: classId, userId })] });
+      queryClient.invalidateQueries({ queryKey: [buildUrl(api.classes.roster.path, { id: classId })] });
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl, type ImportQuestionsRequest } from "@shared/routes";
+import type { Question, QuestionInput } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+async function sendQuestionRequest(method: string, url: string, data?: QuestionInput | ImportQuestionsRequest): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Something went wrong saving the question");
+  }
+
+  return res;
+}
+
+// Pack question counts (and, for imports, the packs themselves) change with the questions
+function invalidateQuestions() {
+  queryClient.invalidateQueries({ queryKey: [api.questions.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.packs.list.path] });
+}
+
+// Teachers only: the list carries every answer
+export function useQuestions(enabled = true) {
+  return useQuery<Question[]>({
+    queryKey: [api.questions.list.path],
+    enabled,
+  });
+}
+
+export function useCreateQuestion() {
+  return useMutation({
+    mutationFn: async (data: QuestionInput) => {
+      const res = await sendQuestionRequest(api.questions.create.method, api.questions.create.path, data);
+      return api.questions.create.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidateQuestions,
+  });
+}
+
+export function useUpdateQuestion() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: QuestionInput }) => {
+      const res = await sendQuestionRequest(api.questions.update.method, buildUrl(api.questions.update.path, { id }), data);
+      return api.questions.update.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidateQuestions,
+  });
+}
+
+export function useImportQuestions() {
+  return useMutation({
+    mutationFn: async (data: ImportQuestionsRequest) => {
+      const res = await sendQuestionRequest(api.questions.import.method, api.questions.import.path, data);
+      return api.questions.import.responses[200].parse(await res.json());
+    },
+    onSuccess: (report) => {
+      if (!report.dryRun) invalidateQuestions();
+    },
+  });
+}
+
+export function useDeleteQuestion() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await sendQuestionRequest(api.questions.delete.method, buildUrl(api.questions.delete.path, { id }));
+    },
+    onSuccess: invalidateQuestions,
+  });
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { Trail, TrailInput } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+async function sendTrailRequest(method: string, url: string, data?: TrailInput): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Something went wrong saving the trail");
+  }
+
+  return res;
+}
+
+function invalidateTrails() {
+  queryClient.invalidateQueries({ queryKey: [api.trails.list.path] });
+}
+
+export function useTrails() {
+  return useQuery<Trail[]>({
+    queryKey: [api.trails.list.path],
+  });
+}
+
+export function useCreateTrail() {
+  return useMutation({
+    mutationFn: async (data: TrailInput) => {
+      const res = await sendTrailRequest(api.trails.create.method, api.trails.create.path, data);
+      return api.trails.create.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidateTrails,
+  });
+}
+
+export function useUpdateTrail() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: TrailInput }) => {
+      const res = await sendTrailRequest(api.trails.update.method, buildUrl(api.trails.update.path, { id }), data);
+      return api.trails.update.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidateTrails,
+  });
+}
+
+export function useDeleteTrail() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await sendTrailRequest(api.trails.delete.method, buildUrl(api.trails.delete.path, { id }));
+    },
+    onSuccess: invalidateTrails,
+  });
+}
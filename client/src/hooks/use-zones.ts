@@ -0,0 +1,76 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { NearbyZone, Zone, ZoneInput } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+async function sendZoneRequest(method: string, url: string, data?: ZoneInput): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Something went wrong saving the zone");
+  }
+
+  return res;
+}
+
+function invalidateZones() {
+  queryClient.invalidateQueries({ queryKey: [api.zones.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.zones.nearby.path] });
+}
+
+export function useZones() {
+  return useQuery<Zone[]>({
+    queryKey: [api.zones.list.path],
+  });
+}
+
+// Rounded to about 100m so walking around doesn't refetch on every GPS update
+export function useNearbyZones(lat: number | null, lng: number | null) {
+  const roundedLat = lat === null ? null : Number(lat.toFixed(3));
+  const roundedLng = lng === null ? null : Number(lng.toFixed(3));
+
+  return useQuery<NearbyZone[]>({
+    queryKey: [api.zones.nearby.path, { lat: roundedLat, lng: roundedLng }],
+    queryFn: async () => {
+      const res = await fetch(`${api.zones.nearby.path}?lat=${roundedLat}&lng=${roundedLng}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load nearby zones");
+      return api.zones.nearby.responses[200].parse(await res.json());
+    },
+    enabled: roundedLat !== null && roundedLng !== null,
+  });
+}
+
+export function useCreateZone() {
+  return useMutation({
+    mutationFn: async (data: ZoneInput) => {
+      const res = await sendZoneRequest(api.zones.create.method, api.zones.create.path, data);
+      return api.zones.create.responses[201].parse(await res.json());
+    },
+    onSuccess: invalidateZones,
+  });
+}
+
+export function useUpdateZone() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: ZoneInput }) => {
+      const res = await sendZoneRequest(api.zones.update.method, buildUrl(api.zones.update.path, { id }), data);
+      return api.zones.update.responses[200].parse(await res.json());
+    },
+    onSuccess: invalidateZones,
+  });
+}
+
+export function useDeleteZone() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await sendZoneRequest(api.zones.delete.method, buildUrl(api.zones.delete.path, { id }));
+    },
+    onSuccess: invalidateZones,
+  });
+}
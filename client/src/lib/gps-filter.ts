@@ -0,0 +1,88 @@
+import { getDistance, getGreatCircleBearing } from "geolib";
+
+// Cleans up the raw fixes a phone reports. Under trees those jump about by tens of
+// meters while the player stands still, which made distance walked grow on its own.
+// Vague fixes are dropped, and the rest go through a Kalman filter: each new fix moves
+// the estimate in proportion to how much it's trusted against how far the player could
+// have walked since the last one.
+
+export type GpsQuality = "good" | "fair" | "poor";
+
+export interface RawFix {
+  lat: number;
+  lng: number;
+  accuracy: number; // meters
+  speed: number | null; // m/s, if the device reports it
+  heading: number | null; // degrees from north, if the device reports it
+  timestamp: number; // ms
+}
+
+export interface FilteredFix {
+  lat: number;
+  lng: number;
+  accuracy: number; // meters, of the smoothed estimate
+  speed: number | null; // m/s
+  heading: number | null; // degrees from north; null while standing still
+  timestamp: number;
+}
+
+const MAX_ACCURACY = 50; // meters; vaguer fixes are dropped once there's a position to keep
+const MIN_ACCURACY = 1; // meters; no fix is trusted more than this
+const WALKING_SPEED = 3; // m/s; how fast the estimate is allowed to drift between fixes
+const STATIONARY_SPEED = 0.5; // m/s; slower than this is standing still, with no course
+const GOOD_ACCURACY = 10; // meters
+const FAIR_ACCURACY = 25; // meters
+
+export function gpsQuality(accuracy: number): GpsQuality {
+  if (accuracy <= GOOD_ACCURACY) return "good";
+  if (accuracy <= FAIR_ACCURACY) return "fair";
+  return "poor";
+}
+
+export class PositionFilter {
+  private current: FilteredFix | null = null;
+  private variance = 0; // square meters
+
+  // Returns the new estimate, or null when the fix was too vague to use
+  process(fix: RawFix): FilteredFix | null {
+    const accuracy = Math.max(fix.accuracy, MIN_ACCURACY);
+    const previous = this.current;
+
+    if (!previous) {
+      // The first fix is kept however vague, so there is somewhere to start from
+      this.variance = accuracy * accuracy;
+      this.current = { lat: fix.lat, lng: fix.lng, accuracy, speed: usable(fix.speed), heading: usable(fix.heading), timestamp: fix.timestamp };
+      return this.current;
+    }
+    if (fix.accuracy > MAX_ACCURACY) return null;
+
+    const elapsed = Math.max(0, fix.timestamp - previous.timestamp) / 1000;
+    this.variance += elapsed * WALKING_SPEED * WALKING_SPEED;
+    const gain = this.variance / (this.variance + accuracy * accuracy);
+    const lat = previous.lat + gain * (fix.lat - previous.lat);
+    const lng = previous.lng + gain * (fix.lng - previous.lng);
+    this.variance *= 1 - gain;
+
+    // Prefer what the device says; otherwise work it out from the smoothed positions
+    const moved = getDistance({ latitude: previous.lat, longitude: previous.lng }, { latitude: lat, longitude: lng }, 0.1);
+    const speed = usable(fix.speed) ?? (elapsed > 0 ? moved / elapsed : previous.speed);
+    let heading = usable(fix.heading);
+    if (heading === null && moved > 0) {
+      heading = getGreatCircleBearing({ latitude: previous.lat, longitude: previous.lng }, { latitude: lat, longitude: lng });
+    }
+
+    this.current = {
+      lat,
+      lng,
+      accuracy: Math.sqrt(this.variance),
+      speed,
+      heading: speed !== null && speed < STATIONARY_SPEED ? null : heading ?? previous.heading,
+      timestamp: fix.timestamp,
+    };
+    return this.current;
+  }
+}
+
+function usable(value: number | null): number | null {
+  return value === null || Number.isNaN(value) ? null : value;
+}
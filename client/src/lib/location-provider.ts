@@ -0,0 +1,70 @@
+import type { RawFix } from "@/lib/gps-filter";
+
+// Where the player's position and compass heading come from. On a phone that's the
+// device; in development and test builds a scripted route can stand in for it
+// (lib/mock-location.ts), so a hunt can be played without walking anywhere.
+
+export interface LocationProvider {
+  // Both return a function that stops watching
+  watchPosition(onFix: (fix: RawFix) => void, onError: (message: string) => void): () => void;
+  watchHeading(onHeading: (heading: number) => void): () => void; // degrees from north
+}
+
+const GEOLOCATION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10000,
+  maximumAge: 0,
+};
+
+export const deviceLocationProvider: LocationProvider = {
+  watchPosition(onFix, onError) {
+    if (!navigator.geolocation) {
+      onError("Geolocation is not supported");
+      return () => {};
+    }
+
+    const success = (position: GeolocationPosition) => {
+      const { latitude, longitude, accuracy, speed, heading } = position.coords;
+      onFix({ lat: latitude, lng: longitude, accuracy, speed, heading, timestamp: position.timestamp });
+    };
+    const error = (err: GeolocationPositionError) => onError(err.message);
+
+    // Get initial position quickly, then watch for updates
+    navigator.geolocation.getCurrentPosition(success, error, GEOLOCATION_OPTIONS);
+    const watchId = navigator.geolocation.watchPosition(success, error, GEOLOCATION_OPTIONS);
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+
+  watchHeading(onHeading) {
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.alpha === null) return;
+      // iOS reports the compass heading itself; elsewhere alpha runs counterclockwise
+      const compass = (event as any).webkitCompassHeading;
+      onHeading(compass !== undefined ? compass : 360 - event.alpha);
+    };
+
+    let stopped = false;
+    if (typeof DeviceOrientationEvent !== "undefined" && typeof (DeviceOrientationEvent as any).requestPermission === "function") {
+      (DeviceOrientationEvent as any).requestPermission().then((response: string) => {
+        if (response === "granted" && !stopped) window.addEventListener("deviceorientation", handleOrientation, true);
+      }).catch((err: unknown) => console.error(err));
+    } else {
+      window.addEventListener("deviceorientation", handleOrientation, true);
+    }
+    return () => {
+      stopped = true;
+      window.removeEventListener("deviceorientation", handleOrientation, true);
+    };
+  },
+};
+
+let provider: LocationProvider = deviceLocationProvider;
+
+export function getLocationProvider(): LocationProvider {
+  return provider;
+}
+
+// Called once at startup, before anything starts watching
+export function setLocationProvider(next: LocationProvider) {
+  provider = next;
+}
@@ -0,0 +1,186 @@
+// Map tiles for each theme, and downloading a hunt's area ahead of time so the map still
+// draws without signal. Downloaded tiles live in Cache Storage under made-up same-origin
+// URLs, one set per theme, and a list of what was downloaded is kept in localStorage.
+
+interface MapTheme {
+  url: string;
+  subdomains: string[];
+  averageTileBytes: number; // for estimating a download before making it
+}
+
+const MAP_THEMES: Record<string, MapTheme> = {
+  standard: { url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", subdomains: ["a", "b", "c"], averageTileBytes: 20_000 },
+  satellite: { url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}", subdomains: [], averageTileBytes: 30_000 },
+  terrain: { url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png", subdomains: ["a", "b", "c"], averageTileBytes: 35_000 },
+  dark: { url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png", subdomains: ["a", "b", "c", "d"], averageTileBytes: 12_000 },
+};
+
+const TILE_CACHE = "geoquest-tiles";
+const AREAS_STORAGE_KEY = "geoquest:offlineAreas";
+export const OFFLINE_ZOOMS = [13, 14, 15, 16, 17]; // from the whole area down to street level
+export const MAX_OFFLINE_TILES = 2500; // the public tile servers frown on bulk downloads
+const DOWNLOAD_CONCURRENCY = 4;
+const QUOTA_HEADROOM = 0.9; // never fill storage right up
+
+export type TileCoords = { x: number; y: number; z: number };
+
+export interface OfflineArea {
+  theme: string;
+  lat: number;
+  lng: number;
+  radius: number; // meters
+  tiles: number;
+  bytes: number;
+  downloadedAt: string;
+}
+
+export interface DownloadEstimate {
+  tiles: number;
+  bytes: number;
+  available: number | null; // bytes the browser will still let us store, if it says
+}
+
+// Thrown when the browser hasn't the room for a download; tiles saved before it ran out are kept
+export class TileQuotaError extends Error {
+  constructor(message: string, public saved: number) {
+    super(message);
+    this.name = "TileQuotaError";
+  }
+}
+
+function themeFor(name: string): MapTheme {
+  return MAP_THEMES[name] ?? MAP_THEMES.standard;
+}
+
+// The Leaflet URL template for a theme
+export function getTileUrl(theme: string): string {
+  return themeFor(theme).url;
+}
+
+export function getTileSubdomains(theme: string): string[] {
+  return themeFor(theme).subdomains;
+}
+
+function tileUrl(theme: string, { x, y, z }: TileCoords): string {
+  const { url, subdomains } = themeFor(theme);
+  const s = subdomains.length > 0 ? subdomains[Math.abs(x + y) % subdomains.length] : "";
+  return url.replace("{s}", s).replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y)).replace("{r}", "");
+}
+
+function tileCacheKey(theme: string, { x, y, z }: TileCoords): string {
+  return `/offline-tiles/${theme}/${z}/${x}/${y}`;
+}
+
+function lngToTileX(lng: number, z: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** z);
+}
+
+function latToTileY(lat: number, z: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+}
+
+// Every tile at the offline zoom levels that overlaps the square around the circle
+export function tilesForArea(lat: number, lng: number, radius: number): TileCoords[] {
+  const dLat = radius / 111_320;
+  const dLng = radius / (111_320 * Math.cos((lat * Math.PI) / 180));
+  const tiles: TileCoords[] = [];
+  for (const z of OFFLINE_ZOOMS) {
+    const [minX, maxX] = [lngToTileX(lng - dLng, z), lngToTileX(lng + dLng, z)];
+    const [minY, maxY] = [latToTileY(lat + dLat, z), latToTileY(lat - dLat, z)];
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+}
+
+export async function estimateDownload(theme: string, lat: number, lng: number, radius: number): Promise<DownloadEstimate> {
+  const tiles = tilesForArea(lat, lng, radius).length;
+  let available: number | null = null;
+  if (navigator.storage?.estimate) {
+    const { usage = 0, quota } = await navigator.storage.estimate();
+    if (quota !== undefined) available = Math.max(0, Math.floor(quota * QUOTA_HEADROOM) - usage);
+  }
+  return { tiles, bytes: tiles * themeFor(theme).averageTileBytes, available };
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === "QuotaExceededError" || err.code === 22);
+}
+
+// Fetches and stores every tile for the area, a few at a time, skipping ones already
+// saved. Tiles that fail to load are left out rather than failing the whole download.
+export async function downloadArea(
+  theme: string,
+  lat: number,
+  lng: number,
+  radius: number,
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {},
+): Promise<OfflineArea> {
+  const tiles = tilesForArea(lat, lng, radius);
+  if (tiles.length > MAX_OFFLINE_TILES) {
+    throw new Error(`That area needs ${tiles.length} map tiles; the most that can be saved at once is ${MAX_OFFLINE_TILES}. Try a smaller radius.`);
+  }
+  const estimate = await estimateDownload(theme, lat, lng, radius);
+  if (estimate.available !== null && estimate.bytes > estimate.available) {
+    throw new TileQuotaError("There isn't enough storage on this device for that area. Free some space or remove other offline maps.", 0);
+  }
+  navigator.storage?.persist?.().catch(() => {
+    // Without it the browser may clear the tiles when it's short of space; they still work until then
+  });
+
+  const cache = await caches.open(TILE_CACHE);
+  let next = 0;
+  let done = 0;
+  let bytes = 0;
+  let saved = 0;
+
+  const worker = async () => {
+    while (next < tiles.length) {
+      if (signal?.aborted) throw new DOMException("Download cancelled", "AbortError");
+      const tile = tiles[next++];
+      const key = tileCacheKey(theme, tile);
+      if (!(await cache.match(key))) {
+        try {
+          const res = await fetch(tileUrl(theme, tile), { mode: "cors", signal });
+          if (res.ok) {
+            const blob = await res.blob();
+            await cache.put(key, new Response(blob, { headers: { "Content-Type": blob.type } }));
+            bytes += blob.size;
+            saved++;
+          }
+        } catch (err) {
+          if (isQuotaError(err)) throw new TileQuotaError("Storage ran out partway through; the tiles saved so far will still work.", saved);
+          if (signal?.aborted) throw err;
+        }
+      }
+      onProgress?.(++done, tiles.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  const area: OfflineArea = { theme, lat, lng, radius, tiles: tiles.length, bytes, downloadedAt: new Date().toISOString() };
+  localStorage.setItem(AREAS_STORAGE_KEY, JSON.stringify([...getOfflineAreas(), area]));
+  return area;
+}
+
+export async function readCachedTile(theme: string, coords: TileCoords): Promise<Blob | null> {
+  if (typeof caches === "undefined") return null;
+  const res = await caches.match(tileCacheKey(theme, coords), { cacheName: TILE_CACHE });
+  return res ? await res.blob() : null;
+}
+
+export function getOfflineAreas(): OfflineArea[] {
+  try {
+    return JSON.parse(localStorage.getItem(AREAS_STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+export async function clearOfflineAreas(): Promise<void> {
+  await caches.delete(TILE_CACHE);
+  localStorage.removeItem(AREAS_STORAGE_KEY);
+}
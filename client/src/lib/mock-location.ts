@@ -0,0 +1,299 @@
+import { z } from "zod";
+import { getDistance, getGreatCircleBearing } from "geolib";
+import type { RawFix } from "@/lib/gps-filter";
+import { setLocationProvider, type LocationProvider } from "@/lib/location-provider";
+
+// A scripted stand-in for the device's GPS and compass, for development and tests. It
+// replays a route, a GPX track or a JSON script, as one fix per second of route time.
+// Left playing it keeps pace with the clock, or runs faster; with a manual clock nothing
+// moves until advance() is called, so an end-to-end test sees the same fixes every run.
+//
+// Only development and test builds include it (see main.tsx), and only when the app is
+// opened with ?mock-location, optionally naming a route file to start on:
+//   /?mock-location=/routes/park.gpx&mock-rate=5
+//   /?mock-location&mock-clock=manual
+// From then on it's driven through window.geoquestMock.
+
+const TICK = 1; // seconds of route time between fixes
+const DEFAULT_SPEED = 1.4; // m/s, walking pace
+const DEFAULT_ACCURACY = 5; // meters
+
+const mockRoutePointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  heading: z.number().min(0).max(360).optional(), // compass, from here to the next point; the direction of travel otherwise
+  pause: z.number().min(0).optional(), // seconds to stand here before moving on
+  accuracy: z.number().positive().optional(), // meters, from here to the next point
+  time: z.number().optional(), // ms since the epoch; GPX tracks are replayed as recorded
+});
+
+const mockRouteSchema = z.object({
+  speed: z.number().positive().optional(), // m/s, between points without recorded times
+  accuracy: z.number().positive().optional(), // meters, for points that don't set their own
+  loop: z.boolean().optional(),
+  points: z.array(mockRoutePointSchema).min(1),
+});
+
+export type MockRoutePoint = z.infer<typeof mockRoutePointSchema>;
+export type MockRoute = z.infer<typeof mockRouteSchema>;
+
+export interface MockLocationState {
+  lat: number;
+  lng: number;
+  heading: number; // compass, degrees from north
+  time: number; // seconds into the route
+  finished: boolean;
+}
+
+interface Keyframe {
+  t: number; // seconds into the route
+  lat: number;
+  lng: number;
+  heading: number | null;
+  accuracy: number;
+}
+
+interface Sample {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  speed: number;
+  course: number | null; // direction of travel
+  heading: number | null; // compass, when the route sets it
+}
+
+function parseGpx(text: string): MockRoute {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("That isn't a valid GPX file");
+
+  // A recorded track if there is one, else a planned route, else the waypoints in order
+  for (const tag of ["trkpt", "rtept", "wpt"]) {
+    const nodes = Array.from(doc.getElementsByTagName(tag));
+    if (nodes.length === 0) continue;
+    const points = nodes.map((node) => {
+      const time = Date.parse(node.getElementsByTagName("time")[0]?.textContent ?? "");
+      return {
+        lat: Number(node.getAttribute("lat")),
+        lng: Number(node.getAttribute("lon")),
+        time: Number.isNaN(time) ? undefined : time,
+      };
+    });
+    if (points.some((p) => !Number.isFinite(p.lat) || !Number.isFinite(p.lng))) {
+      throw new Error("The GPX file has points without coordinates");
+    }
+    return { points };
+  }
+  throw new Error("The GPX file has no track, route or waypoints");
+}
+
+// Accepts GPX or a JSON script, told apart by the first character
+export function parseMockRoute(text: string): MockRoute {
+  if (text.trimStart().startsWith("<")) return parseGpx(text);
+  return mockRouteSchema.parse(JSON.parse(text));
+}
+
+function buildTimeline(route: MockRoute): Keyframe[] {
+  const speed = route.speed ?? DEFAULT_SPEED;
+  const frames: Keyframe[] = [];
+
+  route.points.forEach((point, i) => {
+    const previous = route.points[i - 1];
+    let t = 0;
+    if (previous) {
+      const last = frames[frames.length - 1];
+      const recorded = previous.time !== undefined && point.time !== undefined;
+      t = last.t + (recorded ? Math.max(0, point.time! - previous.time!) / 1000 : distance(previous, point) / speed);
+    }
+    const frame = {
+      t,
+      lat: point.lat,
+      lng: point.lng,
+      heading: point.heading ?? null,
+      accuracy: point.accuracy ?? route.accuracy ?? DEFAULT_ACCURACY,
+    };
+    frames.push(frame);
+    if (point.pause) frames.push({ ...frame, t: t + point.pause });
+  });
+  return frames;
+}
+
+function distance(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  return getDistance({ latitude: a.lat, longitude: a.lng }, { latitude: b.lat, longitude: b.lng }, 0.1);
+}
+
+export class MockLocationProvider implements LocationProvider {
+  private frames: Keyframe[] = [];
+  private loop = false;
+  private clock = 0; // seconds since the provider was made; never goes backwards
+  private routeStart = 0; // the clock when the current route was loaded
+  private readonly epoch = Date.now();
+  private headingOverride: number | null = null;
+  private lastHeading = 0;
+  private loadError: string | null = null; // kept for watchers that arrive after a failed load
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private fixListeners = new Set<(fix: RawFix) => void>();
+  private errorListeners = new Set<(message: string) => void>();
+  private headingListeners = new Set<(heading: number) => void>();
+
+  constructor(private options: { rate: number; manual: boolean } = { rate: 1, manual: false }) {}
+
+  watchPosition(onFix: (fix: RawFix) => void, onError: (message: string) => void): () => void {
+    this.fixListeners.add(onFix);
+    this.errorListeners.add(onError);
+    const sample = this.sample();
+    if (sample) onFix(this.toFix(sample));
+    else if (this.loadError) onError(this.loadError);
+    return () => {
+      this.fixListeners.delete(onFix);
+      this.errorListeners.delete(onError);
+    };
+  }
+
+  watchHeading(onHeading: (heading: number) => void): () => void {
+    this.headingListeners.add(onHeading);
+    if (this.frames.length > 0) onHeading(this.lastHeading);
+    return () => {
+      this.headingListeners.delete(onHeading);
+    };
+  }
+
+  // Starts a route from its first point; plays it unless the clock is manual
+  load(route: MockRoute | string) {
+    const parsed = typeof route === "string" ? parseMockRoute(route) : mockRouteSchema.parse(route);
+    this.frames = buildTimeline(parsed);
+    this.loadError = null;
+    this.loop = parsed.loop ?? false;
+    this.routeStart = this.clock;
+    this.emit();
+    if (!this.options.manual) this.play();
+  }
+
+  async loadUrl(url: string) {
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+      this.load(await res.text());
+    } catch (err) {
+      this.loadError = `Couldn't load the mock route ${url}: ${err instanceof Error ? err.message : err}`;
+      this.errorListeners.forEach((listener) => listener(this.loadError!));
+    }
+  }
+
+  // Walks in a straight line from wherever the player is now
+  walkTo(lat: number, lng: number, speed = DEFAULT_SPEED) {
+    const here = this.sample();
+    const start = here ? [{ lat: here.lat, lng: here.lng, accuracy: here.accuracy }] : [];
+    this.load({ speed, points: [...start, { lat, lng }] });
+  }
+
+  jumpTo(lat: number, lng: number) {
+    this.load({ points: [{ lat, lng }] });
+  }
+
+  // Fixes the compass on a bearing, or hands it back to the route with null
+  setHeading(heading: number | null) {
+    this.headingOverride = heading;
+    this.emit();
+  }
+
+  // Moves the route on, one fix per second of route time on the way
+  advance(seconds: number) {
+    for (let remaining = seconds; remaining > 0; remaining -= TICK) {
+      this.clock += Math.min(TICK, remaining);
+      this.emit();
+    }
+  }
+
+  play(rate = this.options.rate) {
+    this.pause();
+    this.options.rate = rate;
+    this.timer = setInterval(() => this.advance(TICK), (TICK * 1000) / rate);
+  }
+
+  pause() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  get state(): MockLocationState | null {
+    const sample = this.sample();
+    if (!sample) return null;
+    const last = this.frames[this.frames.length - 1];
+    return {
+      lat: sample.lat,
+      lng: sample.lng,
+      heading: this.lastHeading,
+      time: this.clock - this.routeStart,
+      finished: !this.loop && this.clock - this.routeStart >= last.t,
+    };
+  }
+
+  private sample(): Sample | null {
+    const frames = this.frames;
+    if (frames.length === 0) return null;
+    const duration = frames[frames.length - 1].t;
+    let t = this.clock - this.routeStart;
+    if (this.loop && duration > 0) t %= duration;
+
+    const next = frames.findIndex((frame) => frame.t > t);
+    if (next <= 0) {
+      const end = frames[next === 0 ? 0 : frames.length - 1];
+      return { lat: end.lat, lng: end.lng, accuracy: end.accuracy, speed: 0, course: null, heading: end.heading };
+    }
+
+    const from = frames[next - 1];
+    const to = frames[next];
+    const share = (t - from.t) / (to.t - from.t);
+    const moving = from.lat !== to.lat || from.lng !== to.lng;
+    return {
+      lat: from.lat + share * (to.lat - from.lat),
+      lng: from.lng + share * (to.lng - from.lng),
+      accuracy: from.accuracy,
+      speed: distance(from, to) / (to.t - from.t),
+      course: moving ? getGreatCircleBearing({ latitude: from.lat, longitude: from.lng }, { latitude: to.lat, longitude: to.lng }) : null,
+      heading: from.heading,
+    };
+  }
+
+  private toFix(sample: Sample): RawFix {
+    return {
+      lat: sample.lat,
+      lng: sample.lng,
+      accuracy: sample.accuracy,
+      speed: sample.speed,
+      heading: sample.course,
+      timestamp: this.epoch + this.clock * 1000,
+    };
+  }
+
+  private emit() {
+    const sample = this.sample();
+    if (!sample) return;
+    const fix = this.toFix(sample);
+    this.fixListeners.forEach((listener) => listener(fix));
+    // Facing the way they walk unless told otherwise, and the same way when they stop
+    this.lastHeading = this.headingOverride ?? sample.heading ?? sample.course ?? this.lastHeading;
+    this.headingListeners.forEach((listener) => listener(this.lastHeading));
+  }
+}
+
+declare global {
+  interface Window {
+    geoquestMock?: MockLocationProvider;
+  }
+}
+
+export function installMockLocation() {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has("mock-location")) return;
+
+  const mock = new MockLocationProvider({
+    rate: Number(params.get("mock-rate")) || 1,
+    manual: params.get("mock-clock") === "manual",
+  });
+  setLocationProvider(mock);
+  window.geoquestMock = mock;
+
+  const url = params.get("mock-location");
+  if (url) mock.loadUrl(url);
+}
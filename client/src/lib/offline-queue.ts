@@ -0,0 +1,130 @@
+// Answers and photos made without signal wait here, in IndexedDB so photos fit and the
+// queue survives the app being closed, until they can be sent. Each keeps the
+// Idempotency-Key it was first sent with, so the server counts it once however many
+// times it's replayed.
+
+export type SubmissionKind = "answer" | "photo";
+
+export interface QueuedSubmission {
+  key: string;
+  kind: SubmissionKind;
+  userId: number; // only sent while this player is signed in
+  url: string;
+  body: unknown;
+  target: number; // the checkpoint id for answers, the nature item id for photos
+  sessionId?: string; // answers only
+  label: string; // what the player would call it, for telling them how it went
+  queuedAt: string;
+}
+
+export interface SettledSubmission {
+  submission: QueuedSubmission;
+  status: number;
+  body: any;
+}
+
+const DB_NAME = "geoquest-offline";
+const STORE = "submissions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushing: Promise<void> | null = null;
+const changeListeners = new Set<() => void>();
+const settledListeners = new Set<(settled: SettledSubmission) => void>();
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "key" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notifyChange() {
+  changeListeners.forEach((listener) => listener());
+}
+
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+// Whether a failed fetch means the request never got through, rather than that the
+// server turned it down
+export function isOfflineError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+export function sendSubmission(url: string, body: unknown, key: string): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+}
+
+export async function queueSubmission(submission: Omit<QueuedSubmission, "queuedAt">): Promise<void> {
+  await withStore("readwrite", (store) => store.put({ ...submission, queuedAt: new Date().toISOString() }));
+  notifyChange();
+}
+
+export async function getQueuedSubmissions(userId: number): Promise<QueuedSubmission[]> {
+  const all = await withStore<QueuedSubmission[]>("readonly", (store) => store.getAll());
+  return all.filter(s => s.userId === userId).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+// Sends the player's queue oldest first, stopping at the first one that can't get
+// through yet. Whatever the server says about the rest, even "no", is final.
+export function flushQueue(userId: number): Promise<void> {
+  flushing ??= (async () => {
+    try {
+      for (const submission of await getQueuedSubmissions(userId)) {
+        let res: Response;
+        try {
+          res = await sendSubmission(submission.url, submission.body, submission.key);
+        } catch {
+          return;
+        }
+        // A server error, a sign-in that has lapsed, or the same submission still being
+        // handled from an earlier try
+        if (res.status >= 500 || res.status === 401 || res.headers.has("Retry-After")) return;
+
+        await withStore("readwrite", (store) => store.delete(submission.key));
+        notifyChange();
+        const body = await res.json().catch(() => ({}));
+        settledListeners.forEach((listener) => listener({ submission, status: res.status, body }));
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
+
+// Called with the server's answer to each replayed submission
+export function onSubmissionSettled(listener: (settled: SettledSubmission) => void): () => void {
+  settledListeners.add(listener);
+  return () => {
+    settledListeners.delete(listener);
+  };
+}
+
+export function onQueueChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
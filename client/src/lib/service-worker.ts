@@ -0,0 +1,13 @@
+// The service worker (client/public/sw.js) is only registered in builds; under the dev
+// server it would cache modules that are meant to change on every edit
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => console.error("Service worker registration failed:", err));
+  });
+}
+
+// Cached API responses belong to whoever was signed in
+export function clearCachedPlayerData() {
+  navigator.serviceWorker?.controller?.postMessage({ type: "clearData" });
+}
@@ -1,5 +1,16 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { registerServiceWorker } from "./lib/service-worker";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+async function start() {
+  // Development and test builds only, so the mock never ships to players
+  if (import.meta.env.DEV || import.meta.env.MODE === "test") {
+    const { installMockLocation } = await import("./lib/mock-location");
+    installMockLocation();
+  }
+  createRoot(document.getElementById("root")!).render(<App />);
+}
+
+registerServiceWorker();
+start();
@@ -0,0 +1,171 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Flame, Loader2, Plus, Users } from "lucide-react";
+import { Link } from "wouter";
+import { LeafBackground } from "@/components/layout/LeafBackground";
+import { PointsLedgerDialog } from "@/components/PointsLedgerDialog";
+import { useClassRoster, useCreateClass, useTeacherClasses } from "@/hooks/use-classes";
+import { usePlayer } from "@/hooks/use-auth";
+import type { RosterEntry } from "@shared/schema";
+
+export default function Classes() {
+  const { data: player } = usePlayer();
+  const isTeacher = player?.role === "teacher";
+  const classesQuery = useTeacherClasses(isTeacher);
+  const createClassMutation = useCreateClass();
+  const [newClassName, setNewClassName] = useState("");
+  const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+  const rosterQuery = useClassRoster(selectedClassId);
+  const [ledgerStudent, setLedgerStudent] = useState<RosterEntry | null>(null);
+
+  useEffect(() => {
+    if (selectedClassId === null && classesQuery.data?.length) {
+      setSelectedClassId(classesQuery.data[0].id);
+    }
+  }, [classesQuery.data]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createClassMutation.mutate(newClassName, {
+      onSuccess: (cls) => {
+        setNewClassName("");
+        setSelectedClassId(cls.id);
+      },
+    });
+  };
+
+  const selectedClass = classesQuery.data?.find((c) => c.id === selectedClassId);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4 relative overflow-hidden">
+      <LeafBackground />
+      <div className="max-w-2xl mx-auto space-y-6 relative z-10">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold font-display text-green-900">My Classes</h1>
+        </div>
+
+        {!isTeacher ? (
+          <Card className="p-6 text-center text-muted-foreground">Only teacher accounts can manage classes.</Card>
+        ) : (
+          <>
+            <Card className="p-4 bg-white/90 backdrop-blur-sm">
+              <form onSubmit={handleCreate} className="flex gap-2">
+                <Input
+                  value={newClassName}
+                  onChange={(e) => setNewClassName(e.target.value)}
+                  placeholder="New class name, e.g. 4th Grade Science"
+                  maxLength={60}
+                  data-testid="input-class-name"
+                />
+                <Button
+                  type="submit"
+                  disabled={!newClassName.trim() || createClassMutation.isPending}
+                  data-testid="button-create-class"
+                >
+                  {createClassMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                </Button>
+              </form>
+            </Card>
+
+            <div className="flex flex-wrap gap-2">
+              {classesQuery.data?.map((cls) => (
+                <Button
+                  key={cls.id}
+                  variant={cls.id === selectedClassId ? "default" : "outline"}
+                  onClick={() => setSelectedClassId(cls.id)}
+                  className="rounded-full"
+                  data-testid={`button-class-${cls.id}`}
+                >
+                  {cls.name}
+                </Button>
+              ))}
+            </div>
+
+            {selectedClass && (
+              <Card className="p-4 bg-white/90 backdrop-blur-sm space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold flex items-center gap-2">
+                    <Users className="w-5 h-5 text-green-600" />
+                    {selectedClass.name}
+                  </h2>
+                  <div className="text-right">
+                    <p className="text-[10px] font-bold text-gray-400 uppercase">Join Code</p>
+                    <p className="text-2xl font-black font-mono tracking-widest text-green-800" data-testid="text-join-code">
+                      {selectedClass.joinCode}
+                    </p>
+                  </div>
+                </div>
+
+                {rosterQuery.isLoading ? (
+                  <div className="flex justify-center p-6">
+                    <Loader2 className="w-6 h-6 animate-spin text-green-600" />
+                  </div>
+                ) : rosterQuery.data?.length ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead className="text-right">Points</TableHead>
+                        <TableHead className="text-right">Streak</TableHead>
+                        <TableHead className="text-right">Hunts</TableHead>
+                        <TableHead className="text-right">Last Active</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rosterQuery.data.map((entry) => (
+                        <TableRow key={entry.userId} data-testid={`row-student-${entry.userId}`}>
+                          <TableCell className="font-bold">{entry.nickname}</TableCell>
+                          <TableCell className="text-right">
+                            <button
+                              type="button"
+                              onClick={() => setLedgerStudent(entry)}
+                              className="font-bold text-green-700 underline-offset-2 hover:underline"
+                              title="See where these points came from"
+                              data-testid={`button-points-${entry.userId}`}
+                            >
+                              {entry.totalPoints}
+                            </button>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <span className="inline-flex items-center gap-1">
+                              <Flame className="w-3 h-3 text-orange-500" />
+                              {entry.currentStreak}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{entry.huntsCompleted}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {entry.lastActivityDate
+                              ? new Date(entry.lastActivityDate).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+                              : "Never"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-6">
+                    No students yet. Share the join code with your class!
+                  </p>
+                )}
+
+                <PointsLedgerDialog
+                  classId={selectedClass.id}
+                  student={ledgerStudent}
+                  onClose={() => setLedgerStudent(null)}
+                />
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
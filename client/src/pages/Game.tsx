@@ -1,16 +1,20 @@
 import { useState, useEffect, useMemo } from "react";
 import { useGeolocation } from "@/hooks/use-geolocation";
-import { useGenerateGame, useVerifyAnswer } from "@/hooks/use-game";
+import { useGenerateGame, useVerifyAnswer, useGameSession, useCompleteHunt, useRovingPositions, useJoinTeamHunt, useTrackRecorder, describeStreak, getStoredSessionId, storeSessionId, ProximityError } from "@/hooks/use-game";
+import { useHuntSocket } from "@/hooks/use-hunt-socket";
+import { useOnline, useQueuedSubmissions, useSubmissionSettled } from "@/hooks/use-offline";
+import { useAnnounceAchievements } from "@/hooks/use-achievements";
 import { CheckpointCard } from "@/components/CheckpointCard";
-import { QuestionDialog } from "@/components/QuestionDialog";
+import { QuestionDialog, type AnswerVerdict } from "@/components/QuestionDialog";
 import { Radar } from "@/components/Radar";
 import { ARView } from "@/components/ARView";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { getDistance } from "geolib";
 import { motion, AnimatePresence } from "framer-motion";
-import { Loader2, Trophy, MapPin, AlertCircle, Camera, Settings, Timer, Target, Map as MapIcon, Leaf, Sparkles, Flame, Calendar, Snowflake, BarChart3 } from "lucide-react";
+import { Loader2, Trophy, MapPin, AlertCircle, Camera, Settings, Timer, Target, Map as MapIcon, Leaf, Sparkles, Flame, Calendar, Snowflake, BarChart3, LogOut, Users, Route, Trees, UsersRound } from "lucide-react";
 import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -18,23 +22,40 @@ import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { Checkpoint } from "@shared/schema";
+import type { Checkpoint, GameSessionState, HuntSocketMessage, TeamMemberScore } from "@shared/schema";
+import { api, type VerifyAnswerResponse } from "@shared/routes";
 import { NatureScavengerHunt } from "@/components/NatureScavengerHunt";
 import { LeafBackground } from "@/components/layout/LeafBackground";
+import { usePlayer, useLogout } from "@/hooks/use-auth";
+import { JoinClassDialog } from "@/components/JoinClassDialog";
+import { OfflineMapDialog } from "@/components/OfflineMapDialog";
+import { useTrails } from "@/hooks/use-trails";
+import { useNearbyZones } from "@/hooks/use-zones";
 
 export default function Game() {
-  const { lat, lng, error: geoError, loading: geoLoading } = useGeolocation();
+  const { lat, lng, accuracy, quality: gpsQuality, error: geoError, loading: geoLoading } = useGeolocation();
   const generateGameMutation = useGenerateGame();
-  const verifyAnswerMutation = useVerifyAnswer();
+  const { data: player } = usePlayer();
+  const verifyAnswerMutation = useVerifyAnswer(player?.id);
+  const completeHuntMutation = useCompleteHunt();
+  const joinTeamMutation = useJoinTeamHunt();
+  const logoutMutation = useLogout();
   const { toast } = useToast();
+  const announceAchievements = useAnnounceAchievements();
   
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [totalCheckpoints, setTotalCheckpoints] = useState(0);
   const [score, setScore] = useState(0);
+  const [captureRadius, setCaptureRadius] = useState(20);
   const [gameMode, setGameMode] = useState<"menu" | "ar" | "nature">("menu");
   const [activeQuestion, setActiveQuestion] = useState<Checkpoint | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [gameOver, setGameOver] = useState(false);
   const [isZenMode, setIsZenMode] = useState(false);
+  const [teamCode, setTeamCode] = useState<string | null>(null);
+  const [scoreboard, setScoreboard] = useState<TeamMemberScore[]>([]);
+  const [joinCode, setJoinCode] = useState("");
 
   const settingsQuery = useQuery<{ timeLimit: number; checkpointCount: number; radius: number; zenMode: boolean; mapTheme: string }>({
     queryKey: ["/api/settings"],
@@ -44,6 +65,38 @@ export default function Game() {
     queryKey: ["/api/stats"],
   });
 
+  const online = useOnline();
+  const queuedSubmissions = useQueuedSubmissions(player?.id);
+  // Answered offline and not yet confirmed; they count once the server has checked them
+  const pendingCheckpointIds = useMemo(
+    () => queuedSubmissions.filter(s => s.kind === "answer" && s.sessionId === sessionId).map(s => s.target),
+    [queuedSubmissions, sessionId]
+  );
+
+  const trailsQuery = useTrails();
+  const nearbyZonesQuery = useNearbyZones(lat, lng);
+
+  const storedSessionQuery = useGameSession(getStoredSessionId());
+  const resumableSession = useMemo(() => {
+    const session = storedSessionQuery.data;
+    if (!session || session.completedAt || session.id === sessionId) return null;
+    const remaining = getSecondsRemaining(session);
+    return remaining === null || remaining > 0 ? session : null;
+  }, [storedSessionQuery.data, sessionId]);
+
+  // The server moves roving checkpoints; follow them while the hunt is on screen
+  const hasRoving = checkpoints.some(cp => cp.isRoving && !cp.collected);
+  const rovingQuery = useRovingPositions(sessionId, lat, lng, gameMode === "ar" && !gameOver && hasRoving);
+
+  useEffect(() => {
+    if (!rovingQuery.data) return;
+    const positions = new Map(rovingQuery.data.map(p => [p.id, p]));
+    setCheckpoints(prev => prev.map(cp => {
+      const p = positions.get(cp.id);
+      return p && !cp.collected ? { ...cp, lat: p.lat, lng: p.lng } : cp;
+    }));
+  }, [rovingQuery.data]);
+
   // Derived state: sorted and deduplicated checkpoints by distance
   const sortedCheckpoints = useMemo(() => {
     if (!lat || !lng || checkpoints.length === 0) return [];
@@ -69,33 +122,76 @@ export default function Game() {
     });
   }, [lat, lng, checkpoints]);
 
-  // Start Game Handler
-  const handleStartMission = () => {
+  const enterSession = (session: GameSessionState) => {
+    setSessionId(session.id);
+    setCheckpoints(session.checkpoints);
+    setTotalCheckpoints(session.totalCheckpoints);
+    setScore(session.score);
+    setCaptureRadius(session.captureRadius);
+    setIsZenMode(session.timeLimit === null);
+    setTimeRemaining(getSecondsRemaining(session));
+    setTeamCode(session.teamCode);
+    setScoreboard([]);
+    setGameOver(false);
+    setGameMode("ar");
+  };
+
+  // In a team hunt the server is the referee: it pushes every find and ends the hunt
+  // for everyone once the last checkpoint is collected
+  const handleHuntMessage = (message: HuntSocketMessage) => {
+    if (message.type === "state") {
+      const session = message.session;
+      setCheckpoints(session.checkpoints);
+      setTotalCheckpoints(session.totalCheckpoints);
+      setScore(session.score);
+      setScoreboard(message.scoreboard);
+      if (session.completedAt && !gameOver) {
+        setGameOver(true);
+        storeSessionId(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      }
+    } else if (message.type === "streak" && message.userId === player?.id) {
+      toast({
+        title: "Team Quest Completed!",
+        description: `Your team found every checkpoint. ${describeStreak(message.streak)}`,
+      });
+    } else if (message.type === "achievements" && message.userId === player?.id) {
+      announceAchievements(message.achievements);
+    } else if (message.type === "collected" && message.userId !== player?.id) {
+      toast({
+        title: `${message.nickname} found a checkpoint!`,
+        description: `+${message.points} points for the team`,
+      });
+    }
+  };
+
+  useHuntSocket(teamCode ? sessionId : null, handleHuntMessage);
+  useTrackRecorder(sessionId, lat, lng, accuracy, gameMode === "ar" && !gameOver, announceAchievements);
+
+  // Start Game Handler; a trail brings its own stops and a zone its own area and rules.
+  // A team hunt gets a code that friends use to join it.
+  const handleStartMission = ({ trailId, zoneId, team }: { trailId?: number; zoneId?: number; team?: boolean } = {}) => {
     if (lat && lng) {
       const count = settingsQuery.data?.checkpointCount ?? 5;
       const radius = settingsQuery.data?.radius ?? 500;
-      const zen = settingsQuery.data?.zenMode ?? false;
-      setIsZenMode(zen);
 
       generateGameMutation.mutate(
-        { lat, lng, radius, count },
-        {
-          onSuccess: (data) => {
-            setCheckpoints(data);
-            setGameMode("ar");
-            setScore(0);
-            const minutes = settingsQuery.data?.timeLimit ?? 30;
-            if (zen) {
-              setTimeRemaining(null);
-            } else {
-              setTimeRemaining(minutes * 60);
-            }
-          }
-        }
+        { lat, lng, radius, count, trailId, zoneId, team },
+        { onSuccess: enterSession }
       );
     }
   };
 
+  const handleJoinTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    joinTeamMutation.mutate(joinCode, {
+      onSuccess: (session) => {
+        setJoinCode("");
+        enterSession(session);
+      },
+    });
+  };
+
   // Timer countdown effect
   useEffect(() => {
     if (gameMode !== "ar" || timeRemaining === null || gameOver) return;
@@ -120,44 +216,68 @@ export default function Game() {
     setActiveQuestion(checkpoint);
   };
 
-  const completeHuntMutation = useMutation({
-    mutationFn: () => apiRequest("POST", "/api/stats/complete-hunt", {}),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      toast({
-        title: "Quest Completed!",
-        description: "You've finished your mission and earned a Streak Freeze!",
-      });
-    }
-  });
-
   useEffect(() => {
-    if (checkpoints.length > 0 && checkpoints.every(cp => cp.collected) && !gameOver) {
-      completeHuntMutation.mutate();
+    // Team hunts are completed by the server
+    if (teamCode) return;
+    // Trail stops arrive one at a time, so wait until the last one has been revealed
+    const allRevealed = checkpoints.length === totalCheckpoints;
+    if (sessionId && allRevealed && checkpoints.length > 0 && checkpoints.every(cp => cp.collected) && !gameOver) {
+      completeHuntMutation.mutate(sessionId, {
+        onSuccess: (completed) => {
+          toast({
+            title: "Quest Completed!",
+            description: `You've finished your mission. ${describeStreak(completed.streak)}`,
+          });
+          announceAchievements(completed.achievements);
+        }
+      });
       setGameOver(true);
     }
-  }, [checkpoints, gameOver]);
+  }, [checkpoints, totalCheckpoints, gameOver, sessionId, teamCode]);
+
+  const applyCorrectAnswer = (checkpointId: number, result: VerifyAnswerResponse) => {
+    // The team's score comes over the hunt socket
+    if (!teamCode) setScore(prev => prev + result.points);
+    setCheckpoints(prev => {
+      const updated = prev.map(cp => 
+        cp.id === checkpointId ? { ...cp, collected: true } : cp
+      );
+      return result.nextCheckpoint ? [...updated, result.nextCheckpoint] : updated;
+    });
+  };
+
+  // Answers queued offline are confirmed here once they've been sent; the toast saying
+  // how they went comes from the app-wide sync
+  useSubmissionSettled(({ submission, status, body }) => {
+    if (submission.kind !== "answer" || submission.sessionId !== sessionId || status !== 200) return;
+    const result = api.game.verify.responses[200].safeParse(body);
+    if (result.success && result.data.correct) applyCorrectAnswer(submission.target, result.data);
+  });
 
   // Handle Answer Verification
-  const handleVerify = async (answer: string): Promise<boolean> => {
-    if (!activeQuestion) return false;
+  const handleVerify = async (answer: string): Promise<AnswerVerdict> => {
+    if (!activeQuestion || !sessionId || !lat || !lng) return "incorrect";
 
     try {
       const result = await verifyAnswerMutation.mutateAsync({
-        questionId: activeQuestion.id,
-        answer
+        sessionId,
+        checkpointId: activeQuestion.id,
+        answer,
+        lat,
+        lng,
+        accuracy: accuracy ?? 0
       });
 
+      if (result === null) return "queued";
       if (result.correct) {
-        setScore(prev => prev + result.points);
-        setCheckpoints(prev => prev.map(cp => 
-          cp.id === activeQuestion.id ? { ...cp, collected: true } : cp
-        ));
-        return true;
+        announceAchievements(result.achievements);
+        applyCorrectAnswer(activeQuestion.id, result);
+        return "correct";
       }
-      return false;
+      return "incorrect";
     } catch (e) {
-      return false;
+      if (e instanceof ProximityError) throw e;
+      return "incorrect";
     }
   };
 
@@ -186,7 +306,8 @@ export default function Game() {
 
   if (gameMode === "menu") {
     const stats = statsQuery.data as any;
-    const todayPoints = stats?.pointsHistory?.find((h: any) => h.date === new Date().toISOString().split('T')[0])?.points ?? 0;
+    // History is kept by the player's local day; en-CA formats it as YYYY-MM-DD
+    const todayPoints = stats?.pointsHistory?.find((h: any) => h.date === new Date().toLocaleDateString("en-CA"))?.points ?? 0;
 
     return (
       <div className="min-h-screen flex flex-col p-6 bg-gradient-to-b from-green-50 to-green-100 relative overflow-hidden">
@@ -197,9 +318,21 @@ export default function Game() {
               <h1 className="text-4xl font-black text-green-900 leading-none flex items-center gap-2">
                 Forest <Leaf className="text-green-600" />
               </h1>
-              <p className="text-green-700 font-medium">Nature Explorer</p>
+              <p className="text-green-700 font-medium" data-testid="text-player-nickname">{player?.nickname ?? "Nature Explorer"}</p>
             </div>
             <div className="flex gap-2">
+              {player?.role === "teacher" && (
+                <Link href="/classes">
+                  <Button variant="outline" size="icon" className="rounded-full bg-white/50 backdrop-blur-sm border-green-200" data-testid="button-classes">
+                    <Users className="w-5 h-5 text-green-700" />
+                  </Button>
+                </Link>
+              )}
+              <Link href="/leaderboard">
+                <Button variant="outline" size="icon" className="rounded-full bg-white/50 backdrop-blur-sm border-green-200" data-testid="button-leaderboard">
+                  <Trophy className="w-5 h-5 text-green-700" />
+                </Button>
+              </Link>
               <Link href="/stats">
                 <Button variant="outline" size="icon" className="rounded-full bg-white/50 backdrop-blur-sm border-green-200" data-testid="button-stats">
                   <BarChart3 className="w-5 h-5 text-green-700" />
@@ -210,6 +343,15 @@ export default function Game() {
                   <Settings className="w-5 h-5 text-green-700" />
                 </Button>
               </Link>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                className="rounded-full bg-white/50 backdrop-blur-sm border-green-200"
+                data-testid="button-logout"
+              >
+                <LogOut className="w-5 h-5 text-green-700" />
+              </Button>
             </div>
           </div>
 
@@ -251,9 +393,24 @@ export default function Game() {
             </div>
           </Card>
 
+          {player?.role === "student" && <JoinClassDialog player={player} />}
+
+          <OfflineMapDialog lat={lat} lng={lng} radius={settingsQuery.data?.radius ?? 500} theme={settingsQuery.data?.mapTheme ?? "standard"} />
+
           <div className="space-y-4">
+            {resumableSession && (
+              <Button
+                onClick={() => enterSession(resumableSession)}
+                variant="outline"
+                className="w-full h-14 rounded-3xl border-2 border-green-300 bg-white/70 text-green-800 font-black text-lg"
+                data-testid="button-resume-hunt"
+              >
+                Resume Quest ({resumableSession.totalCheckpoints - resumableSession.checkpoints.filter(cp => cp.collected).length} left)
+              </Button>
+            )}
+
             <Button 
-              onClick={handleStartMission}
+              onClick={() => handleStartMission()}
               className="w-full h-24 bg-green-600 hover:bg-green-700 text-white rounded-3xl shadow-lg shadow-green-200 group relative overflow-hidden transition-all active:scale-95"
             >
               <div className="absolute top-0 right-0 p-4 opacity-20 group-hover:scale-110 transition-transform">
@@ -267,6 +424,91 @@ export default function Game() {
               </div>
             </Button>
 
+            <Card className="p-4 border-none shadow-lg bg-white/80 backdrop-blur-md space-y-3">
+              <p className="text-xs font-bold text-green-600 uppercase tracking-wider flex items-center gap-1">
+                <UsersRound className="w-3 h-3" /> Team Hunt
+              </p>
+              <Button
+                onClick={() => handleStartMission({ team: true })}
+                disabled={generateGameMutation.isPending}
+                className="w-full rounded-full bg-green-600 hover:bg-green-700"
+                data-testid="button-start-team-hunt"
+              >
+                Start a Team Hunt
+              </Button>
+              <form onSubmit={handleJoinTeam} className="flex gap-2">
+                <Input
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  placeholder="Team code"
+                  maxLength={6}
+                  className="font-mono uppercase"
+                  data-testid="input-team-code"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={joinCode.trim().length !== 6 || joinTeamMutation.isPending}
+                  className="rounded-full"
+                  data-testid="button-join-team"
+                >
+                  Join
+                </Button>
+              </form>
+            </Card>
+
+            {nearbyZonesQuery.data && nearbyZonesQuery.data.length > 0 && (
+              <Card className="p-4 border-none shadow-lg bg-white/80 backdrop-blur-md space-y-3">
+                <p className="text-xs font-bold text-green-600 uppercase tracking-wider flex items-center gap-1">
+                  <Trees className="w-3 h-3" /> Zones Nearby
+                </p>
+                {nearbyZonesQuery.data.map((zone) => (
+                  <div key={zone.id} className="flex items-center gap-3" data-testid={`row-zone-${zone.id}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-green-900 truncate">{zone.name}</p>
+                      <p className="text-xs text-green-700">
+                        {zone.distance === 0 ? "You're here" : `${zone.distance}m away`} · {zone.checkpointCount} checkpoints · {zone.zenMode ? "no timer" : `${zone.timeLimit} min`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleStartMission({ zoneId: zone.id })}
+                      disabled={generateGameMutation.isPending}
+                      className="rounded-full bg-green-600 hover:bg-green-700"
+                      data-testid={`button-start-zone-${zone.id}`}
+                    >
+                      Start
+                    </Button>
+                  </div>
+                ))}
+              </Card>
+            )}
+
+            {trailsQuery.data && trailsQuery.data.length > 0 && (
+              <Card className="p-4 border-none shadow-lg bg-white/80 backdrop-blur-md space-y-3">
+                <p className="text-xs font-bold text-green-600 uppercase tracking-wider flex items-center gap-1">
+                  <Route className="w-3 h-3" /> Trails
+                </p>
+                {trailsQuery.data.map((trail) => (
+                  <div key={trail.id} className="flex items-center gap-3" data-testid={`row-trail-${trail.id}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-green-900 truncate">{trail.name}</p>
+                      <p className="text-xs text-green-700 truncate">{trail.description || `${trail.stops.length} stops`}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleStartMission({ trailId: trail.id })}
+                      disabled={generateGameMutation.isPending}
+                      className="rounded-full bg-green-600 hover:bg-green-700"
+                      data-testid={`button-start-trail-${trail.id}`}
+                    >
+                      Start
+                    </Button>
+                  </div>
+                ))}
+              </Card>
+            )}
+
             <Button 
               onClick={() => setGameMode("nature")}
               className="w-full h-24 bg-white hover:bg-green-50 text-green-800 rounded-3xl shadow-lg shadow-green-100 border-2 border-green-100 group relative overflow-hidden transition-all active:scale-95"
@@ -315,8 +557,16 @@ export default function Game() {
         checkpoints={sortedCheckpoints}
         userLat={lat}
         userLng={lng}
+        gpsAccuracy={accuracy}
+        gpsQuality={gpsQuality}
         score={score}
         timeRemaining={timeRemaining}
+        captureRadius={captureRadius}
+        totalCheckpoints={totalCheckpoints}
+        teamCode={teamCode}
+        scoreboard={scoreboard}
+        pendingCheckpointIds={pendingCheckpointIds}
+        offline={!online}
         onCheckpointTap={handleARCheckpointTap}
         onClose={() => setGameMode("menu")}
       />
@@ -330,3 +580,10 @@ export default function Game() {
     </div>
   );
 }
+
+// Seconds left in a session's time limit, or null in zen mode
+function getSecondsRemaining(session: GameSessionState): number | null {
+  if (session.timeLimit === null) return null;
+  const endsAt = new Date(session.startedAt).getTime() + session.timeLimit * 60 * 1000;
+  return Math.max(0, Math.floor((endsAt - Date.now()) / 1000));
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "wouter";
+import { MapContainer, Polyline, CircleMarker, Tooltip } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { getDistance } from "geolib";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { ArrowLeft, Download, Footprints, Loader2, MapPin, Pause, Play } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { LeafBackground } from "@/components/layout/LeafBackground";
+import { MapTileLayer } from "@/components/MapTileLayer";
+import { useHuntReplay } from "@/hooks/use-game";
+import { api, buildUrl } from "@shared/routes";
+import type { HuntReplay as HuntReplayData } from "@shared/schema";
+
+const PLAYBACK_STEPS = 200; // a replay plays through in this many ticks, whatever the hunt's length
+const PLAYBACK_TICK = 100; // ms
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+// From the start of the hunt to when it ended, or to the last thing that happened in it
+function replayWindow(replay: HuntReplayData): { start: number; end: number } {
+  const start = Date.parse(replay.hunt.startedAt);
+  const times = [
+    ...replay.track.map(p => Date.parse(p.at)),
+    ...replay.checkpoints.flatMap(cp => cp.collectedAt ? [Date.parse(cp.collectedAt)] : []),
+  ];
+  const end = replay.hunt.completedAt ? Date.parse(replay.hunt.completedAt) : Math.max(start, ...times);
+  return { start, end: Math.max(end, start + 1000) };
+}
+
+function pathLength(path: { lat: number; lng: number }[]): number {
+  let meters = 0;
+  for (let i = 1; i < path.length; i++) {
+    meters += getDistance({ latitude: path[i - 1].lat, longitude: path[i - 1].lng }, { latitude: path[i].lat, longitude: path[i].lng });
+  }
+  return meters;
+}
+
+function ReplayMap({ replay }: { replay: HuntReplayData }) {
+  const { start, end } = useMemo(() => replayWindow(replay), [replay]);
+  const [time, setTime] = useState(end);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!playing) return;
+    const step = (end - start) / PLAYBACK_STEPS;
+    const interval = setInterval(() => {
+      setTime((t) => {
+        if (t + step >= end) {
+          setPlaying(false);
+          return end;
+        }
+        return t + step;
+      });
+    }, PLAYBACK_TICK);
+    return () => clearInterval(interval);
+  }, [playing, start, end]);
+
+  const walked = replay.track.filter(p => Date.parse(p.at) <= time);
+  const here = walked[walked.length - 1];
+  const bounds = [...replay.track, ...replay.checkpoints].map(p => [p.lat, p.lng] as [number, number]);
+  const collectedSoFar = replay.checkpoints.filter(cp => cp.collectedAt && Date.parse(cp.collectedAt) <= time).length;
+
+  const handlePlay = () => {
+    if (time >= end) setTime(start);
+    setPlaying(!playing);
+  };
+
+  return (
+    <>
+      <div className="h-[360px] w-full rounded-2xl overflow-hidden border-2 border-green-200 relative z-0">
+        <MapContainer bounds={bounds} boundsOptions={{ padding: [24, 24] }} style={{ height: "100%", width: "100%", zIndex: 0 }}>
+          <MapTileLayer />
+
+          {/* The whole route faintly, and the part walked by the slider's time on top */}
+          <Polyline positions={replay.track.map(p => [p.lat, p.lng])} pathOptions={{ color: "#16a34a", opacity: 0.25, weight: 4 }} />
+          <Polyline positions={walked.map(p => [p.lat, p.lng])} pathOptions={{ color: "#16a34a", weight: 5 }} />
+
+          {replay.checkpoints.map((cp) => {
+            const collected = cp.collectedAt !== null && Date.parse(cp.collectedAt) <= time;
+            return (
+              <CircleMarker
+                key={cp.id}
+                center={[cp.lat, cp.lng]}
+                radius={9}
+                pathOptions={collected
+                  ? { color: "#b45309", fillColor: "#f59e0b", fillOpacity: 0.9 }
+                  : { color: "#6b7280", fillColor: "#d1d5db", fillOpacity: 0.7 }}
+              >
+                <Tooltip>
+                  {cp.order ? `Stop ${cp.order}: ` : ""}{cp.question}
+                  <br />
+                  {cp.collectedAt ? `Collected at ${formatClock(Date.parse(cp.collectedAt))}` : "Not collected"}
+                </Tooltip>
+              </CircleMarker>
+            );
+          })}
+
+          {here && (
+            <CircleMarker center={[here.lat, here.lng]} radius={7} pathOptions={{ color: "#1d4ed8", fillColor: "#3b82f6", fillOpacity: 1 }} />
+          )}
+        </MapContainer>
+      </div>
+
+      <Card className="p-4 bg-white/90 backdrop-blur-sm space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="icon" onClick={handlePlay} data-testid="button-replay-play">
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Slider
+            min={start}
+            max={end}
+            step={1000}
+            value={[time]}
+            onValueChange={([value]) => {
+              setPlaying(false);
+              setTime(value);
+            }}
+            data-testid="slider-replay-time"
+          />
+        </div>
+        <div className="flex justify-between text-xs font-bold text-gray-600">
+          <span data-testid="text-replay-time">{formatClock(time)}</span>
+          <span className="flex items-center gap-1"><Footprints className="w-3 h-3" />{(pathLength(walked) / 1000).toFixed(2)} km</span>
+          <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{collectedSoFar}/{replay.hunt.totalCheckpoints}</span>
+        </div>
+        {replay.track.length === 0 && (
+          <p className="text-xs text-center text-muted-foreground">No path was recorded for this hunt.</p>
+        )}
+      </Card>
+    </>
+  );
+}
+
+export default function HuntReplay() {
+  const { id } = useParams<{ id: string }>();
+  const replayQuery = useHuntReplay(id);
+  const replay = replayQuery.data;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4 relative overflow-hidden">
+      <LeafBackground />
+      <div className="max-w-md mx-auto space-y-6 relative z-10">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/stats">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold font-display text-green-900">Hunt Replay</h1>
+            {replay && (
+              <p className="text-xs text-green-700">
+                {new Date(replay.hunt.startedAt).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                {" · "}{replay.hunt.score} points{replay.hunt.teamCode && " as a team"}
+              </p>
+            )}
+          </div>
+          {replay && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="icon" title="Export for other mapping tools" data-testid="button-export-hunt">
+                  <Download className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem asChild>
+                  <a href={`${buildUrl(api.game.exportHunt.path, { id })}?format=gpx`} download>GPX</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={`${buildUrl(api.game.exportHunt.path, { id })}?format=geojson`} download>GeoJSON</a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        {replayQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 text-green-600 animate-spin" />
+          </div>
+        ) : replay ? (
+          <ReplayMap replay={replay} />
+        ) : (
+          <Card className="p-6 text-center text-muted-foreground">That hunt couldn't be found.</Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Crown, Flame, Loader2, Target } from "lucide-react";
+import { LeafBackground } from "@/components/layout/LeafBackground";
+import { usePlayer, useUpdatePrivacy } from "@/hooks/use-auth";
+import { useTeacherClasses } from "@/hooks/use-classes";
+import { useZones } from "@/hooks/use-zones";
+import { useLeaderboard, type LeaderboardFilter } from "@/hooks/use-leaderboards";
+import { useToast } from "@/hooks/use-toast";
+import type { LeaderboardEntry, LeaderboardWindow } from "@shared/schema";
+
+// The board filter as a Select value: "everyone", "class:<id>" or "zone:<id>"
+function parseFilter(value: string): LeaderboardFilter {
+  const [kind, id] = value.split(":");
+  if (kind === "class") return { classId: Number(id) };
+  if (kind === "zone") return { zoneId: Number(id) };
+  return {};
+}
+
+function EntryRow({ entry, isYou }: { entry: LeaderboardEntry; isYou: boolean }) {
+  return (
+    <div
+      className={`flex items-center gap-3 rounded-xl px-3 py-2 ${isYou ? "bg-green-100 ring-2 ring-green-300" : ""}`}
+      data-testid={`row-leaderboard-${entry.userId}`}
+    >
+      <span className="w-8 text-center font-black text-green-800">
+        {entry.rank === 1 ? <Crown className="w-5 h-5 mx-auto text-yellow-500" /> : entry.rank}
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="font-bold text-green-900 truncate">{entry.nickname}{isYou && " (you)"}</p>
+        {entry.className && <p className="text-xs text-green-700 truncate">{entry.className}</p>}
+      </div>
+      <div className="flex items-center gap-3 text-xs font-bold text-gray-600">
+        <span className="flex items-center gap-1" title="Hunts completed"><Target className="w-3 h-3" />{entry.huntsCompleted}</span>
+        <span className="flex items-center gap-1" title="Longest streak"><Flame className="w-3 h-3 text-orange-500" />{entry.longestStreak}</span>
+      </div>
+      <span className="w-14 text-right text-lg font-black text-green-900">{entry.points}</span>
+    </div>
+  );
+}
+
+export default function Leaderboard() {
+  const { data: player } = usePlayer();
+  const isTeacher = player?.role === "teacher";
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("weekly");
+  const [filterValue, setFilterValue] = useState("everyone");
+  const leaderboardQuery = useLeaderboard(timeWindow, parseFilter(filterValue));
+  const classesQuery = useTeacherClasses(isTeacher);
+  const zonesQuery = useZones();
+  const privacyMutation = useUpdatePrivacy();
+  const { toast } = useToast();
+
+  const board = leaderboardQuery.data;
+  const youInTop = board?.entries.some(entry => entry.userId === player?.id);
+
+  const handlePrivacyChange = (nicknameOnly: boolean) => {
+    privacyMutation.mutate(nicknameOnly, {
+      onError: (error) => toast({ title: "Couldn't update privacy", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-green-100 p-4 relative overflow-hidden">
+      <LeafBackground />
+      <div className="max-w-md mx-auto space-y-6 relative z-10">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/">
+            <Button variant="ghost" size="icon" data-testid="button-back">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold font-display text-green-900">Leaderboard</h1>
+        </div>
+
+        <Tabs value={timeWindow} onValueChange={(val) => setTimeWindow(val as LeaderboardWindow)}>
+          <TabsList className="grid grid-cols-3 w-full">
+            <TabsTrigger value="daily" data-testid="tab-leaderboard-daily">Today</TabsTrigger>
+            <TabsTrigger value="weekly" data-testid="tab-leaderboard-weekly">This Week</TabsTrigger>
+            <TabsTrigger value="all" data-testid="tab-leaderboard-all">All Time</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Select value={filterValue} onValueChange={setFilterValue}>
+          <SelectTrigger className="bg-white/80" data-testid="select-leaderboard-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="everyone">Everyone</SelectItem>
+            {!isTeacher && player?.classId && (
+              <SelectItem value={`class:${player.classId}`}>My class: {player.className}</SelectItem>
+            )}
+            {classesQuery.data?.map((cls) => (
+              <SelectItem key={cls.id} value={`class:${cls.id}`}>Class: {cls.name}</SelectItem>
+            ))}
+            {zonesQuery.data?.map((zone) => (
+              <SelectItem key={zone.id} value={`zone:${zone.id}`}>Zone: {zone.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Card className="p-3 border-none shadow-xl bg-white/80 backdrop-blur-md space-y-1">
+          {leaderboardQuery.isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-green-600 animate-spin" />
+            </div>
+          ) : board && board.entries.length > 0 ? (
+            <>
+              {board.entries.map((entry) => (
+                <EntryRow key={entry.userId} entry={entry} isYou={entry.userId === player?.id} />
+              ))}
+              {board.you && !youInTop && (
+                <div className="border-t border-green-100 pt-1 mt-1">
+                  <EntryRow entry={board.you} isYou />
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-center text-muted-foreground py-8" data-testid="text-leaderboard-empty">
+              No hunts played here yet. Be the first!
+            </p>
+          )}
+        </Card>
+
+        <p className="text-xs text-green-800/70 text-center">
+          Ranked by points from hunts, then hunts completed, then longest streak.
+        </p>
+
+        <Card className="p-4 border-none shadow-lg bg-white/80 backdrop-blur-md">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="leaderboard-nickname-only">Show only my nickname</Label>
+              <p className="text-xs text-muted-foreground">Hides your class name on every leaderboard</p>
+            </div>
+            <Switch
+              id="leaderboard-nickname-only"
+              checked={player?.leaderboardNicknameOnly ?? false}
+              disabled={privacyMutation.isPending}
+              onCheckedChange={handlePrivacyChange}
+              data-testid="switch-leaderboard-nickname-only"
+            />
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
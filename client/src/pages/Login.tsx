@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Leaf, Loader2 } from "lucide-react";
+import { useLogin, useRegister } from "@/hooks/use-auth";
+import { LeafBackground } from "@/components/layout/LeafBackground";
+
+export default function Login() {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [nickname, setNickname] = useState("");
+  const [pin, setPin] = useState("");
+  const [isTeacher, setIsTeacher] = useState(false);
+  const [teacherCode, setTeacherCode] = useState("");
+  const loginMutation = useLogin();
+  const registerMutation = useRegister();
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "login") {
+      loginMutation.mutate({ nickname, pin });
+    } else {
+      registerMutation.mutate({ nickname, pin, teacherCode: isTeacher ? teacherCode : undefined });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gradient-to-b from-green-50 to-green-100 relative overflow-hidden">
+      <LeafBackground />
+      <div className="max-w-sm w-full space-y-6 relative z-10">
+        <div className="text-center">
+          <h1 className="text-4xl font-black text-green-900 leading-none flex items-center justify-center gap-2">
+            Forest <Leaf className="text-green-600" />
+          </h1>
+          <p className="text-green-700 font-medium">Who's exploring today?</p>
+        </div>
+
+        <Card className="p-6 border-none shadow-xl bg-white/80 backdrop-blur-md">
+          <Tabs value={mode} onValueChange={(val) => setMode(val as "login" | "register")} className="mb-6">
+            <TabsList className="grid grid-cols-2 w-full">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">New Explorer</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="nickname">Nickname</Label>
+              <Input
+                id="nickname"
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value)}
+                autoComplete="username"
+                maxLength={24}
+                data-testid="input-nickname"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pin">PIN (4-6 digits)</Label>
+              <Input
+                id="pin"
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                maxLength={6}
+                data-testid="input-pin"
+              />
+            </div>
+
+            {mode === "register" && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="teacher">I'm a teacher</Label>
+                <Switch id="teacher" checked={isTeacher} onCheckedChange={setIsTeacher} data-testid="switch-teacher" />
+              </div>
+            )}
+
+            {mode === "register" && isTeacher && (
+              <div className="space-y-2">
+                <Label htmlFor="teacher-code">Teacher code</Label>
+                <Input
+                  id="teacher-code"
+                  type="password"
+                  value={teacherCode}
+                  onChange={(e) => setTeacherCode(e.target.value)}
+                  autoComplete="off"
+                  maxLength={100}
+                  data-testid="input-teacher-code"
+                />
+              </div>
+            )}
+
+            {mutation.error && (
+              <p className="text-sm font-bold text-red-600 text-center" data-testid="text-auth-error">
+                {mutation.error.message}
+              </p>
+            )}
+
+            <Button
+              type="submit"
+              disabled={mutation.isPending || !nickname || pin.length < 4 || (mode === "register" && isTeacher && !teacherCode.trim())}
+              className="w-full h-12 text-lg font-bold bg-green-600 hover:bg-green-700"
+              data-testid="button-auth-submit"
+            >
+              {mutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {mode === "login" ? "Let's Go!" : "Create Explorer"}
+            </Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Download, Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Link } from "wouter";
+import { LeafBackground } from "@/components/layout/LeafBackground";
+import { QuestionForm } from "@/components/QuestionForm";
+import { QuestionImportDialog } from "@/components/QuestionImportDialog";
+import { PackManagerDialog } from "@/components/PackManagerDialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuestions, useCreateQuestion, useUpdateQuestion, useDeleteQuestion } from "@/hooks/use-questions";
+import { usePacks } from "@/hooks/use-packs";
+import { usePlayer } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Question, QuestionInput } from "@shared/schema";
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  easy: "bg-green-100 text-green-700",
+  medium: "bg-yellow-100 text-yellow-700",
+  hard: "bg-red-100 text-red-700",
+};
+
+export default function Questions() {
+  const { data: player } = usePlayer();
+  const isTeacher = player?.role === "teacher";
+  const questionsQuery = useQuestions(isTeacher);
+  const createMutation = useCreateQuestion();
+  const updateMutation = useUpdateQuestion();
+  const deleteMutation = useDeleteQuestion();
+  const { toast } = useToast();
+  const packsQuery = usePacks();
+  const [search, setSearch] = useState("");
+  // "all", "none" or a pack id
+  const [packFilter, setPackFilter] = useState("all");
+  // undefined: dialog closed, null: new question
+  const [editing, setEditing] = useState<Question | null | undefined>(undefined);
+
+  const packNames = new Map(packsQuery.data?.map((p) => [p.id, p.name]));
+  const filtered = questionsQuery.data?.filter((q) =>
+    q.question.toLowerCase().includes(search.toLowerCase()) &&
+    (packFilter === "all" || (packFilter === "none" ? q.packId === null : q.packId === Number(packFilter)))
+  ) ?? [];
+
+  const handleSave = (data: QuestionInput) => {
+    const onSuccess = () => {
+      toast({ title: "Question saved" });
+      setEditing(undefined);
+    };
+    const onError = (error: Error) => {
+      toast({ title: "Couldn't save question", description: error.message, variant: "destructive" });
+    };
+
+    if (editing) {
+      updateMutation.mutate({ id: editing.id, data }, { onSuccess, onError });
+    } else {
+      createMutation.mutate(data, { onSuccess, onError });
+    }
+  };
+
+  const handleDelete = (question: Question) => {
+    if (!confirm(`Delete "${question.question}"?`)) return;
+    deleteMutation.mutate(question.id, {
+      onSuccess: () => toast({ title: "Question deleted" }),
+      onError: (error) => toast({ title: "Couldn't delete question", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-purple-50 to-blue-50 p-4 relative overflow-hidden">
+      <LeafBackground />
+      <div className="max-w-2xl mx-auto space-y-6 relative z-10">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4">
+            <Link href="/settings">
+              <Button variant="ghost" size="icon" data-testid="button-back">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold font-display">Question Bank</h1>
+          </div>
+          <div className="flex gap-2">
+            {isTeacher && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" data-testid="button-export-questions">
+                    <Download className="w-4 h-4 mr-1" /> Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/questions/export?format=json" download>JSON</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/questions/export?format=csv" download>CSV</a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {isTeacher && <PackManagerDialog />}
+            {isTeacher && <QuestionImportDialog />}
+            {isTeacher && (
+              <Button onClick={() => setEditing(null)} data-testid="button-new-question">
+                <Plus className="w-4 h-4 mr-1" /> New
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search questions"
+              className="pl-9 bg-white"
+              data-testid="input-search-questions"
+            />
+          </div>
+          <Select value={packFilter} onValueChange={setPackFilter}>
+            <SelectTrigger className="w-40 bg-white" data-testid="select-pack-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All packs</SelectItem>
+              <SelectItem value="none">No pack</SelectItem>
+              {packsQuery.data?.map((pack) => (
+                <SelectItem key={pack.id} value={String(pack.id)}>{pack.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {questionsQuery.isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map((q) => (
+              <Card key={q.id} className="p-4 bg-white/90 backdrop-blur-sm" data-testid={`card-question-${q.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2">
+                    <p className="font-medium">{q.question}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Answer: <span className="font-bold text-green-700">{q.answer}</span>
+                    </p>
+                    <div className="flex gap-2">
+                      <Badge variant="outline" className={DIFFICULTY_STYLES[q.difficulty]}>{q.difficulty}</Badge>
+                      <Badge variant="outline">{q.points} pts</Badge>
+                      {q.packId !== null && packNames.has(q.packId) && (
+                        <Badge variant="secondary">{packNames.get(q.packId)}</Badge>
+                      )}
+                    </div>
+                  </div>
+                  {isTeacher && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(q)} data-testid={`button-edit-question-${q.id}`}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => handleDelete(q)}
+                        data-testid={`button-delete-question-${q.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            ))}
+            {filtered.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                {isTeacher ? "No questions found." : "The question bank is for teachers."}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Question" : "New Question"}</DialogTitle>
+          </DialogHeader>
+          <QuestionForm
+            key={editing?.id ?? "new"}
+            question={editing ?? undefined}
+            isSaving={createMutation.isPending || updateMutation.isPending}
+            onSubmit={handleSave}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,30 +2,65 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useGeolocation } from "@/hooks/use-geolocation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Clock, MapPin, Plus, Loader2, Target, Move, Sparkles, Map as MapIcon } from "lucide-react";
+import { ArrowLeft, Clock, MapPin, Plus, Loader2, Target, Move, Sparkles, Map as MapIcon, Crosshair, BookOpen, Layers, TrendingUp, Trash2, Fence, Route, Trees, Snowflake, Download } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Question } from "@shared/schema";
+import type { CustomCheckpoint, Difficulty, GameSettings, Question, QuestionMode, RovingMovementMode } from "@shared/schema";
+import type { UpdateSettingsRequest } from "@shared/routes";
+import { usePlayer } from "@/hooks/use-auth";
+import { useTeacherClasses } from "@/hooks/use-classes";
+import { usePacks } from "@/hooks/use-packs";
+import { useUpdateCheckpoint, useDeleteCheckpoint } from "@/hooks/use-checkpoints";
 
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+// Adds or removes one value from a multi-select list
+function toggle<T>(list: T[], value: T, checked: boolean): T[] {
+  return checked ? [...list, value] : list.filter(v => v !== value);
+}
+
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { MapSelector } from "@/components/MapSelector";
+import { CheckpointImportDialog } from "@/components/CheckpointImportDialog";
+import { PlayAreaEditor } from "@/components/PlayAreaEditor";
+import { ZoneManager } from "@/components/ZoneManager";
 import { LeafBackground } from "@/components/layout/LeafBackground";
 
 export default function Settings() {
   const { lat: geoLat, lng: geoLng } = useGeolocation();
   const { toast } = useToast();
+  const { data: player } = usePlayer();
+  const isTeacher = player?.role === "teacher";
+  const classesQuery = useTeacherClasses(isTeacher);
+  // Teachers can edit the default rules or those of one of their classes
+  const [scopeClassId, setScopeClassId] = useState<number | null>(null);
+  // Students play by their teacher's rules, or the defaults without a class
+  const isReadOnly = !isTeacher;
   
   const [timeLimit, setTimeLimit] = useState(30);
   const [checkpointCount, setCheckpointCount] = useState(5);
   const [rovingCount, setRovingCount] = useState(2);
+  const [rovingMovement, setRovingMovement] = useState<RovingMovementMode>("mixed");
+  const [rovingFlee, setRovingFlee] = useState(false);
   const [radius, setRadius] = useState(500);
   const [mapTheme, setMapTheme] = useState("standard");
   const [zenMode, setZenMode] = useState(false);
+  const [captureRadius, setCaptureRadius] = useState(20);
+  const [questionMode, setQuestionMode] = useState<QuestionMode>("random");
+  // Empty lists mean every pack / every difficulty
+  const [packIds, setPackIds] = useState<number[]>([]);
+  const [difficulties, setDifficulties] = useState<Difficulty[]>([]);
+  const [huntsPerFreeze, setHuntsPerFreeze] = useState(1);
+  const [maxFreezes, setMaxFreezes] = useState(5);
   const [selectedQuestionId, setSelectedQuestionId] = useState<string>("");
   const [customLat, setCustomLat] = useState<number | null>(null);
   const [customLng, setCustomLng] = useState<number | null>(null);
@@ -37,20 +72,28 @@ export default function Settings() {
     }
   }, [geoLat, geoLng]);
 
-  const settingsQuery = useQuery<{ timeLimit: number; checkpointCount: number; rovingCount: number; radius: number }>({
-    queryKey: ["/api/settings"],
+  const settingsQuery = useQuery<GameSettings>({
+    queryKey: ["/api/settings", { classId: scopeClassId }],
+    queryFn: async () => {
+      const url = scopeClassId ? `/api/settings?classId=${scopeClassId}` : "/api/settings";
+      const res = await apiRequest("GET", url);
+      return res.json();
+    },
   });
 
   const questionsQuery = useQuery<Question[]>({
     queryKey: ["/api/questions"],
+    enabled: isTeacher,
   });
 
-  const checkpointsQuery = useQuery<any[]>({
+  const packsQuery = usePacks();
+
+  const checkpointsQuery = useQuery<(CustomCheckpoint & { question: Question; isCustom: boolean })[]>({
     queryKey: ["/api/checkpoints/all"],
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: async (data: { timeLimit: number; checkpointCount: number; rovingCount: number; radius: number }) => {
+    mutationFn: async (data: UpdateSettingsRequest) => {
       return apiRequest("POST", "/api/settings", data);
     },
     onSuccess: () => {
@@ -60,15 +103,8 @@ export default function Settings() {
     },
   });
 
-  const moveCheckpointMutation = useMutation({
-    mutationFn: async ({ id, lat, lng }: { id: number; lat: number; lng: number }) => {
-      return apiRequest("PATCH", `/api/checkpoints/${id}`, { lat, lng });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/checkpoints/all"] });
-      toast({ title: "Checkpoint moved", description: "The checkpoint location has been updated." });
-    },
-  });
+  const updateCheckpointMutation = useUpdateCheckpoint();
+  const deleteCheckpointMutation = useDeleteCheckpoint();
 
   const addCheckpointMutation = useMutation({
     mutationFn: async (data: { lat: number; lng: number; questionId: number }) => {
@@ -79,6 +115,9 @@ export default function Settings() {
       toast({ title: "Checkpoint added", description: "Custom checkpoint created at selected location." });
       setSelectedQuestionId("");
     },
+    onError: () => {
+      toast({ title: "Couldn't add checkpoint", description: "Please try again.", variant: "destructive" });
+    },
   });
 
   useEffect(() => {
@@ -86,14 +125,47 @@ export default function Settings() {
       setTimeLimit(settingsQuery.data.timeLimit);
       setCheckpointCount(settingsQuery.data.checkpointCount ?? 5);
       setRovingCount(settingsQuery.data.rovingCount ?? 2);
+      setRovingMovement(settingsQuery.data.rovingMovement ?? "mixed");
+      setRovingFlee(settingsQuery.data.rovingFlee ?? false);
       setRadius(settingsQuery.data.radius ?? 500);
-      setMapTheme((settingsQuery.data as any).mapTheme ?? "standard");
-      setZenMode((settingsQuery.data as any).zenMode ?? false);
+      setMapTheme(settingsQuery.data.mapTheme ?? "standard");
+      setZenMode(settingsQuery.data.zenMode ?? false);
+      setCaptureRadius(settingsQuery.data.captureRadius ?? 20);
+      setQuestionMode(settingsQuery.data.questionMode ?? "random");
+      setPackIds(settingsQuery.data.packIds ?? []);
+      setDifficulties(settingsQuery.data.difficulties ?? []);
+      setHuntsPerFreeze(settingsQuery.data.huntsPerFreeze ?? 1);
+      setMaxFreezes(settingsQuery.data.maxFreezes ?? 5);
     }
   }, [settingsQuery.data]);
 
   const handleSaveSettings = () => {
-    updateSettingsMutation.mutate({ timeLimit, checkpointCount, rovingCount, radius, mapTheme, zenMode } as any);
+    updateSettingsMutation.mutate({ timeLimit, checkpointCount, rovingCount, rovingMovement, rovingFlee, radius, mapTheme, zenMode, captureRadius, questionMode, packIds, difficulties, huntsPerFreeze, maxFreezes, classId: scopeClassId });
+  };
+
+  const handleMoveCheckpoint = (id: number, lat: number, lng: number, revert: () => void) => {
+    updateCheckpointMutation.mutate({ id, data: { lat, lng } }, {
+      onSuccess: () => toast({ title: "Checkpoint moved", description: "The checkpoint location has been updated." }),
+      onError: (error) => {
+        revert();
+        toast({ title: "Couldn't move checkpoint", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  const handleChangeCheckpointQuestion = (id: number, questionId: number) => {
+    updateCheckpointMutation.mutate({ id, data: { questionId } }, {
+      onSuccess: () => toast({ title: "Question changed", description: "The checkpoint will ask the new question." }),
+      onError: (error) => toast({ title: "Couldn't change question", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleDeleteCheckpoint = (id: number) => {
+    if (!confirm("Delete this checkpoint?")) return;
+    deleteCheckpointMutation.mutate(id, {
+      onSuccess: () => toast({ title: "Checkpoint deleted" }),
+      onError: (error) => toast({ title: "Couldn't delete checkpoint", description: error.message, variant: "destructive" }),
+    });
   };
 
   const handleAddCheckpoint = () => {
@@ -123,6 +195,22 @@ export default function Settings() {
             </Button>
           </Link>
           <h1 className="text-2xl font-bold font-display">Settings</h1>
+          {isTeacher && (
+            <div className="ml-auto flex gap-2">
+              <Link href="/trails">
+                <Button variant="outline" size="sm" data-testid="button-trails">
+                  <Route className="w-4 h-4 mr-2" />
+                  Trails
+                </Button>
+              </Link>
+              <Link href="/questions">
+                <Button variant="outline" size="sm" data-testid="button-question-bank">
+                  <BookOpen className="w-4 h-4 mr-2" />
+                  Question Bank
+                </Button>
+              </Link>
+            </div>
+          )}
         </div>
 
         <Card className="p-6 space-y-6 bg-white dark:bg-card relative z-10">
@@ -133,6 +221,32 @@ export default function Settings() {
             <h2 className="text-lg font-bold">Game Rules</h2>
           </div>
 
+          {isTeacher && !!classesQuery.data?.length && (
+            <div className="space-y-2">
+              <Label>Rules for</Label>
+              <Select
+                value={scopeClassId === null ? "default" : String(scopeClassId)}
+                onValueChange={(val) => setScopeClassId(val === "default" ? null : Number(val))}
+              >
+                <SelectTrigger data-testid="select-settings-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Everyone (default)</SelectItem>
+                  {classesQuery.data.map((cls) => (
+                    <SelectItem key={cls.id} value={String(cls.id)}>{cls.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {isReadOnly && (
+            <p className="text-sm text-muted-foreground bg-green-50 rounded-lg p-3" data-testid="text-class-rules">
+              {player?.className ? `Your teacher sets the rules for ${player.className}.` : "Only teachers can change the game rules."}
+            </p>
+          )}
+
           <div className="space-y-4">
             <div className="space-y-2">
               <div className="flex justify-between items-center">
@@ -182,6 +296,24 @@ export default function Settings() {
               />
             </div>
 
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label className="flex items-center gap-2">
+                  <Crosshair className="w-4 h-4" />
+                  Capture Radius: {captureRadius}m
+                </Label>
+              </div>
+              <Slider
+                value={[captureRadius]}
+                min={5}
+                max={100}
+                step={5}
+                onValueChange={(val) => setCaptureRadius(val[0])}
+                data-testid="slider-capture-radius"
+              />
+              <p className="text-xs text-muted-foreground">How close players must be to answer a checkpoint</p>
+            </div>
+
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <Label className="flex items-center gap-2">
@@ -197,6 +329,108 @@ export default function Settings() {
                 onValueChange={(val) => setRovingCount(val[0])}
                 data-testid="slider-roving-count"
               />
+              <Select value={rovingMovement} onValueChange={(val) => setRovingMovement(val as RovingMovementMode)}>
+                <SelectTrigger data-testid="select-roving-movement">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mixed">Mix of patrols and wanderers</SelectItem>
+                  <SelectItem value="patrol">Patrol a loop near their spawn</SelectItem>
+                  <SelectItem value="wander">Wander the whole hunt area</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="switch-roving-flee">Flee from players</Label>
+                  <p className="text-xs text-muted-foreground">Dash away up to three times when someone gets close</p>
+                </div>
+                <Switch id="switch-roving-flee" checked={rovingFlee} onCheckedChange={setRovingFlee} data-testid="switch-roving-flee" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Snowflake className="w-4 h-4 text-cyan-500" />
+                Streak Freezes
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="input-hunts-per-freeze" className="text-xs">Hunts per freeze</Label>
+                  <Input id="input-hunts-per-freeze" type="number" min={0} value={huntsPerFreeze} onChange={(e) => setHuntsPerFreeze(Math.max(0, Number(e.target.value)))} data-testid="input-hunts-per-freeze" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="input-max-freezes" className="text-xs">Most saved up</Label>
+                  <Input id="input-max-freezes" type="number" min={0} value={maxFreezes} onChange={(e) => setMaxFreezes(Math.max(0, Number(e.target.value)))} data-testid="input-max-freezes" />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {huntsPerFreeze === 0 ? "Players don't earn streak freezes." : `Players earn a freeze every ${huntsPerFreeze === 1 ? "hunt" : `${huntsPerFreeze} hunts`}, up to ${maxFreezes}. Each one covers a missed day.`}
+              </p>
+            </div>
+
+            <div className="pt-4 border-t border-purple-100 space-y-3">
+              <Label className="text-base font-bold flex items-center gap-2">
+                <Layers className="w-4 h-4 text-green-600" />
+                Question Packs
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {packIds.length === 0 ? "Hunts draw from every pack." : "Hunts only draw from the ticked packs."}
+              </p>
+              {packsQuery.data?.map((pack) => (
+                <div key={pack.id} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`pack-${pack.id}`}
+                    checked={packIds.includes(pack.id)}
+                    onCheckedChange={(checked) => setPackIds(prev => toggle(prev, pack.id, checked === true))}
+                    data-testid={`checkbox-pack-${pack.id}`}
+                  />
+                  <label htmlFor={`pack-${pack.id}`} className="space-y-1 text-sm leading-none">
+                    <span className="font-medium">{pack.name}</span>
+                    <span className="text-muted-foreground"> ({pack.questionCount})</span>
+                    {pack.tags.length > 0 && (
+                      <span className="flex flex-wrap gap-1 pt-1">
+                        {pack.tags.map((tag) => <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>)}
+                      </span>
+                    )}
+                  </label>
+                </div>
+              ))}
+              {packsQuery.data?.length === 0 && (
+                <p className="text-xs text-muted-foreground">No packs yet. Teachers can create them in the Question Bank.</p>
+              )}
+
+              <Label className="block pt-2">Difficulties</Label>
+              <div className="flex gap-4">
+                {DIFFICULTIES.map((level) => (
+                  <div key={level} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`difficulty-${level}`}
+                      checked={difficulties.includes(level)}
+                      onCheckedChange={(checked) => setDifficulties(prev => toggle(prev, level, checked === true))}
+                      data-testid={`checkbox-difficulty-${level}`}
+                    />
+                    <label htmlFor={`difficulty-${level}`} className="text-sm capitalize">{level}</label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave all unticked to mix every difficulty.</p>
+
+              <div className="flex items-center justify-between pt-2">
+                <div className="space-y-0.5">
+                  <Label className="flex items-center gap-2">
+                    <TrendingUp className="w-4 h-4 text-green-600" />
+                    Adaptive Questions
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Harder questions after a run of right answers, missed topics again later, fewer repeats
+                  </p>
+                </div>
+                <Switch
+                  checked={questionMode === "adaptive"}
+                  onCheckedChange={(checked) => setQuestionMode(checked ? "adaptive" : "random")}
+                  data-testid="switch-adaptive-questions"
+                />
+              </div>
             </div>
 
             <div className="pt-4 border-t border-purple-100 space-y-4 relative z-40">
@@ -237,7 +471,7 @@ export default function Settings() {
 
           <Button
             onClick={handleSaveSettings}
-            disabled={updateSettingsMutation.isPending}
+            disabled={updateSettingsMutation.isPending || isReadOnly}
             className="w-full h-12 text-lg font-bold"
             data-testid="button-save-settings"
           >
@@ -248,70 +482,171 @@ export default function Settings() {
           </Button>
         </Card>
 
-        <Card className="p-6 space-y-4 bg-white dark:bg-card relative z-10">
-          <div className="flex items-center gap-3 mb-2">
-            <div className="p-2 bg-accent/10 rounded-lg">
-              <MapPin className="w-5 h-5 text-accent" />
+        {isTeacher && (
+          <Card className="p-6 space-y-4 bg-white dark:bg-card relative z-10">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-accent/10 rounded-lg">
+                <MapPin className="w-5 h-5 text-accent" />
+              </div>
+              <h2 className="text-lg font-bold">Manage Checkpoints</h2>
             </div>
-            <h2 className="text-lg font-bold">Manage Checkpoints</h2>
-          </div>
 
-          <p className="text-sm text-muted-foreground">
-            Drag markers to move checkpoints or click the map to set a new custom one.
-          </p>
-
-          {(customLat && customLng) ? (
-            <MapSelector 
-              lat={customLat} 
-              lng={customLng} 
-              onLocationSelect={(lat, lng) => {
-                setCustomLat(lat);
-                setCustomLng(lng);
-              }}
-              onCheckpointMove={(id, lat, lng) => {
-                moveCheckpointMutation.mutate({ id, lat, lng });
-              }}
-              radius={radius}
-              existingCheckpoints={checkpointsQuery.data}
-              playerLocation={geoLat && geoLng ? { lat: geoLat, lng: geoLng } : undefined}
-            />
-          ) : (
-            <div className="h-[300px] bg-muted flex items-center justify-center rounded-lg">
-              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            <p className="text-sm text-muted-foreground">
+              Drag markers to move checkpoints or click the map to set a new custom one. Change or remove them in the list below.
+            </p>
+
+            {(customLat && customLng) ? (
+              <MapSelector 
+                lat={customLat} 
+                lng={customLng} 
+                onLocationSelect={(lat, lng) => {
+                  setCustomLat(lat);
+                  setCustomLng(lng);
+                }}
+                onCheckpointMove={handleMoveCheckpoint}
+                radius={radius}
+                existingCheckpoints={checkpointsQuery.data}
+                playerLocation={geoLat && geoLng ? { lat: geoLat, lng: geoLng } : undefined}
+              />
+            ) : (
+              <div className="h-[300px] bg-muted flex items-center justify-center rounded-lg">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Select Question</Label>
+              <Select value={selectedQuestionId} onValueChange={setSelectedQuestionId}>
+                <SelectTrigger data-testid="select-question">
+                  <SelectValue placeholder="Choose a question..." />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px] overflow-y-auto">
+                  {questionsQuery.data?.map((q) => (
+                    <SelectItem key={q.id} value={String(q.id)}>
+                      {q.question}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          )}
 
-          <div className="space-y-2">
-            <Label>Select Question</Label>
-            <Select value={selectedQuestionId} onValueChange={setSelectedQuestionId}>
-              <SelectTrigger data-testid="select-question">
-                <SelectValue placeholder="Choose a question..." />
-              </SelectTrigger>
-              <SelectContent className="max-h-[300px] overflow-y-auto">
-                {questionsQuery.data?.map((q) => (
-                  <SelectItem key={q.id} value={String(q.id)}>
-                    {q.question}
-                  </SelectItem>
+            <Button
+              onClick={handleAddCheckpoint}
+              disabled={addCheckpointMutation.isPending || !customLat || !customLng}
+              variant="secondary"
+              className="w-full"
+              data-testid="button-add-checkpoint"
+            >
+              {addCheckpointMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <Plus className="w-4 h-4 mr-2" />
+              )}
+              Add Checkpoint at Selection
+            </Button>
+
+            <CheckpointImportDialog />
+
+            {!!checkpointsQuery.data?.length && (
+              <div className="space-y-2 pt-4 border-t border-purple-100">
+                <div className="flex items-center justify-between">
+                  <Label>Custom Checkpoints</Label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" data-testid="button-export-checkpoints">
+                        <Download className="w-4 h-4 mr-1" /> Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent>
+                      <DropdownMenuItem asChild>
+                        <a href="/api/checkpoints/export?format=gpx" download>GPX</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href="/api/checkpoints/export?format=geojson" download>GeoJSON</a>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                {checkpointsQuery.data.map((cp) => (
+                  <div key={cp.id} className="flex items-center gap-2" data-testid={`row-checkpoint-${cp.id}`}>
+                    <span className="text-xs text-muted-foreground w-8 shrink-0">#{cp.id}</span>
+                    <Select
+                      value={String(cp.questionId)}
+                      onValueChange={(val) => handleChangeCheckpointQuestion(cp.id, Number(val))}
+                      disabled={updateCheckpointMutation.isPending}
+                    >
+                      <SelectTrigger className="flex-1 min-w-0" data-testid={`select-checkpoint-question-${cp.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-[300px] overflow-y-auto">
+                        {questionsQuery.data?.map((q) => (
+                          <SelectItem key={q.id} value={String(q.id)}>
+                            {q.question}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={deleteCheckpointMutation.isPending}
+                      onClick={() => handleDeleteCheckpoint(cp.id)}
+                      data-testid={`button-delete-checkpoint-${cp.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
                 ))}
-              </SelectContent>
-            </Select>
-          </div>
+              </div>
+            )}
+          </Card>
+        )}
 
-          <Button
-            onClick={handleAddCheckpoint}
-            disabled={addCheckpointMutation.isPending || !customLat || !customLng}
-            variant="secondary"
-            className="w-full"
-            data-testid="button-add-checkpoint"
-          >
-            {addCheckpointMutation.isPending ? (
-              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+        {isTeacher && (
+          <Card className="p-6 space-y-4 bg-white dark:bg-card relative z-10">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-green-100 rounded-lg">
+                <Fence className="w-5 h-5 text-green-700" />
+              </div>
+              <h2 className="text-lg font-bold">Playable Areas</h2>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Checkpoints only spawn inside playable areas (anywhere, if there are none) and never inside off-limits ones such as ponds or roads.
+            </p>
+
+            {(customLat && customLng) ? (
+              <PlayAreaEditor lat={customLat} lng={customLng} radius={radius} theme={mapTheme} />
             ) : (
-              <Plus className="w-4 h-4 mr-2" />
+              <div className="h-[300px] bg-muted flex items-center justify-center rounded-lg">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
             )}
-            Add Checkpoint at Selection
-          </Button>
-        </Card>
+          </Card>
+        )}
+
+        {isTeacher && (
+          <Card className="p-6 space-y-4 bg-white dark:bg-card relative z-10">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-emerald-100 rounded-lg">
+                <Trees className="w-5 h-5 text-emerald-700" />
+              </div>
+              <h2 className="text-lg font-bold">Hunt Zones</h2>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Named places to play, each with its own area, time limit and checkpoint counts. Players near a zone can start a hunt in it from the menu.
+            </p>
+
+            {(customLat && customLng) ? (
+              <ZoneManager lat={customLat} lng={customLng} />
+            ) : (
+              <div className="h-24 bg-muted flex items-center justify-center rounded-lg">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            )}
+          </Card>
+        )}
       </div>
     </div>
   );
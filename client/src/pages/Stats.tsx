@@ -2,9 +2,11 @@ import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Calendar } from "@/components/ui/calendar";
-import { ArrowLeft, Flame, Trophy, Target, Snowflake, TrendingUp } from "lucide-react";
+import { ArrowLeft, ChevronRight, Flame, History, Trophy, Target, Snowflake, TrendingUp, Users } from "lucide-react";
 import { Link } from "wouter";
 import { LeafBackground } from "@/components/layout/LeafBackground";
+import { AchievementShelf } from "@/components/AchievementShelf";
+import { useHuntHistory } from "@/hooks/use-game";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid } from "recharts";
 import type { UserStats } from "@shared/schema";
@@ -14,11 +16,15 @@ export default function Stats() {
     queryKey: ["/api/stats"],
   });
 
+  const historyQuery = useHuntHistory();
+
   const stats = statsQuery.data;
-  const activityDates = stats?.activityDates?.map((d) => new Date(d)) || [];
+  // Stored dates are the player's own calendar days, so read them as local midnight
+  const activityDates = stats?.activityDates?.map(toLocalDay) || [];
+  const frozenDates = stats?.frozenDates?.map(toLocalDay) || [];
   
   const chartData = stats?.pointsHistory?.slice(-14).map((h) => ({
-    date: new Date(h.date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+    date: toLocalDay(h.date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
     points: h.points,
   })) || [];
 
@@ -111,6 +117,8 @@ export default function Stats() {
           </Card>
         </div>
 
+        <AchievementShelf />
+
         {chartData.length > 0 && (
           <Card className="p-4 bg-white/90 backdrop-blur-sm">
             <h3 className="text-sm font-bold text-gray-700 mb-4 flex items-center gap-2">
@@ -153,18 +161,55 @@ export default function Stats() {
               className="rounded-md"
               modifiers={{
                 activity: activityDates,
+                frozen: frozenDates,
               }}
               modifiersClassNames={{
                 activity: "bg-green-500 text-white hover:bg-green-600",
+                frozen: "bg-cyan-200 text-cyan-800",
               }}
               disabled
             />
           </div>
           <p className="text-xs text-gray-500 text-center mt-2">
-            Green days show when you completed quests
+            Green days show when you completed quests; blue days were saved by a streak freeze
           </p>
         </Card>
+
+        {historyQuery.data && historyQuery.data.length > 0 && (
+          <Card className="p-4 bg-white/90 backdrop-blur-sm">
+            <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
+              <History className="w-4 h-4 text-green-600" />
+              Past Hunts
+            </h3>
+            <div className="divide-y">
+              {historyQuery.data.map((hunt) => (
+                <Link key={hunt.id} href={`/hunts/${hunt.id}`}>
+                  <button type="button" className="w-full flex items-center gap-3 py-2 text-left hover:bg-green-50 rounded-lg px-1" data-testid={`button-hunt-${hunt.id}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold text-gray-800 flex items-center gap-1">
+                        {new Date(hunt.startedAt).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                        {hunt.teamCode && <Users className="w-3 h-3 text-blue-500" />}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {hunt.huntType === "trail" ? "Trail" : "Hunt"} · {hunt.collected}/{hunt.totalCheckpoints} checkpoints
+                        {!hunt.completedAt && " · unfinished"}
+                      </p>
+                    </div>
+                    <span className="font-black text-green-700">{hunt.score}</span>
+                    <ChevronRight className="w-4 h-4 text-gray-400" />
+                  </button>
+                </Link>
+              ))}
+            </div>
+          </Card>
+        )}
       </div>
     </div>
   );
 }
+
+// "2026-10-18" as midnight where the player is, not in UTC
+function toLocalDay(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { LeafBackground } from "@/components/layout/LeafBackground";
+import { TrailEditor } from "@/components/TrailEditor";
+import { useTrails, useCreateTrail, useUpdateTrail, useDeleteTrail } from "@/hooks/use-trails";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { usePlayer } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Trail, TrailInput } from "@shared/schema";
+
+export default function Trails() {
+  const { data: player } = usePlayer();
+  const isTeacher = player?.role === "teacher";
+  const { lat, lng } = useGeolocation();
+  const trailsQuery = useTrails();
+  const createMutation = useCreateTrail();
+  const updateMutation = useUpdateTrail();
+  const deleteMutation = useDeleteTrail();
+  const { toast } = useToast();
+  // undefined: dialog closed, null: new trail
+  const [editing, setEditing] = useState<Trail | null | undefined>(undefined);
+
+  const handleSave = (data: TrailInput) => {
+    const onSuccess = () => {
+      toast({ title: "Trail saved" });
+      setEditing(undefined);
+    };
+    const onError = (error: Error) => {
+      toast({ title: "Couldn't save trail", description: error.message, variant: "destructive" });
+    };
+
+    if (editing) {
+      updateMutation.mutate({ id: editing.id, data }, { onSuccess, onError });
+    } else {
+      createMutation.mutate(data, { onSuccess, onError });
+    }
+  };
+
+  const handleDelete = (trail: Trail) => {
+    if (!confirm(`Delete "${trail.name}"?`)) return;
+    deleteMutation.mutate(trail.id, {
+      onSuccess: () => toast({ title: "Trail deleted" }),
+      onError: (error) => toast({ title: "Couldn't delete trail", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-purple-50 to-blue-50 p-4 relative overflow-hidden">
+      <LeafBackground />
+      <div className="max-w-2xl mx-auto space-y-6 relative z-10">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4">
+            <Link href="/settings">
+              <Button variant="ghost" size="icon" data-testid="button-back">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold font-display">Trails</h1>
+          </div>
+          {isTeacher && (
+            <Button onClick={() => setEditing(null)} data-testid="button-new-trail">
+              <Plus className="w-4 h-4 mr-1" /> New
+            </Button>
+          )}
+        </div>
+
+        {trailsQuery.isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {trailsQuery.data?.map((trail) => (
+              <Card key={trail.id} className="p-4 bg-white/90 backdrop-blur-sm" data-testid={`card-trail-${trail.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2">
+                    <p className="font-medium">{trail.name}</p>
+                    {trail.description && <p className="text-sm text-muted-foreground">{trail.description}</p>}
+                    <Badge variant="outline">{trail.stops.length} stops</Badge>
+                  </div>
+                  {isTeacher && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => setEditing(trail)} data-testid={`button-edit-trail-${trail.id}`}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => handleDelete(trail)}
+                        data-testid={`button-delete-trail-${trail.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            ))}
+            {trailsQuery.data?.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">No trails yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Trail" : "New Trail"}</DialogTitle>
+          </DialogHeader>
+          <TrailEditor
+            key={editing?.id ?? "new"}
+            trail={editing ?? undefined}
+            startLat={lat}
+            startLng={lng}
+            isSaving={createMutation.isPending || updateMutation.isPending}
+            onSubmit={handleSave}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { db } from "../server/db";
+import { pointsLedger, userStats } from "../shared/schema";
+import { and, eq, gt } from "drizzle-orm";
+
+// Usage:
+//   tsx scripts/backfill-points-ledger.ts [--dry-run]
+//
+// Moves the points players earned before the ledger existed into it, once db:push has
+// created the points_ledger table. Each day still in a player's old 30-day history
+// becomes its own carried_over entry so the Stats chart keeps its shape; whatever is
+// left of their old total goes in as one entry the day before. Players who already
+// have carried_over entries are skipped, so running it twice is safe.
+
+function dayBefore(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) - 86400000).toISOString().split("T")[0];
+}
+
+async function run() {
+  try {
+    const dryRun = process.argv.includes("--dry-run");
+    const today = new Date().toISOString().split("T")[0];
+    const rows = await db.select().from(userStats).where(gt(userStats.totalPoints, 0));
+    let players = 0;
+    let points = 0;
+
+    for (const stats of rows) {
+      const [existing] = await db.select({ id: pointsLedger.id }).from(pointsLedger)
+        .where(and(eq(pointsLedger.userId, stats.userId), eq(pointsLedger.source, "carried_over")))
+        .limit(1);
+      if (existing) continue;
+
+      const history = stats.pointsHistory.filter(h => h.points !== 0);
+      const entries = history.map(h => ({ userId: stats.userId, amount: h.points, source: "carried_over" as const, day: h.date }));
+      const remainder = stats.totalPoints - history.reduce((sum, h) => sum + h.points, 0);
+      if (remainder !== 0) {
+        const earliest = history.map(h => h.date).sort()[0];
+        entries.unshift({
+          userId: stats.userId,
+          amount: remainder,
+          source: "carried_over",
+          day: earliest ? dayBefore(earliest) : stats.lastActivityDate ?? today,
+        });
+      }
+
+      if (!dryRun && entries.length > 0) {
+        await db.insert(pointsLedger).values(entries);
+      }
+      players++;
+      points += stats.totalPoints;
+    }
+
+    console.log(`${dryRun ? "Dry run: would carry over" : "Carried over"} ${points} points for ${players} players.`);
+    process.exit(0);
+  } catch (err) {
+    console.error("Points backfill failed:", err);
+    process.exit(1);
+  }
+}
+
+run();
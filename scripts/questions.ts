@@ -0,0 +1,78 @@
+import { storage } from "../server/storage";
+import { importQuestions, exportQuestions } from "../server/question-transfer";
+import { columnMappingSchema, questionFileFormatSchema, type ColumnMapping, type QuestionFileFormat } from "../shared/routes";
+import { readFileSync, writeFileSync } from "fs";
+import { extname } from "path";
+
+// Usage:
+//   tsx scripts/questions.ts import <file> [--format json|csv] [--map field=column ...] [--dry-run]
+//   tsx scripts/questions.ts export <file> [--format json|csv]
+//
+// --map points a question field at a differently named column, e.g.
+//   --map question=Prompt --map options=A,B,C,D
+// The format defaults to the file extension.
+
+function parseArgs(args: string[]) {
+  const [command, file, ...rest] = args;
+  const mapping: Record<string, string | string[]> = {};
+  let format: string | undefined;
+  let dryRun = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "--dry-run") {
+      dryRun = true;
+    } else if (rest[i] === "--format") {
+      format = rest[++i];
+    } else if (rest[i] === "--map") {
+      const [field, columns] = (rest[++i] ?? "").split("=");
+      mapping[field] = field === "options" && columns.includes(",") ? columns.split(",") : columns;
+    } else {
+      throw new Error(`Unknown option ${rest[i]}`);
+    }
+  }
+
+  if ((command !== "import" && command !== "export") || !file) {
+    throw new Error("Usage: tsx scripts/questions.ts <import|export> <file> [--format json|csv] [--map field=column] [--dry-run]");
+  }
+
+  return {
+    command,
+    file,
+    format: questionFileFormatSchema.parse(format ?? extname(file).slice(1).toLowerCase()) as QuestionFileFormat,
+    mapping: columnMappingSchema.parse(mapping) as ColumnMapping,
+    dryRun,
+  };
+}
+
+async function run() {
+  try {
+    const { command, file, format, mapping, dryRun } = parseArgs(process.argv.slice(2));
+
+    if (command === "export") {
+      const [questions, packs] = await Promise.all([storage.getAllQuestions(), storage.getPacks()]);
+      writeFileSync(file, exportQuestions(questions, packs, format));
+      console.log(`Exported ${questions.length} questions to ${file}.`);
+      process.exit(0);
+    }
+
+    const report = await importQuestions(readFileSync(file, "utf-8"), format, mapping, dryRun);
+    for (const row of report.rows) {
+      if (row.status !== "imported") {
+        console.log(`Row ${row.row}: ${row.status} - ${row.message}`);
+      }
+    }
+    if (report.newPacks.length > 0) {
+      console.log(`${dryRun ? "Would create" : "Created"} packs: ${report.newPacks.join(", ")}`);
+    }
+    console.log(
+      `${dryRun ? "Dry run: would import" : "Imported"} ${report.imported}, ` +
+      `skipped ${report.duplicates} duplicates and ${report.invalid} invalid rows.`
+    );
+    process.exit(report.invalid > 0 ? 1 : 0);
+  } catch (err) {
+    console.error("Question transfer failed:", err);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import { localDate } from "./streaks";
+import { achievements, type AchievementDefinition } from "@shared/achievements";
+import { natureItems } from "@shared/nature-items";
+import type { Achievement, AchievementStat, PlayerAchievement, UserStats } from "@shared/schema";
+
+// Things a player does that can move them toward an achievement
+export type GameEvent =
+  | { type: "answeredCorrectly"; roving: boolean }
+  | { type: "natureItemVerified"; itemName: string }
+  | { type: "huntCompleted" } // streaks and hunt counts are already updated by then
+  | { type: "distanceWalked"; meters: number };
+
+function statValue(stats: UserStats, stat: AchievementStat): number {
+  return stat === "natureItemsFound" ? stats.natureItemsFound.length : stats[stat];
+}
+
+function toAchievement(definition: AchievementDefinition, stats: UserStats, earned?: PlayerAchievement): Achievement {
+  const { stat, ...rest } = definition;
+  return {
+    ...rest,
+    progress: statValue(stats, stat),
+    earnedAt: earned?.earnedAt.toISOString() ?? null,
+  };
+}
+
+// Updates the counters the event feeds and returns the new totals
+async function applyEvent(userId: number, event: GameEvent): Promise<UserStats> {
+  switch (event.type) {
+    case "answeredCorrectly":
+      return await storage.incrementUserStats(userId, { correctAnswers: 1, rovingCaught: event.roving ? 1 : 0 });
+    case "natureItemVerified":
+      // Only items from the list count, so made-up names can't fill the shelf
+      return natureItems.some(item => item.name === event.itemName)
+        ? await storage.addNatureItemFound(userId, event.itemName)
+        : await storage.getUserStats(userId);
+    case "distanceWalked":
+      return await storage.incrementUserStats(userId, { distanceWalked: Math.round(event.meters) });
+    case "huntCompleted":
+      return await storage.getUserStats(userId);
+  }
+}
+
+// Records the event and awards everything the player now qualifies for. Returns only
+// the achievements earned just now, for the game to announce.
+export async function recordGameEvent(userId: number, event: GameEvent): Promise<Achievement[]> {
+  const stats = await applyEvent(userId, event);
+  const qualified = achievements.filter(a => statValue(stats, a.stat) >= a.goal);
+  const awarded = await storage.awardAchievements(userId, qualified.map(a => a.id));
+  const earned = awarded.flatMap(award => {
+    const definition = achievements.find(a => a.id === award.achievementId);
+    return definition ? [toAchievement(definition, stats, award)] : [];
+  });
+
+  if (earned.length > 0) {
+    const user = await storage.getUser(userId);
+    const day = localDate(new Date(), user?.timezone ?? "UTC");
+    for (const achievement of earned.filter(a => a.points > 0)) {
+      await storage.recordPoints({ userId, amount: achievement.points, source: "achievement", achievementId: achievement.id, day });
+    }
+  }
+  return earned;
+}
+
+// The whole catalog in order, earned or not, with the player's progress toward each
+export async function getAchievements(userId: number): Promise<Achievement[]> {
+  const [stats, earned] = await Promise.all([
+    storage.getUserStats(userId),
+    storage.getPlayerAchievements(userId),
+  ]);
+  return achievements.map(definition =>
+    toAchievement(definition, stats, earned.find(e => e.achievementId === definition.id)),
+  );
+}
@@ -0,0 +1,179 @@
+import { getDistance } from "geolib";
+import { areaGeometrySchema, playAreaKindSchema, type AreaGeometry, type PlayArea, type PlayAreaInput, type PlayAreaKind, type Zone } from "@shared/schema";
+
+// Attempts at a random spot for each checkpoint before giving up on the area
+const MAX_ATTEMPTS_PER_POINT = 200;
+// Random spots used to check whether any of the spawn circle is playable at all
+const AREA_SAMPLES = 2000;
+
+type Point = { lat: number; lng: number };
+
+// The uploaded file as a whole couldn't be read, as opposed to individual features
+export class PlayAreaFileError extends Error {}
+
+// The playable part of the spawn circle can't fit the requested checkpoints
+export class PlacementError extends Error {}
+
+// Ray casting over a GeoJSON ring of [lng, lat] positions
+function isPointInRing(point: Point, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point.lat) !== (yj > point.lat) &&
+        point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// The first ring is the outline, any further rings are holes
+function isPointInPolygon(point: Point, rings: number[][][]): boolean {
+  const [outline, ...holes] = rings;
+  return isPointInRing(point, outline) && !holes.some(hole => isPointInRing(point, hole));
+}
+
+export function isPointInGeometry(point: Point, geometry: AreaGeometry): boolean {
+  return geometry.type === "Polygon"
+    ? isPointInPolygon(point, geometry.coordinates)
+    : geometry.coordinates.some(polygon => isPointInPolygon(point, polygon));
+}
+
+// With no include areas everywhere is playable, apart from exclude areas
+export function isPlayable(point: Point, areas: PlayArea[]): boolean {
+  const includes = areas.filter(a => a.kind === "include");
+  if (includes.length > 0 && !includes.some(a => isPointInGeometry(point, a.geometry))) return false;
+  return !areas.some(a => a.kind === "exclude" && isPointInGeometry(point, a.geometry));
+}
+
+// Every vertex of a polygon or multipolygon, as [lng, lat]
+function vertices(geometry: AreaGeometry): number[][] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.flatMap(rings => rings.flat());
+}
+
+export function isInZone(point: Point, zone: Zone): boolean {
+  return zone.boundary
+    ? isPointInGeometry(point, zone.boundary)
+    : distance(point, zone) <= (zone.radius ?? 0);
+}
+
+// The circle around the zone's center that covers all of it, which is where its checkpoints are scattered
+export function zoneSpawnRadius(zone: Zone): number {
+  if (!zone.boundary) return zone.radius ?? 0;
+  return Math.max(...vertices(zone.boundary).map(([lng, lat]) => distance(zone, { lat, lng })));
+}
+
+// How far the point is from the zone's edge, 0 when inside it. Polygon zones
+// are measured against their covering circle, which is close enough to rank them.
+export function distanceToZone(point: Point, zone: Zone): number {
+  if (isInZone(point, zone)) return 0;
+  return Math.max(0, distance(point, zone) - zoneSpawnRadius(zone));
+}
+
+function randomPointInRing(center: Point, minRadius: number, maxRadius: number): Point {
+  const r = (minRadius + Math.sqrt(Math.random()) * (maxRadius - minRadius)) / 111000;
+  const t = 2 * Math.PI * Math.random();
+  return {
+    lat: center.lat + r * Math.cos(t),
+    lng: center.lng + r * Math.sin(t) / Math.cos(center.lat * Math.PI / 180),
+  };
+}
+
+function distance(a: Point, b: Point): number {
+  return getDistance({ latitude: a.lat, longitude: a.lng }, { latitude: b.lat, longitude: b.lng });
+}
+
+// Scatters count points around the center, inside the playable areas (and the
+// boundary, if given) and apart from each other. Throws a PlacementError rather
+// than stacking points that don't fit.
+export function placePoints(
+  center: Point,
+  radius: number,
+  count: number,
+  areas: PlayArea[],
+  { minFromCenter, minBetween, boundary }: { minFromCenter: number; minBetween: number; boundary?: AreaGeometry | null },
+): Point[] {
+  const allowed = (p: Point) => isPlayable(p, areas) && (!boundary || isPointInGeometry(p, boundary));
+
+  if (count > 0 && (areas.length > 0 || boundary)) {
+    const samples = Array.from({ length: AREA_SAMPLES }, () => randomPointInRing(center, minFromCenter, radius));
+    if (!samples.some(allowed)) {
+      throw new PlacementError(
+        `None of the area within ${radius}m of you is playable. Move closer to the playable area or widen the spawn radius.`
+      );
+    }
+  }
+
+  const placed: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    let found: Point | undefined;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_POINT && !found; attempt++) {
+      const candidate = randomPointInRing(center, minFromCenter, radius);
+      const fromCenter = distance(center, candidate);
+      if (fromCenter >= minFromCenter &&
+          fromCenter <= radius &&
+          !placed.some(p => distance(p, candidate) < minBetween) &&
+          allowed(candidate)) {
+        found = candidate;
+      }
+    }
+
+    if (!found) {
+      throw new PlacementError(
+        `The playable area within ${radius}m only fits ${placed.length} of ${count} checkpoints. ` +
+        `Widen the spawn radius or the playable area, or use fewer checkpoints.`
+      );
+    }
+    placed.push(found);
+  }
+
+  return placed;
+}
+
+// Reads a GeoJSON geometry, Feature or FeatureCollection. Polygon features become
+// areas; anything else is reported back rather than failing the whole file.
+export function parsePlayAreaFile(content: string, defaultKind: PlayAreaKind): { areas: PlayAreaInput[]; skipped: string[] } {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new PlayAreaFileError(`Invalid JSON: ${(err as Error).message}`);
+  }
+
+  let features: any[];
+  if (data?.type === "FeatureCollection" && Array.isArray(data.features)) {
+    features = data.features;
+  } else if (data?.type === "Feature") {
+    features = [data];
+  } else if (typeof data?.type === "string" && "coordinates" in data) {
+    features = [{ type: "Feature", geometry: data, properties: {} }];
+  } else {
+    throw new PlayAreaFileError("Expected a GeoJSON geometry, Feature or FeatureCollection");
+  }
+
+  const areas: PlayAreaInput[] = [];
+  const skipped: string[] = [];
+
+  features.forEach((feature, index) => {
+    const label = feature?.properties?.name ? `"${feature.properties.name}"` : `Feature ${index + 1}`;
+    const geometry = areaGeometrySchema.safeParse(feature?.geometry);
+    if (!geometry.success) {
+      const type = feature?.geometry?.type;
+      skipped.push(type === "Polygon" || type === "MultiPolygon"
+        ? `${label}: ${geometry.error.errors[0].message}`
+        : `${label}: ${type ?? "no geometry"} isn't a polygon`);
+      return;
+    }
+
+    const kind = playAreaKindSchema.safeParse(feature.properties?.kind);
+    areas.push({
+      name: String(feature.properties?.name ?? `Area ${index + 1}`).trim().slice(0, 60) || `Area ${index + 1}`,
+      kind: kind.success ? kind.data : defaultKind,
+      geometry: geometry.data,
+    });
+  });
+
+  return { areas, skipped };
+}
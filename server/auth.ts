@@ -0,0 +1,212 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { api } from "@shared/routes";
+import type { Player, User } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Kept so WebSocket upgrades, which skip Express, can read the same session cookie
+let sessionParser: RequestHandler | undefined;
+
+async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const key = (await scryptAsync(pin, salt, 64)) as Buffer;
+  return `${salt}:${key.toString("hex")}`;
+}
+
+async function verifyPin(pin: string, pinHash: string): Promise<boolean> {
+  const [salt, stored] = pinHash.split(":");
+  const key = (await scryptAsync(pin, salt, 64)) as Buffer;
+  return timingSafeEqual(key, Buffer.from(stored, "hex"));
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  return "geoquest-dev-secret";
+}
+
+// Teacher accounts need the code in TEACHER_INVITE_CODE; without one set, nobody can
+// register as a teacher
+function isTeacherCode(code: string): boolean {
+  const expected = process.env.TEACHER_INVITE_CODE;
+  if (!expected) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(code), digest(expected));
+}
+
+export async function toPlayer(user: User): Promise<Player> {
+  const cls = user.classId ? await storage.getClass(user.classId) : undefined;
+  return {
+    id: user.id,
+    nickname: user.nickname,
+    role: user.role === "teacher" ? "teacher" : "student",
+    classId: cls?.id ?? null,
+    className: cls?.name ?? null,
+    leaderboardNicknameOnly: user.leaderboardNicknameOnly,
+    timezone: user.timezone,
+  };
+}
+
+// Rejects the request unless a player is signed in; sets req.user for the handlers after it
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  const userId = req.session.userId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    return res.status(401).json({ message: "Please sign in to play" });
+  }
+  req.user = user;
+  next();
+}
+
+// The signed-in player behind a WebSocket upgrade request, if any
+export function getUpgradeUser(req: IncomingMessage): Promise<User | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionParser) return resolve(undefined);
+    sessionParser(req as Request, {} as Response, async (err?: unknown) => {
+      if (err) return reject(err);
+      const userId = (req as Request).session?.userId;
+      resolve(userId ? await storage.getUser(userId) : undefined);
+    });
+  });
+}
+
+// Use after requireUser
+export function requireTeacher(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== "teacher") {
+    return res.status(403).json({ message: "Only teachers can do that" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  const PgStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  sessionParser = session({
+    store: new PgStore({ pool, createTableIfMissing: true }),
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 1000 * 60 * 60 * 24 * 30, // 30 days
+    },
+  });
+  app.use(sessionParser);
+
+  app.post(api.auth.register.path, async (req, res) => {
+    try {
+      const { nickname, pin, teacherCode } = api.auth.register.input.parse(req.body);
+      if (teacherCode !== undefined && !isTeacherCode(teacherCode)) {
+        return res.status(403).json({ message: "That teacher code isn't right" });
+      }
+      if (await storage.getUserByNickname(nickname)) {
+        return res.status(409).json({ message: "That nickname is taken" });
+      }
+
+      const role = teacherCode !== undefined ? "teacher" : "student";
+      const user = await storage.createUser({ nickname, pinHash: await hashPin(pin), role });
+      req.session.userId = user.id;
+      res.status(201).json(await toPlayer(user));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.auth.login.path, async (req, res) => {
+    try {
+      const { nickname, pin } = api.auth.login.input.parse(req.body);
+      const user = await storage.getUserByNickname(nickname);
+      if (!user || !(await verifyPin(pin, user.pinHash))) {
+        return res.status(401).json({ message: "Wrong nickname or PIN" });
+      }
+
+      req.session.userId = user.id;
+      res.json(await toPlayer(user));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.auth.logout.path, (req, res, next) => {
+    req.session.destroy((err) => {
+      if (err) return next(err);
+      res.json({ success: true });
+    });
+  });
+
+  app.get(api.auth.me.path, requireUser, async (req, res) => {
+    res.json(await toPlayer(req.user!));
+  });
+
+  // The browser reports where the player is, so streak days follow their own midnight
+  app.patch(api.auth.updateTimezone.path, requireUser, async (req, res) => {
+    try {
+      const { timezone } = api.auth.updateTimezone.input.parse(req.body);
+      const updated = await storage.setUserTimezone(req.user!.id, timezone);
+      res.json(await toPlayer(updated));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.auth.updatePrivacy.path, requireUser, async (req, res) => {
+    try {
+      const { leaderboardNicknameOnly } = api.auth.updatePrivacy.input.parse(req.body);
+      const updated = await storage.setLeaderboardNicknameOnly(req.user!.id, leaderboardNicknameOnly);
+      res.json(await toPlayer(updated));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+}
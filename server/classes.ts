@@ -0,0 +1,99 @@
+import type { Express } from "express";
+import { randomInt } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher, toPlayer } from "./auth";
+import { parseId } from "./params";
+import { api } from "@shared/routes";
+import type { Class, ClassSummary } from "@shared/schema";
+
+// No 0/O or 1/I so codes read cleanly off a whiteboard
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 6;
+
+// Also used for team hunt codes
+export function randomJoinCode(): string {
+  return Array.from({ length: JOIN_CODE_LENGTH }, () =>
+    JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+  ).join("");
+}
+
+async function generateJoinCode(): Promise<string> {
+  while (true) {
+    const code = randomJoinCode();
+    if (!(await storage.getClassByJoinCode(code))) return code;
+  }
+}
+
+function toClassSummary(cls: Class): ClassSummary {
+  return { id: cls.id, name: cls.name, joinCode: cls.joinCode };
+}
+
+export function registerClassRoutes(app: Express) {
+  app.get(api.classes.list.path, requireUser, requireTeacher, async (req, res) => {
+    const classes = await storage.getClassesForTeacher(req.user!.id);
+    res.json(classes.map(toClassSummary));
+  });
+
+  app.post(api.classes.create.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const { name } = api.classes.create.input.parse(req.body);
+      const cls = await storage.createClass({
+        name,
+        joinCode: await generateJoinCode(),
+        teacherId: req.user!.id,
+      });
+      res.status(201).json(toClassSummary(cls));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.classes.join.path, requireUser, async (req, res) => {
+    try {
+      const { joinCode } = api.classes.join.input.parse(req.body);
+      const cls = await storage.getClassByJoinCode(joinCode);
+      if (!cls) {
+        return res.status(404).json({ message: "No class found with that code" });
+      }
+
+      await storage.setUserClass(req.user!.id, cls.id);
+      res.json(await toPlayer({ ...req.user!, classId: cls.id }));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.classes.leave.path, requireUser, async (req, res) => {
+    await storage.setUserClass(req.user!.id, null);
+    res.json(await toPlayer({ ...req.user!, classId: null }));
+  });
+
+  app.get(api.classes.roster.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Class id must be a number", field: "id" });
+    }
+    const cls = await storage.getClass(id);
+    if (!cls) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+    if (cls.teacherId !== req.user!.id) {
+      return res.status(403).json({ message: "That isn't your class" });
+    }
+
+    res.json(await storage.getClassRoster(cls.id));
+  });
+}
@@ -0,0 +1,293 @@
+import { getDistance } from "geolib";
+import { storage } from "./storage";
+import type { CheckpointImportItem, CheckpointImportReport, GeoFileFormat, WaypointFileFormat } from "@shared/routes";
+import type { InsertCustomCheckpoint, Question } from "@shared/schema";
+
+// What a checkpoint carries into other mapping tools. Answers are left out on purpose:
+// players export their own hunts too.
+export interface GeoWaypoint {
+  lat: number;
+  lng: number;
+  name: string;
+  question: string;
+  points: number;
+  collected: boolean;
+  roving: boolean;
+  collectedAt?: string | null;
+  order?: number; // position on a trail
+}
+
+export interface GeoTrack {
+  name: string;
+  points: { lat: number; lng: number; at: string }[];
+}
+
+export interface GeoExport {
+  name: string;
+  waypoints: GeoWaypoint[];
+  track?: GeoTrack;
+}
+
+const GPX_EXTENSIONS_NS = "urn:geoquest:gpx:1";
+
+export const GEO_CONTENT_TYPES: Record<GeoFileFormat, string> = {
+  gpx: "application/gpx+xml",
+  geojson: "application/geo+json",
+};
+
+function xml(text: string | number): string {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The short line GPS units show under a waypoint's name
+function waypointSummary(wp: GeoWaypoint): string {
+  return [`${wp.points} points`, wp.collected ? "collected" : "not collected", ...(wp.roving ? ["roving"] : [])].join(", ");
+}
+
+function toGpx({ name, waypoints, track }: GeoExport): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="GeoQuest" xmlns="http://www.topografix.com/GPX/1/1" xmlns:geoquest="${GPX_EXTENSIONS_NS}">`,
+    `  <metadata><name>${xml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+  ];
+
+  for (const wp of waypoints) {
+    lines.push(
+      `  <wpt lat="${wp.lat}" lon="${wp.lng}">`,
+      ...(wp.collectedAt ? [`    <time>${wp.collectedAt}</time>`] : []),
+      `    <name>${xml(wp.name)}</name>`,
+      `    <cmt>${xml(waypointSummary(wp))}</cmt>`,
+      `    <desc>${xml(wp.question)}</desc>`,
+      `    <type>${wp.roving ? "roving checkpoint" : "checkpoint"}</type>`,
+      `    <extensions>`,
+      `      <geoquest:points>${wp.points}</geoquest:points>`,
+      `      <geoquest:collected>${wp.collected}</geoquest:collected>`,
+      `      <geoquest:roving>${wp.roving}</geoquest:roving>`,
+      ...(wp.order ? [`      <geoquest:order>${wp.order}</geoquest:order>`] : []),
+      `    </extensions>`,
+      `  </wpt>`,
+    );
+  }
+
+  if (track && track.points.length > 0) {
+    lines.push(`  <trk>`, `    <name>${xml(track.name)}</name>`, `    <trkseg>`);
+    for (const p of track.points) {
+      lines.push(`      <trkpt lat="${p.lat}" lon="${p.lng}"><time>${p.at}</time></trkpt>`);
+    }
+    lines.push(`    </trkseg>`, `  </trk>`);
+  }
+
+  lines.push(`</gpx>`);
+  return lines.join("\n") + "\n";
+}
+
+// Coordinates are [longitude, latitude], as GeoJSON has them. The track's timestamps go
+// in a parallel `times` property, which QGIS and most viewers leave alone.
+function toGeoJson({ name, waypoints, track }: GeoExport): string {
+  const features: object[] = waypoints.map(wp => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [wp.lng, wp.lat] },
+    properties: {
+      name: wp.name,
+      question: wp.question,
+      points: wp.points,
+      collected: wp.collected,
+      roving: wp.roving,
+      collectedAt: wp.collectedAt ?? null,
+      ...(wp.order ? { order: wp.order } : {}),
+    },
+  }));
+
+  if (track && track.points.length > 1) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: track.points.map(p => [p.lng, p.lat]) },
+      properties: { name: track.name, times: track.points.map(p => p.at) },
+    });
+  }
+
+  return JSON.stringify({ type: "FeatureCollection", name, features }, null, 2);
+}
+
+export function exportGeo(data: GeoExport, format: GeoFileFormat): string {
+  return format === "gpx" ? toGpx(data) : toGeoJson(data);
+}
+
+// Imported waypoints this close to an existing custom checkpoint, or to each other, are
+// taken to be the same spot
+const DUPLICATE_RADIUS = 5; // meters
+
+// The file as a whole couldn't be read, as opposed to individual waypoints
+export class WaypointFileError extends Error {}
+
+interface RawWaypoint {
+  name: string;
+  description: string;
+  point?: { lat: number; lng: number };
+  problem?: string; // why there's no point
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[^>]+>/g, " ") // markup inside KML descriptions
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// The text of the first <tag> directly inside `xml`; namespace prefixes are ignored
+function childText(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "i"));
+  return match ? decodeXml(match[1]) : "";
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  return attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+}
+
+function toPoint(lat: number, lng: number): Pick<RawWaypoint, "point" | "problem"> {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return { problem: "has no coordinates" };
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return { problem: "has coordinates off the map" };
+  return { point: { lat, lng } };
+}
+
+// Waypoints only; routes and tracks aren't checkpoints
+function parseGpx(content: string): RawWaypoint[] {
+  if (!/<gpx\b/i.test(content)) throw new WaypointFileError("That isn't a GPX file");
+  return Array.from(content.matchAll(/<wpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/wpt>)/gi), ([, attrs, body = ""]) => ({
+    name: childText(body, "name"),
+    description: childText(body, "desc") || childText(body, "cmt"),
+    ...toPoint(Number(attribute(attrs, "lat")), Number(attribute(attrs, "lon"))),
+  }));
+}
+
+// Placemarks holding a Point; lines and polygons are reported as skipped
+function parseKml(content: string): RawWaypoint[] {
+  if (!/<kml\b/i.test(content)) throw new WaypointFileError("That isn't a KML file");
+  return Array.from(content.matchAll(/<(?:\w+:)?Placemark\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Placemark>/gi), ([, body]) => {
+    const name = childText(body, "name");
+    const description = childText(body, "description");
+    const point = body.match(/<(?:\w+:)?Point\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Point>/i);
+    if (!point) return { name, description, problem: "isn't a point" };
+    const [lng, lat] = childText(point[1], "coordinates").split(",").map(Number);
+    return { name, description, ...toPoint(lat, lng) };
+  });
+}
+
+function parseGeoJson(content: string): RawWaypoint[] {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new WaypointFileError(`Invalid JSON: ${(err as Error).message}`);
+  }
+
+  let features: any[];
+  if (data?.type === "FeatureCollection" && Array.isArray(data.features)) {
+    features = data.features;
+  } else if (data?.type === "Feature") {
+    features = [data];
+  } else {
+    throw new WaypointFileError("Expected a GeoJSON Feature or FeatureCollection");
+  }
+
+  return features.map(feature => {
+    const properties = feature?.properties ?? {};
+    const name = String(properties.name ?? properties.title ?? "").trim();
+    // Our own exports keep the question text in "question"
+    const description = String(properties.question ?? properties.description ?? "").trim();
+    if (feature?.geometry?.type !== "Point" || !Array.isArray(feature.geometry.coordinates)) {
+      return { name, description, problem: `${feature?.geometry?.type ?? "no geometry"} isn't a point` };
+    }
+    const [lng, lat] = feature.geometry.coordinates.map(Number);
+    return { name, description, ...toPoint(lat, lng) };
+  });
+}
+
+export function parseWaypointFile(content: string, format: WaypointFileFormat): RawWaypoint[] {
+  const waypoints = format === "gpx" ? parseGpx(content) : format === "kml" ? parseKml(content) : parseGeoJson(content);
+  if (waypoints.length === 0) throw new WaypointFileError("The file has no waypoints");
+  return waypoints;
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function isNear(a: { lat: number; lng: number }, b: { lat: number; lng: number }): boolean {
+  return getDistance({ latitude: a.lat, longitude: a.lng }, { latitude: b.lat, longitude: b.lng }) <= DUPLICATE_RADIUS;
+}
+
+// Picks a question for every waypoint that has a point and, unless this is a dry run,
+// creates the checkpoints together. Anything that can't be placed or matched, or that
+// doubles up an existing checkpoint, is reported as skipped instead.
+export async function importCustomCheckpoints(
+  content: string,
+  format: WaypointFileFormat,
+  { packQuestions, choices }: { packQuestions: Question[]; choices: Map<number, number | null> },
+  dryRun = false,
+): Promise<CheckpointImportReport> {
+  const waypoints = parseWaypointFile(content, format);
+  const questions = await storage.getAllQuestions();
+  const questionIds = new Set(questions.map(q => q.id));
+  const byText = new Map(questions.map(q => [normalize(q.question), q.id]));
+  const taken = (await storage.getCustomCheckpoints()).map(cp => ({ lat: cp.lat, lng: cp.lng }));
+  const toCreate: InsertCustomCheckpoint[] = [];
+  let nextFromPack = 0;
+
+  const items = waypoints.map((wp, i): CheckpointImportItem => {
+    const index = i + 1;
+    const name = wp.name || `Waypoint ${index}`;
+    const base = { index, name, lat: wp.point?.lat ?? null, lng: wp.point?.lng ?? null, questionId: null, matchedBy: null };
+    const skip = (message: string): CheckpointImportItem => ({ ...base, status: "skipped", message });
+
+    if (!wp.point) return skip(`${name} ${wp.problem}`);
+
+    let questionId: number | null = null;
+    let matchedBy: CheckpointImportItem["matchedBy"] = null;
+    if (choices.has(index)) {
+      questionId = choices.get(index)!;
+      if (questionId === null) return skip("Left out");
+      if (!questionIds.has(questionId)) return skip("The chosen question doesn't exist");
+      matchedBy = "choice";
+    } else if (byText.has(normalize(wp.name)) || byText.has(normalize(wp.description))) {
+      questionId = byText.get(normalize(wp.name)) ?? byText.get(normalize(wp.description))!;
+      matchedBy = "name";
+    } else if (packQuestions.length > 0) {
+      // Round the pack again if there are more waypoints than questions
+      questionId = packQuestions[nextFromPack++ % packQuestions.length].id;
+      matchedBy = "pack";
+    } else {
+      return skip("No question matches its name; pick one or choose a pack");
+    }
+
+    if (taken.some(spot => isNear(spot, wp.point!))) {
+      return skip("There's already a checkpoint here");
+    }
+    taken.push(wp.point);
+    toCreate.push({ ...wp.point, questionId });
+    return { ...base, status: "imported", questionId, matchedBy };
+  });
+
+  if (!dryRun) {
+    await storage.addCustomCheckpoints(toCreate);
+  }
+
+  return {
+    dryRun,
+    imported: items.filter(item => item.status === "imported").length,
+    skipped: items.filter(item => item.status === "skipped").length,
+    items,
+  };
+}
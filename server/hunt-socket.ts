@@ -0,0 +1,78 @@
+import type { Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { huntSocket } from "@shared/routes";
+import type { HuntSocketMessage } from "@shared/schema";
+import { getUpgradeUser } from "./auth";
+
+// Dead connections (e.g. a phone that lost signal) are dropped after missing one ping
+const HEARTBEAT_INTERVAL = 30000; // ms
+
+// The state message for a team hunt the player belongs to, or undefined if they don't
+type LoadHuntState = (sessionId: string, userId: number) => Promise<HuntSocketMessage | undefined>;
+
+// Open sockets per team hunt
+const rooms = new Map<string, Set<WebSocket>>();
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+function leaveRoom(sessionId: string, ws: WebSocket) {
+  const room = rooms.get(sessionId);
+  room?.delete(ws);
+  if (room?.size === 0) rooms.delete(sessionId);
+}
+
+// Teammates connect to huntSocket.path?sessionId=... with their session cookie. Each
+// (re)connect is sent the whole hunt straight away, so a dropped phone catches up.
+export function setupHuntSocket(httpServer: Server, loadState: LoadHuntState) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    // Other upgrades, such as Vite's HMR socket, are handled elsewhere
+    if (url.pathname !== huntSocket.path) return;
+
+    try {
+      const user = await getUpgradeUser(req);
+      if (!user) return rejectUpgrade(socket, "401 Unauthorized");
+      const sessionId = url.searchParams.get("sessionId") ?? "";
+      const state = await loadState(sessionId, user.id);
+      if (!state) return rejectUpgrade(socket, "404 Not Found");
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        alive.add(ws);
+        ws.on("pong", () => alive.add(ws));
+        ws.on("close", () => leaveRoom(sessionId, ws));
+        ws.on("error", () => leaveRoom(sessionId, ws));
+
+        const room = rooms.get(sessionId) ?? new Set<WebSocket>();
+        room.add(ws);
+        rooms.set(sessionId, room);
+        ws.send(JSON.stringify(state));
+      });
+    } catch (err) {
+      console.error("Hunt socket upgrade failed:", err);
+      socket.destroy();
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+export function broadcastToHunt(sessionId: string, message: HuntSocketMessage) {
+  const data = JSON.stringify(message);
+  rooms.get(sessionId)?.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(data);
+  });
+}
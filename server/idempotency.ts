@@ -0,0 +1,61 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+const STALE_CLAIM_MS = 2 * 60 * 1000; // far longer than any route takes to answer
+
+// For routes a player may send twice: answers and photos queued on the device while
+// offline are replayed with the key they were first sent with. The first request with
+// a key is handled as usual and its response kept; any later one with the same key gets
+// that response back without running the route again. Server errors aren't kept, so the
+// client can retry those; routes pass errors to next() so that they are answered with
+// one. Goes after requireUser, since keys belong to a player.
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (key === undefined) return next();
+  if (!KEY_PATTERN.test(key)) {
+    return res.status(400).json({ message: `${IDEMPOTENCY_HEADER} must be 8 to 100 letters, digits, dashes or underscores` });
+  }
+
+  const userId = req.user!.id;
+  const route = `${req.method} ${req.path}`;
+  const claim = await storage.claimIdempotencyKey(userId, key, route);
+
+  if (!claim) {
+    const earlier = await storage.getIdempotentRequest(userId, key);
+    if (!earlier || earlier.route !== route) {
+      return res.status(422).json({ message: "That idempotency key was already used for a different request" });
+    }
+    if (earlier.statusCode === null) {
+      // Nothing answered the first request, say because the server went down mid-way,
+      // so this one takes its place rather than waiting forever
+      if (Date.now() - earlier.createdAt.getTime() > STALE_CLAIM_MS) {
+        await storage.releaseIdempotencyKey(earlier.id);
+        return idempotent(req, res, next);
+      }
+      res.set("Retry-After", "1");
+      return res.status(409).json({ message: "This submission is still being processed" });
+    }
+    res.set("Idempotent-Replayed", "true");
+    return res.status(earlier.statusCode).json(earlier.body);
+  }
+
+  let body: unknown;
+  const json = res.json.bind(res);
+  res.json = (value: unknown) => {
+    body = value;
+    return json(value);
+  };
+
+  res.on("close", () => {
+    const settled = res.writableFinished && body !== undefined && res.statusCode < 500;
+    const done = settled
+      ? storage.saveIdempotentResponse(claim.id, res.statusCode, body)
+      : storage.releaseIdempotencyKey(claim.id);
+    done.catch((err) => console.error("Failed to settle idempotency key:", err));
+  });
+
+  next();
+}
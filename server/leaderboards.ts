@@ -0,0 +1,37 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser } from "./auth";
+import { api } from "@shared/routes";
+
+const LEADERBOARD_SIZE = 50;
+
+export function registerLeaderboardRoutes(app: Express) {
+  app.get(api.leaderboards.get.path, requireUser, async (req, res) => {
+    try {
+      const { window, classId, zoneId } = api.leaderboards.get.input.parse(req.query);
+      if (classId !== undefined && !(await storage.getClass(classId))) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      if (zoneId !== undefined && !(await storage.getZone(zoneId))) {
+        return res.status(404).json({ message: "Zone not found" });
+      }
+
+      const rows = await storage.getLeaderboard({ window, classId, zoneId });
+      const ranked = rows.map((row, i) => ({ ...row, rank: i + 1 }));
+      res.json({
+        window,
+        entries: ranked.slice(0, LEADERBOARD_SIZE),
+        you: ranked.find(entry => entry.userId === req.user!.id) ?? null,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+}
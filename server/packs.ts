@@ -0,0 +1,73 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher } from "./auth";
+import { parseId } from "./params";
+import { api } from "@shared/routes";
+
+export function registerPackRoutes(app: Express) {
+  // Open to everyone so players can see what a hunt will ask about
+  app.get(api.packs.list.path, async (req, res) => {
+    const packs = await storage.getPacks();
+    res.json(packs);
+  });
+
+  app.post(api.packs.create.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const input = api.packs.create.input.parse(req.body);
+      if (await storage.getPackByName(input.name)) {
+        return res.status(409).json({ message: "A pack with this name already exists" });
+      }
+      const pack = await storage.createPack(input);
+      res.status(201).json(pack);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.put(api.packs.update.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Pack id must be a number", field: "id" });
+      }
+      const input = api.packs.update.input.parse(req.body);
+      const sameName = await storage.getPackByName(input.name);
+      if (sameName && sameName.id !== id) {
+        return res.status(409).json({ message: "A pack with this name already exists" });
+      }
+      const pack = await storage.updatePack(id, input);
+      if (!pack) {
+        return res.status(404).json({ message: "Pack not found" });
+      }
+      res.json(pack);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.packs.delete.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Pack id must be a number", field: "id" });
+    }
+    if (!(await storage.getPack(id))) {
+      return res.status(404).json({ message: "Pack not found" });
+    }
+
+    await storage.deletePack(id);
+    res.status(204).end();
+  });
+}
@@ -0,0 +1,6 @@
+// Row ids in route parameters: a positive integer, or null for anything else, which
+// callers answer with a 400 rather than looking it up
+export function parseId(param: string): number | null {
+  const id = Number(param);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
@@ -0,0 +1,67 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher } from "./auth";
+import { parseId } from "./params";
+import { api } from "@shared/routes";
+import { parsePlayAreaFile, PlayAreaFileError } from "./area-geometry";
+
+export function registerPlayAreaRoutes(app: Express) {
+  app.get(api.playAreas.list.path, async (req, res) => {
+    const areas = await storage.getPlayAreas();
+    res.json(areas);
+  });
+
+  // A polygon drawn on the map
+  app.post(api.playAreas.create.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const input = api.playAreas.create.input.parse(req.body);
+      const [area] = await storage.createPlayAreas([input]);
+      res.status(201).json(area);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.playAreas.import.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const { content, kind } = api.playAreas.import.input.parse(req.body);
+      const { areas, skipped } = parsePlayAreaFile(content, kind);
+      if (areas.length === 0) {
+        return res.status(400).json({ message: skipped[0] ?? "The file has no polygons" });
+      }
+      const created = await storage.createPlayAreas(areas);
+      res.status(201).json({ created, skipped });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      if (err instanceof PlayAreaFileError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.playAreas.delete.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Play area id must be a number", field: "id" });
+    }
+    if (!(await storage.getPlayArea(id))) {
+      return res.status(404).json({ message: "Play area not found" });
+    }
+
+    await storage.deletePlayArea(id);
+    res.status(204).end();
+  });
+}
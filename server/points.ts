@@ -0,0 +1,129 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher } from "./auth";
+import { parseId } from "./params";
+import { addDays, localDate } from "./streaks";
+import { api } from "@shared/routes";
+import type { PointsEntry, PointsEntryState, SessionCheckpoint, User } from "@shared/schema";
+
+const LEDGER_PAGE_SIZE = 200;
+const HISTORY_DAYS = 30; // how far back the Stats chart goes
+
+function toPointsEntryState(entry: PointsEntry & { reversed?: boolean }): PointsEntryState {
+  return {
+    id: entry.id,
+    amount: entry.amount,
+    source: entry.source,
+    checkpointId: entry.checkpointId,
+    questionId: entry.questionId,
+    sessionId: entry.sessionId,
+    achievementId: entry.achievementId,
+    day: entry.day,
+    reversalOf: entry.reversalOf,
+    note: entry.note,
+    createdAt: entry.createdAt.toISOString(),
+    reversed: entry.reversed ?? false,
+  };
+}
+
+// A correct answer is worth the question's points; roving checkpoints are worth more
+// than their question, and the difference goes down as a separate bonus
+export async function recordCheckpointPoints(user: User, sessionId: string, checkpoint: SessionCheckpoint, questionPoints: number) {
+  const bonus = checkpoint.movement ? Math.max(0, checkpoint.points - questionPoints) : 0;
+  const base = { userId: user.id, checkpointId: checkpoint.id, questionId: checkpoint.questionId, sessionId, day: localDate(new Date(), user.timezone) };
+
+  await storage.recordPoints({ ...base, amount: checkpoint.points - bonus, source: "trivia" });
+  if (bonus > 0) {
+    await storage.recordPoints({ ...base, amount: bonus, source: "roving_bonus" });
+  }
+}
+
+// What the Stats page shows: the all-time total and net points per day for the last month
+export async function getPointsSummary(user: User) {
+  const today = localDate(new Date(), user.timezone);
+  const [totalPoints, pointsHistory] = await Promise.all([
+    storage.getPointsTotal(user.id),
+    storage.getDailyPoints(user.id, addDays(today, 1 - HISTORY_DAYS)),
+  ]);
+  return { totalPoints, pointsHistory };
+}
+
+// The student the route names, if they're in the signed-in teacher's class. Sends the
+// error response and returns undefined otherwise.
+async function findStudent(req: Request, res: Response): Promise<User | undefined> {
+  const classId = parseId(req.params.id);
+  if (classId === null) {
+    res.status(400).json({ message: "Class id must be a number", field: "id" });
+    return undefined;
+  }
+  const userId = parseId(req.params.userId);
+  if (userId === null) {
+    res.status(400).json({ message: "Student id must be a number", field: "userId" });
+    return undefined;
+  }
+  const cls = await storage.getClass(classId);
+  if (!cls) {
+    res.status(404).json({ message: "Class not found" });
+    return undefined;
+  }
+  if (cls.teacherId !== req.user!.id) {
+    res.status(403).json({ message: "That isn't your class" });
+    return undefined;
+  }
+  const student = await storage.getUser(userId);
+  if (!student || student.classId !== cls.id) {
+    res.status(404).json({ message: "That student isn't in this class" });
+    return undefined;
+  }
+  return student;
+}
+
+export function registerPointsRoutes(app: Express) {
+  app.get(api.points.ledger.path, requireUser, requireTeacher, async (req, res) => {
+    const student = await findStudent(req, res);
+    if (!student) return;
+
+    const entries = await storage.getPointsLedger(student.id, LEDGER_PAGE_SIZE);
+    res.json(entries.map(toPointsEntryState));
+  });
+
+  // Entries are never edited or deleted; a reversal is a new entry that cancels one out
+  app.post(api.points.reverse.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const { note } = api.points.reverse.input.parse(req.body);
+      const student = await findStudent(req, res);
+      if (!student) return;
+
+      const entryId = parseId(req.params.entryId);
+      if (entryId === null) {
+        return res.status(400).json({ message: "Points entry id must be a number", field: "entryId" });
+      }
+      const entry = await storage.getPointsEntry(entryId);
+      if (!entry || entry.userId !== student.id) {
+        return res.status(404).json({ message: "Points entry not found" });
+      }
+      if (entry.source === "reversal") {
+        return res.status(409).json({ message: "A reversal can't itself be reversed" });
+      }
+
+      const reversal = await storage.reversePointsEntry(entry, {
+        note,
+        createdBy: req.user!.id,
+        day: localDate(new Date(), student.timezone),
+      });
+      if (!reversal) {
+        return res.status(409).json({ message: "Those points have already been reversed" });
+      }
+      res.status(201).json(toPointsEntryState(reversal));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+}
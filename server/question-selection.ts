@@ -0,0 +1,143 @@
+import { storage } from "./storage";
+import type { Difficulty, Question, QuestionAnswer, QuestionFilter, QuestionMode, QuestionPack } from "@shared/schema";
+
+const LEVELS: Difficulty[] = ["easy", "medium", "hard"];
+
+// How far back the adaptive strategy looks at a player's answers
+const HISTORY_LENGTH = 200;
+// First-try answers in a row that move a player up a level, or down one
+const STREAK_TO_LEVEL_UP = 3;
+const MISSES_TO_LEVEL_DOWN = 2;
+// Questions among this many latest answers aren't asked again, unless they're due for review
+const RECENT_ANSWER_COUNT = 30;
+// A missed question's topic comes back once the miss is this old
+const REVIEW_DELAY_MS = 24 * 60 * 60 * 1000;
+// At most this share of a hunt goes to reviewing missed topics
+const REVIEW_SHARE = 1 / 3;
+
+type AnsweredQuestion = QuestionAnswer & { question: Question };
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function levelOf(question: Question): number {
+  return Math.max(0, LEVELS.indexOf(question.difficulty as Difficulty));
+}
+
+// Players retry until they get a checkpoint right, so only the first attempt at a
+// question within a hunt says anything about what they know. Oldest first.
+function firstTries(history: AnsweredQuestion[]): AnsweredQuestion[] {
+  const seen = new Set<string>();
+  return [...history].reverse().filter(answer => {
+    const key = `${answer.sessionId}:${answer.questionId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Replays the history: a streak of right answers at or above the current level
+// moves the player up, repeated misses move them back down
+function playerLevel(tries: AnsweredQuestion[]): number {
+  let level = 0;
+  let streak = 0;
+  let misses = 0;
+
+  for (const answer of tries) {
+    if (answer.correct) {
+      misses = 0;
+      if (levelOf(answer.question) >= level) streak++;
+      if (streak >= STREAK_TO_LEVEL_UP && level < LEVELS.length - 1) {
+        level++;
+        streak = 0;
+      }
+    } else {
+      streak = 0;
+      misses++;
+      if (misses >= MISSES_TO_LEVEL_DOWN && level > 0) {
+        level--;
+        misses = 0;
+      }
+    }
+  }
+
+  return level;
+}
+
+// A question's topics are its pack's tags, or the pack itself when it has none
+function topicsOf(question: Question, packs: Map<number, QuestionPack>): string[] {
+  const pack = question.packId ? packs.get(question.packId) : undefined;
+  if (!pack) return [];
+  return pack.tags.length > 0 ? pack.tags.map(tag => `tag:${tag}`) : [`pack:${pack.id}`];
+}
+
+// Questions whose latest first try was wrong, once that miss is old enough to revisit
+function dueMisses(tries: AnsweredQuestion[], now: number): Question[] {
+  const latest = new Map<number, AnsweredQuestion>();
+  for (const answer of tries) latest.set(answer.questionId, answer);
+
+  return Array.from(latest.values())
+    .filter(answer => !answer.correct && now - answer.answeredAt.getTime() >= REVIEW_DELAY_MS)
+    .map(answer => answer.question);
+}
+
+async function selectAdaptively(userId: number, count: number, filter: QuestionFilter): Promise<Question[]> {
+  const [history, pool, packList] = await Promise.all([
+    storage.getRecentAnswers(userId, HISTORY_LENGTH),
+    storage.getQuestions(filter),
+    storage.getPacks(),
+  ]);
+  const packs = new Map(packList.map(p => [p.id, p]));
+  const tries = firstTries(history);
+  const level = playerLevel(tries);
+  const recent = new Set(history.slice(0, RECENT_ANSWER_COUNT).map(a => a.questionId));
+  const candidates = shuffle(pool);
+  const chosen = new Set<Question>();
+
+  const take = (questions: Question[], limit: number) => {
+    for (const q of questions) {
+      if (chosen.size >= limit) break;
+      chosen.add(q);
+    }
+  };
+
+  // Missed questions themselves first, then others on the same topics
+  const missed = dueMisses(tries, Date.now());
+  const missedIds = new Set(missed.map(q => q.id));
+  const missedTopics = new Set(missed.flatMap(q => topicsOf(q, packs)));
+  const review = [
+    ...candidates.filter(q => missedIds.has(q.id)),
+    ...candidates.filter(q => !missedIds.has(q.id) && !recent.has(q.id) && topicsOf(q, packs).some(t => missedTopics.has(t))),
+  ];
+  take(review, Math.ceil(count * REVIEW_SHARE));
+
+  // Then fresh questions, closest to the player's level first
+  const fresh = candidates
+    .filter(q => !chosen.has(q) && !recent.has(q.id))
+    .sort((a, b) => Math.abs(levelOf(a) - level) - Math.abs(levelOf(b) - level));
+  take(fresh, count);
+
+  // A small bank can run out of fresh questions; repeats beat a short hunt
+  take(candidates.filter(q => !chosen.has(q)), count);
+
+  // Mixed up again so review questions don't always land on the same checkpoints
+  return shuffle(Array.from(chosen));
+}
+
+export async function selectQuestions(
+  userId: number,
+  count: number,
+  filter: QuestionFilter,
+  mode: QuestionMode,
+): Promise<Question[]> {
+  if (mode === "adaptive") {
+    return selectAdaptively(userId, count, filter);
+  }
+  return storage.getRandomQuestions(count, filter);
+}
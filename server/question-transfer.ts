@@ -0,0 +1,245 @@
+import { storage } from "./storage";
+import { questionInputSchema, type Question, type QuestionInput, type QuestionPack } from "@shared/schema";
+import type { ColumnMapping, ImportReport, ImportRowResult, QuestionFileFormat } from "@shared/routes";
+
+// Column names tried, in order, when the mapping doesn't name one
+const DEFAULT_COLUMNS: Record<keyof ColumnMapping, string[]> = {
+  question: ["question", "text", "prompt"],
+  answer: ["answer", "correct", "correct_answer"],
+  options: ["options", "choices", "answers"],
+  points: ["points", "score"],
+  difficulty: ["difficulty", "level"],
+  pack: ["pack", "pack_name"],
+};
+
+// CSV cells holding all options at once separate them with this
+const OPTION_SEPARATOR = "|";
+
+type RawRow = Record<string, unknown>;
+
+// The file as a whole couldn't be read, as opposed to individual bad rows
+export class QuestionFileError extends Error {}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF and newlines inside quotes
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+function csvToRows(content: string): RawRow[] {
+  const [header, ...body] = parseCsv(content.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+  return body.map(cells => Object.fromEntries(columns.map((col, i) => [col, cells[i] ?? ""])));
+}
+
+function jsonToRows(content: string): unknown[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new QuestionFileError(`Invalid JSON: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(data)) {
+    throw new QuestionFileError("JSON files must contain an array of questions");
+  }
+  return data;
+}
+
+// JSON rows can be anything; only objects can hold question fields
+function isRawRow(value: unknown): value is RawRow {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Case-insensitive lookup of the first column that exists in the row
+function pick(row: RawRow, candidates: string[]): unknown {
+  const keys = Object.keys(row);
+  for (const candidate of candidates) {
+    const key = keys.find(k => k.toLowerCase() === candidate.toLowerCase());
+    if (key !== undefined) return row[key];
+  }
+  return undefined;
+}
+
+function readOptions(row: RawRow, mapping: ColumnMapping): string[] {
+  if (Array.isArray(mapping.options)) {
+    return mapping.options.map(col => String(pick(row, [col]) ?? "")).filter(o => o.trim() !== "");
+  }
+
+  const value = pick(row, mapping.options ? [mapping.options] : DEFAULT_COLUMNS.options);
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string" && value.trim() !== "") {
+    return value.split(OPTION_SEPARATOR).map(o => o.trim());
+  }
+
+  // Fall back to numbered columns such as option1, option2, ...
+  return Object.keys(row)
+    .filter(k => /^(option|choice)_?\d+$/i.test(k))
+    .sort((a, b) => Number(a.replace(/\D/g, "")) - Number(b.replace(/\D/g, "")))
+    .map(k => String(row[k] ?? "").trim())
+    .filter(o => o !== "");
+}
+
+function toQuestionCandidate(row: RawRow, mapping: ColumnMapping) {
+  const column = (field: Exclude<keyof ColumnMapping, "options">) => {
+    const mapped = mapping[field];
+    return pick(row, mapped ? [mapped] : DEFAULT_COLUMNS[field]);
+  };
+  const points = column("points");
+  const difficulty = column("difficulty");
+  const pack = column("pack");
+
+  return {
+    packName: pack === undefined || pack === null ? "" : String(pack).trim(),
+    question: String(column("question") ?? ""),
+    answer: String(column("answer") ?? ""),
+    options: readOptions(row, mapping),
+    // Same defaults the seed script has always used
+    points: points === undefined || points === "" ? 10 : Number(points),
+    difficulty: difficulty === undefined || difficulty === "" ? "easy" : String(difficulty).trim().toLowerCase(),
+  };
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function parseQuestionFile(content: string, format: QuestionFileFormat): unknown[] {
+  return format === "csv" ? csvToRows(content) : jsonToRows(content);
+}
+
+// Validates every row, skips duplicates of existing questions (or earlier rows) and,
+// unless this is a dry run, creates the rest. Rows naming a pack that doesn't exist
+// yet create it, so a whole pack can move between installations in one file.
+export async function importQuestions(
+  content: string,
+  format: QuestionFileFormat,
+  mapping: ColumnMapping = {},
+  dryRun = false,
+): Promise<ImportReport> {
+  const rawRows = parseQuestionFile(content, format);
+  const existing = await storage.getAllQuestions();
+  const seen = new Set(existing.map(q => normalize(q.question)));
+  const packIds = new Map((await storage.getPacks()).map(p => [normalize(p.name), p.id]));
+  const newPacks = new Map<string, string>();
+  const rows: ImportRowResult[] = [];
+  const toCreate: { question: QuestionInput; packName: string }[] = [];
+
+  rawRows.forEach((raw, index) => {
+    // Row numbers match what people see in a spreadsheet: the CSV header is row 1
+    const rowNumber = format === "csv" ? index + 2 : index + 1;
+    if (!isRawRow(raw)) {
+      rows.push({ row: rowNumber, status: "invalid", message: "row: Expected an object of question fields" });
+      return;
+    }
+    const { packName, ...candidate } = toQuestionCandidate(raw, mapping);
+    const result = questionInputSchema.safeParse(candidate);
+
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      rows.push({ row: rowNumber, status: "invalid", message: `${issue.path.join(".") || "row"}: ${issue.message}` });
+      return;
+    }
+
+    const key = normalize(result.data.question);
+    if (seen.has(key)) {
+      rows.push({ row: rowNumber, status: "duplicate", question: result.data.question, message: "A question with this text already exists" });
+      return;
+    }
+
+    seen.add(key);
+    if (packName && !packIds.has(normalize(packName)) && !newPacks.has(normalize(packName))) {
+      newPacks.set(normalize(packName), packName);
+    }
+    toCreate.push({ question: result.data, packName });
+    rows.push({ row: rowNumber, status: "imported", question: result.data.question });
+  });
+
+  if (!dryRun) {
+    for (const [key, name] of Array.from(newPacks)) {
+      const pack = await storage.createPack({ name });
+      packIds.set(key, pack.id);
+    }
+    await storage.createQuestions(toCreate.map(({ question, packName }) => ({
+      ...question,
+      packId: packName ? packIds.get(normalize(packName)) ?? null : null,
+    })));
+  }
+
+  return {
+    dryRun,
+    imported: rows.filter(r => r.status === "imported").length,
+    duplicates: rows.filter(r => r.status === "duplicate").length,
+    invalid: rows.filter(r => r.status === "invalid").length,
+    newPacks: Array.from(newPacks.values()),
+    rows,
+  };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Exports use the default column names so a file re-imports without a mapping
+export function exportQuestions(questions: Question[], packs: QuestionPack[], format: QuestionFileFormat): string {
+  const packNames = new Map(packs.map(p => [p.id, p.name]));
+  const records = questions.map(q => ({
+    question: q.question,
+    answer: q.answer,
+    options: q.options,
+    points: q.points,
+    difficulty: q.difficulty,
+    pack: q.packId ? packNames.get(q.packId) ?? "" : "",
+  }));
+
+  if (format === "json") {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const header = ["question", "answer", "options", "points", "difficulty", "pack"];
+  const lines = records.map(r => [
+    csvCell(r.question),
+    csvCell(r.answer),
+    csvCell(r.options.join(OPTION_SEPARATOR)),
+    csvCell(r.points),
+    csvCell(r.difficulty),
+    csvCell(r.pack),
+  ].join(","));
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
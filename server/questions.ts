@@ -0,0 +1,112 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher } from "./auth";
+import { parseId } from "./params";
+import { api, questionFileFormatSchema } from "@shared/routes";
+import { importQuestions, exportQuestions, QuestionFileError } from "./question-transfer";
+
+export function registerQuestionRoutes(app: Express) {
+  // Every question with its answer, for the question bank and the checkpoint and trail
+  // editors; players only ever see a question through a hunt's checkpoints
+  app.get(api.questions.list.path, requireUser, requireTeacher, async (req, res) => {
+    const questions = await storage.getAllQuestions();
+    res.json(questions);
+  });
+
+  app.post(api.questions.import.path, requireUser, requireTeacher, async (req, res, next) => {
+    try {
+      const { format, content, mapping, dryRun } = api.questions.import.input.parse(req.body);
+      const report = await importQuestions(content, format, mapping, dryRun);
+      res.json(report);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      if (err instanceof QuestionFileError) {
+        return res.status(400).json({ message: err.message });
+      }
+      // An async handler's throw never reaches Express 4's error handler
+      next(err);
+    }
+  });
+
+  // Carries every correct answer, so it's for teachers only
+  app.get(api.questions.export.path, requireUser, requireTeacher, async (req, res) => {
+    const format = questionFileFormatSchema.safeParse(req.query.format ?? "json");
+    if (!format.success) {
+      return res.status(400).json({ message: "Format must be json or csv", field: "format" });
+    }
+
+    const [questions, packs] = await Promise.all([storage.getAllQuestions(), storage.getPacks()]);
+    const date = new Date().toISOString().split('T')[0];
+    res.setHeader("Content-Type", format.data === "csv" ? "text/csv; charset=utf-8" : "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="questions-${date}.${format.data}"`);
+    res.send(exportQuestions(questions, packs, format.data));
+  });
+
+  app.post(api.questions.create.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const input = api.questions.create.input.parse(req.body);
+      if (input.packId && !(await storage.getPack(input.packId))) {
+        return res.status(400).json({ message: "That pack doesn't exist", field: "packId" });
+      }
+      const question = await storage.createQuestion(input);
+      res.status(201).json(question);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.put(api.questions.update.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Question id must be a number", field: "id" });
+      }
+      const input = api.questions.update.input.parse(req.body);
+      if (input.packId && !(await storage.getPack(input.packId))) {
+        return res.status(400).json({ message: "That pack doesn't exist", field: "packId" });
+      }
+      const question = await storage.updateQuestion(id, input);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      res.json(question);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.questions.delete.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Question id must be a number", field: "id" });
+    }
+    const question = await storage.getQuestion(id);
+    if (!question) {
+      return res.status(404).json({ message: "Question not found" });
+    }
+    if (await storage.isQuestionInUse(id)) {
+      return res.status(409).json({ message: "A custom checkpoint or trail stop still uses this question. Switch it to another question or delete it first." });
+    }
+
+    await storage.deleteQuestion(id);
+    res.status(204).end();
+  });
+}
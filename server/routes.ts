@@ -2,70 +2,131 @@ import { getDistance } from "geolib";
 import type { Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
-import { api } from "@shared/routes";
+import { api, geoFileFormatSchema } from "@shared/routes";
+import type { Achievement, Checkpoint, GameSession, GameSessionState, HuntSocketMessage, HuntStreak, HuntSummary, InsertGameSession, SessionCheckpoint, Trail, UserStats } from "@shared/schema";
+import { natureItems } from "@shared/nature-items";
 import { z } from "zod";
 import { openai } from "./replit_integrations/image/client";
+import { setupAuth, requireUser, requireTeacher } from "./auth";
+import { idempotent } from "./idempotency";
+import { parseId } from "./params";
+import { registerClassRoutes, randomJoinCode } from "./classes";
+import { registerQuestionRoutes } from "./questions";
+import { registerPackRoutes } from "./packs";
+import { registerPlayAreaRoutes } from "./play-areas";
+import { registerTrailRoutes } from "./trails";
+import { registerZoneRoutes } from "./zones";
+import { registerLeaderboardRoutes } from "./leaderboards";
+import { registerPointsRoutes, recordCheckpointPoints, getPointsSummary } from "./points";
+import { selectQuestions } from "./question-selection";
+import { placePoints, isInZone, zoneSpawnRadius, PlacementError } from "./area-geometry";
+import { buildRovingMovement, fleeFrom, isFleeing, rovingPosition, type HuntArea } from "./roving";
+import { setupHuntSocket, broadcastToHunt } from "./hunt-socket";
+import { recordGameEvent, getAchievements } from "./achievements";
+import { completeHunt, localDate } from "./streaks";
+import { thinTrack, walkedDistance, MAX_TRACK_POINTS } from "./tracks";
+import { exportGeo, importCustomCheckpoints, GEO_CONTENT_TYPES, WaypointFileError, type GeoWaypoint } from "./geo-transfer";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  setupAuth(app);
+  registerClassRoutes(app);
+  registerQuestionRoutes(app);
+  registerPackRoutes(app);
+  registerPlayAreaRoutes(app);
+  registerTrailRoutes(app);
+  registerZoneRoutes(app);
+  registerLeaderboardRoutes(app);
+  registerPointsRoutes(app);
+  setupHuntSocket(httpServer, async (sessionId, userId) => {
+    const session = await findSession(sessionId, userId);
+    return session?.teamCode ? await huntStateMessage(session) : undefined;
+  });
   
-  // Generate random checkpoints
-  app.post(api.game.generate.path, async (req, res) => {
+  // Generate random checkpoints and start a session for them
+  app.post(api.game.generate.path, requireUser, async (req, res) => {
     try {
-      const { lat, lng, radius, count } = api.game.generate.input.parse(req.body);
-      const gameSettings = await storage.getSettings();
+      const { lat, lng, radius, count, questionMode, packIds, difficulties, trailId, zoneId, team } = api.game.generate.input.parse(req.body);
+      const classSettings = await storage.getSettings(req.user!.classId);
+
+      if (trailId !== undefined) {
+        const trail = await storage.getTrail(trailId);
+        if (!trail) {
+          return res.status(404).json({ message: "Trail not found" });
+        }
+        const session = await startSession(req.user!.id, !!team, {
+          huntType: "trail",
+          trailId: trail.id,
+          checkpoints: await buildTrailCheckpoints(trail),
+          timeLimit: classSettings.zenMode ? null : classSettings.timeLimit,
+          captureRadius: classSettings.captureRadius,
+        });
+        return res.json(toSessionState(session));
+      }
+
+      const zone = zoneId !== undefined ? await storage.getZone(zoneId) : undefined;
+      if (zoneId !== undefined && !zone) {
+        return res.status(404).json({ message: "Zone not found" });
+      }
+      // A zone brings its own area and hunt rules; questions and capture radius still come from settings
+      const gameSettings = zone ? {
+        ...classSettings,
+        timeLimit: zone.timeLimit,
+        checkpointCount: zone.checkpointCount,
+        rovingCount: zone.rovingCount,
+        zenMode: zone.zenMode,
+      } : classSettings;
+      const center = zone ? { lat: zone.lat, lng: zone.lng } : { lat, lng };
+      const stationaryCount = zone ? zone.checkpointCount : count;
       const rovingCount = gameSettings.rovingCount ?? 2;
       
-      const totalCount = count + rovingCount;
-      const randomQuestions = await storage.getRandomQuestions(totalCount);
-      const customCheckpoints = await storage.getCustomCheckpoints();
+      const totalCount = stationaryCount + rovingCount;
+      const randomQuestions = await selectQuestions(req.user!.id, totalCount, {
+        packIds: packIds ?? gameSettings.packIds,
+        difficulties: difficulties ?? gameSettings.difficulties,
+      }, questionMode ?? gameSettings.questionMode);
+      if (totalCount > 0 && randomQuestions.length === 0) {
+        return res.status(400).json({ message: "No questions match the chosen packs and difficulties" });
+      }
+      const customCheckpoints = (await storage.getCustomCheckpoints())
+        .filter(cp => !zone || isInZone(cp, zone));
       
-      const minDistanceFromCenter = 7; // meters
-      const minDistanceBetweenCheckpoints = 7; // meters
-      const generatedCoords: {lat: number, lng: number}[] = [];
+      const hunt: HuntArea = {
+        center,
+        radius: zone ? zoneSpawnRadius(zone) : radius,
+        areas: await storage.getPlayAreas(),
+        boundary: zone?.boundary,
+      };
+      const coords = placePoints(hunt.center, hunt.radius, randomQuestions.length, hunt.areas, {
+        minFromCenter: zone ? 0 : 7, // meters
+        minBetween: 7, // meters
+        boundary: hunt.boundary,
+      });
 
-      const checkpoints = [
+      const checkpoints: SessionCheckpoint[] = [
         ...randomQuestions.map((q, index) => {
-          let attempts = 0;
-          let finalLat = lat, finalLng = lng;
-          const isRoving = index >= count;
-          
-          while (attempts < 50) {
-            const r = (minDistanceFromCenter + Math.sqrt(Math.random()) * (radius - minDistanceFromCenter)) / 111000;
-            const t = 2 * Math.PI * Math.random();
-            const x = r * Math.cos(t);
-            const y = r * Math.sin(t) / Math.cos(lat * Math.PI / 180);
-            
-            finalLat = lat + x;
-            finalLng = lng + y;
-
-            const distFromStart = getDistance({latitude: lat, longitude: lng}, {latitude: finalLat, longitude: finalLng});
-            const tooCloseToOthers = generatedCoords.some(c => 
-              getDistance({latitude: finalLat, longitude: finalLng}, {latitude: c.lat, longitude: c.lng}) < minDistanceBetweenCheckpoints
-            );
-
-            if (distFromStart >= minDistanceFromCenter && distFromStart <= radius && !tooCloseToOthers) break;
-            attempts++;
-          }
-          
-          generatedCoords.push({lat: finalLat, lng: finalLng});
-          
+          const isRoving = index >= stationaryCount;
           return {
-            id: q.id,
-            lat: finalLat,
-            lng: finalLng,
+            id: 0,
+            questionId: q.id,
+            lat: coords[index].lat,
+            lng: coords[index].lng,
             question: q.question,
             options: q.options,
             points: isRoving ? q.points * 2 : q.points,
             collected: false,
             isCustom: false,
-            isRoving
+            isRoving,
+            movement: isRoving
+              ? buildRovingMovement(coords[index], index - stationaryCount, gameSettings.rovingMovement, gameSettings.rovingFlee, hunt)
+              : undefined,
           };
         }),
         ...customCheckpoints.map(cp => ({
-          id: cp.question.id,
+          id: 0,
+          questionId: cp.question.id,
           lat: cp.lat,
           lng: cp.lng,
           question: cp.question.question,
@@ -75,36 +136,223 @@ export async function registerRoutes(
           isCustom: true,
           isRoving: false
         }))
-      ];
+      ].map((cp, index) => ({ ...cp, id: index + 1 }));
+
+      const session = await startSession(req.user!.id, !!team, {
+        zoneId: zone?.id,
+        checkpoints,
+        timeLimit: gameSettings.zenMode ? null : gameSettings.timeLimit,
+        captureRadius: gameSettings.captureRadius,
+      });
 
-      res.json(checkpoints);
+      res.json(toSessionState(session));
     } catch (err) {
+      if (err instanceof PlacementError) {
+        return res.status(400).json({ message: err.message });
+      }
       res.status(400).json({ message: "Generation failed" });
     }
   });
 
-  // Get all questions (for settings page dropdown)
-  app.get("/api/questions", async (req, res) => {
-    const questions = await storage.getAllQuestions();
-    res.json(questions);
+  // Resume a hunt, e.g. after the page was reloaded
+  app.get(api.game.getSession.path, requireUser, async (req, res) => {
+    const session = await findSession(req.params.id, req.user!.id);
+    if (!session) {
+      return res.status(404).json({ message: "Hunt not found" });
+    }
+    res.json(toSessionState(session));
+  });
+
+  // Teammates join by code and from then on share the host's checkpoints
+  app.post(api.game.joinTeam.path, requireUser, async (req, res) => {
+    try {
+      const { teamCode } = api.game.joinTeam.input.parse(req.body);
+      const session = await storage.getGameSessionByTeamCode(teamCode);
+      if (!session) {
+        return res.status(404).json({ message: "No team hunt has that code" });
+      }
+      if (session.completedAt || isExpired(session)) {
+        return res.status(409).json({ message: "That team hunt has ended" });
+      }
+
+      // A repeated or simultaneous join leaves the one membership there is
+      if (await storage.addTeamMember(session.id, req.user!.id)) {
+        broadcastToHunt(session.id, await huntStateMessage(session));
+      }
+      res.json(toSessionState(session));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Polled during a hunt. Reporting where the player is lets fleeing checkpoints dash away.
+  app.post(api.game.roving.path, requireUser, async (req, res) => {
+    try {
+      const player = api.game.roving.input.parse(req.body);
+      let session = await findSession(req.params.id, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Hunt not found" });
+      }
+
+      if (player.lat !== undefined && player.lng !== undefined && !session.completedAt) {
+        const fleeing = session.checkpoints.filter(cp => cp.movement?.flee);
+        if (fleeing.length > 0) {
+          const zone = session.zoneId ? await storage.getZone(session.zoneId) : undefined;
+          const restrictions = { areas: await storage.getPlayAreas(), boundary: zone?.boundary };
+          let moved = false;
+          for (const cp of fleeing) {
+            const movement = fleeFrom(cp, session.startedAt, { lat: player.lat, lng: player.lng }, restrictions);
+            if (movement) {
+              await storage.updateRovingMovement(session.id, cp.id, movement);
+              moved = true;
+            }
+          }
+          if (moved) session = (await storage.getGameSession(session.id))!;
+        }
+      }
+
+      const now = new Date();
+      res.json(session.checkpoints
+        .filter(cp => cp.movement && !cp.collected)
+        .map(cp => ({ id: cp.id, ...rovingPosition(cp, session!.startedAt, now), fleeing: isFleeing(cp, now) })));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.game.complete.path, requireUser, async (req, res) => {
+    const session = await findSession(req.params.id, req.user!.id);
+    if (!session) {
+      return res.status(404).json({ message: "Hunt not found" });
+    }
+    if (session.completedAt) {
+      return res.status(409).json({ message: "This hunt was already completed" });
+    }
+    if (session.checkpoints.some(cp => !cp.collected)) {
+      return res.status(409).json({ message: "There are still checkpoints to collect" });
+    }
+
+    const finished = await finishHunt(session);
+    if (!finished) {
+      return res.status(409).json({ message: "This hunt was already completed" });
+    }
+    res.json({
+      ...toSessionState(finished.session),
+      // Team members hear about theirs over the hunt socket
+      achievements: session.teamCode ? [] : finished.earned.get(req.user!.id) ?? [],
+      streak: finished.streaks.get(req.user!.id) ?? null,
+    });
+  });
+
+  app.post(api.game.track.path, requireUser, async (req, res) => {
+    try {
+      const { points } = api.game.track.input.parse(req.body);
+      const session = await findSession(req.params.id, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Hunt not found" });
+      }
+      if (session.completedAt || isExpired(session)) {
+        return res.status(409).json({ message: "This hunt has ended" });
+      }
+
+      const stored = await storage.countTrackPoints(session.id, req.user!.id);
+      const last = await storage.getLastTrackPoint(session.id, req.user!.id);
+      const kept = thinTrack(points, last, session.startedAt).slice(0, Math.max(0, MAX_TRACK_POINTS - stored));
+      await storage.addTrackPoints(kept.map(fix => ({ ...fix, sessionId: session.id, userId: req.user!.id })));
+      // Distance walked comes from the track the server kept, never from the client's say-so
+      const meters = walkedDistance(kept, last);
+      const achievements = meters >= 1 ? await recordGameEvent(req.user!.id, { type: "distanceWalked", meters }) : [];
+      res.json({ kept: kept.length, achievements });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.game.history.path, requireUser, async (req, res) => {
+    const sessions = await storage.getPlayerSessions(req.user!.id, HUNT_HISTORY_SIZE);
+    res.json(sessions.map(toHuntSummary));
+  });
+
+  // The player's own path through the hunt and when each checkpoint fell. A trail still
+  // being walked only shows the stops reached so far, as in the game.
+  app.get(api.game.replay.path, requireUser, async (req, res) => {
+    const session = await findSession(req.params.id, req.user!.id);
+    if (!session) {
+      return res.status(404).json({ message: "Hunt not found" });
+    }
+
+    const track = await storage.getTrack(session.id, req.user!.id);
+    res.json({
+      hunt: toHuntSummary(session),
+      track: track.map(p => ({ lat: p.lat, lng: p.lng, at: p.recordedAt.toISOString() })),
+      checkpoints: revealedCheckpoints(session).map(cp => ({
+        ...toCheckpointState(cp, session.startedAt),
+        collectedAt: cp.collectedAt ?? null,
+      })),
+    });
   });
 
-  app.get(api.game.getSettings.path, async (req, res) => {
-    const s = await storage.getSettings();
-    res.json(s);
+  // Without ?classId this is the settings the signed-in player's hunts use
+  app.get(api.game.getSettings.path, requireUser, async (req, res) => {
+    try {
+      const { classId = req.user!.classId } = api.game.getSettings.input.parse(req.query);
+      if (classId !== null && classId !== req.user!.classId) {
+        const cls = await storage.getClass(classId);
+        if (!cls) {
+          return res.status(404).json({ message: "Class not found" });
+        }
+        if (cls.teacherId !== req.user!.id) {
+          return res.status(403).json({ message: "That isn't your class" });
+        }
+      }
+      res.json(await storage.getSettings(classId));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
   });
 
-  app.post(api.game.updateSettings.path, async (req, res) => {
+  // The default row is what every classless player's hunts use, so only teachers change it
+  app.post(api.game.updateSettings.path, requireUser, requireTeacher, async (req, res) => {
     try {
-      const { timeLimit, checkpointCount, rovingCount, radius, mapTheme, zenMode } = req.body;
-      await storage.updateSettings(timeLimit, checkpointCount, rovingCount, radius, mapTheme, zenMode);
+      const { classId, ...update } = api.game.updateSettings.input.parse(req.body);
+      if (classId) {
+        const cls = await storage.getClass(classId);
+        if (!cls || cls.teacherId !== req.user!.id) {
+          return res.status(403).json({ message: "Only this class's teacher can change its settings" });
+        }
+      }
+      await storage.updateSettings(update, classId);
       res.json({ success: true });
     } catch (err) {
       res.status(400).json({ message: "Invalid settings" });
     }
   });
 
-  app.post(api.game.addCustomCheckpoint.path, async (req, res) => {
+  app.post(api.game.addCustomCheckpoint.path, requireUser, requireTeacher, async (req, res) => {
     try {
       const input = api.game.addCustomCheckpoint.input.parse(req.body);
       const cp = await storage.addCustomCheckpoint(input);
@@ -115,25 +363,99 @@ export async function registerRoutes(
   });
 
   // Verify Answer
-  app.post(api.game.verify.path, async (req, res) => {
+  app.post(api.game.verify.path, requireUser, idempotent, async (req, res, next) => {
     try {
-      const { questionId, answer } = api.game.verify.input.parse(req.body);
-      const question = await storage.getQuestion(questionId);
-      
+      const { sessionId, checkpointId, answer, lat, lng, accuracy, answeredAt } = api.game.verify.input.parse(req.body);
+      const session = await findSession(sessionId, req.user!.id);
+      const checkpoint = session?.checkpoints.find(cp => cp.id === checkpointId);
+
+      if (!session || !checkpoint) {
+        return res.status(404).json({ message: "Checkpoint not found in this hunt" });
+      }
+      // An answer replayed from the offline queue, under its Idempotency-Key, is judged at
+      // the time it was given. That can't be later than now, nor earlier than the player's
+      // last fix the server has stored or the hunt's start. Anything else is judged on arrival.
+      const now = Date.now();
+      let at = new Date(now);
+      if (answeredAt && req.get("Idempotency-Key")) {
+        const lastFix = await storage.getLastTrackPoint(session.id, req.user!.id);
+        const earliest = Math.max(session.startedAt.getTime(), lastFix?.recordedAt.getTime() ?? 0);
+        at = new Date(Math.min(now, Math.max(earliest, Date.parse(answeredAt))));
+      }
+      if (session.completedAt || isExpired(session, at)) {
+        return res.status(409).json({ message: "This hunt has ended" });
+      }
+      if (checkpoint.collected) {
+        return res.status(409).json({ message: "Checkpoint already collected" });
+      }
+      if (session.huntType === "trail" && checkpoint.id !== nextTrailStop(session)?.id) {
+        return res.status(409).json({ message: "That stop isn't unlocked yet. Finish the current stop first." });
+      }
+
+      // Give the benefit of the doubt for GPS error, but never more than the radius itself.
+      // Roving checkpoints are wherever the server had moved them to when the player answered.
+      const position = rovingPosition(checkpoint, session.startedAt, at);
+      const distance = getDistance({ latitude: lat, longitude: lng }, { latitude: position.lat, longitude: position.lng });
+      if (distance > session.captureRadius + Math.min(accuracy, session.captureRadius)) {
+        return res.status(403).json({
+          message: `Get closer! You're ${distance}m away; you need to be within ${session.captureRadius}m.`,
+          distance,
+          captureRadius: session.captureRadius,
+        });
+      }
+
+      const question = await storage.getQuestion(checkpoint.questionId);
       if (!question) {
         return res.status(404).json({ message: "Question not found" });
       }
 
       const isCorrect = question.answer.toLowerCase() === answer.toLowerCase();
       
+      let nextCheckpoint: Checkpoint | null | undefined;
+      let achievements: Achievement[] = [];
       if (isCorrect) {
-        await storage.addPoints(question.points);
+        let collected = await storage.collectSessionCheckpoint(session.id, checkpoint.id, checkpoint.movement ? position : undefined);
+        if (!collected) {
+          return res.status(409).json({ message: "Checkpoint already collected" });
+        }
+        await recordCheckpointPoints(req.user!, session.id, checkpoint, question.points);
+        achievements = await recordGameEvent(req.user!.id, { type: "answeredCorrectly", roving: !!checkpoint.movement });
+        // The capture goes on the player's track as-is, so the replay path reaches the checkpoint
+        await storage.addTrackPoints([{ sessionId: session.id, userId: req.user!.id, lat, lng, accuracy: Math.round(accuracy), recordedAt: at }]);
+        if (collected.huntType === "trail") {
+          const next = nextTrailStop(collected);
+          nextCheckpoint = next ? toCheckpointState(next, collected.startedAt) : null;
+        }
+
+        // Teammates hear about it straight away, and the last find ends the hunt for everyone
+        if (collected.teamCode) {
+          await storage.creditTeamMember(collected.id, req.user!.id, checkpoint.points);
+          broadcastToHunt(collected.id, {
+            type: "collected",
+            checkpointId: checkpoint.id,
+            userId: req.user!.id,
+            nickname: req.user!.nickname,
+            points: checkpoint.points,
+          });
+          if (collected.checkpoints.every(cp => cp.collected)) {
+            collected = (await finishHunt(collected))?.session ?? collected;
+          }
+          broadcastToHunt(collected.id, await huntStateMessage(collected));
+        }
       }
+      await storage.recordAnswer({
+        userId: req.user!.id,
+        questionId: question.id,
+        sessionId: session.id,
+        correct: isCorrect,
+      });
 
       res.json({
         correct: isCorrect,
-        points: isCorrect ? question.points : 0,
-        message: isCorrect ? `Correct! +${question.points} points` : "Incorrect. Try again!",
+        points: isCorrect ? checkpoint.points : 0,
+        message: isCorrect ? `Correct! +${checkpoint.points} points` : "Incorrect. Try again!",
+        nextCheckpoint,
+        achievements,
       });
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -142,14 +464,16 @@ export async function registerRoutes(
           field: err.errors[0].path.join('.'),
         });
       }
-      throw err;
+      // Thrown, it would never be answered, leaving the idempotency key claimed; the
+      // error handler's 500 releases it
+      next(err);
     }
   });
 
   // User Stats
-  app.get("/api/stats", async (req, res) => {
-    const stats = await storage.getUserStats();
-    res.json(stats);
+  app.get("/api/stats", requireUser, async (req, res) => {
+    const stats = await storage.getUserStats(req.user!.id);
+    res.json({ ...stats, ...(await getPointsSummary(req.user!)) });
   });
 
   app.get("/api/checkpoints/all", async (req, res) => {
@@ -166,68 +490,151 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/checkpoints/:id", async (req, res) => {
+  app.post(api.game.importCustomCheckpoints.path, requireUser, requireTeacher, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { lat, lng } = req.body;
-      // Implement move logic in storage
-      // For now just success
-      res.json({ success: true });
+      const { format, content, packId, choices, dryRun } = api.game.importCustomCheckpoints.input.parse(req.body);
+      if (packId !== undefined && !(await storage.getPack(packId))) {
+        return res.status(400).json({ message: "That pack doesn't exist", field: "packId" });
+      }
+
+      // Handed out in the order they were added to the pack
+      const packQuestions = packId !== undefined
+        ? (await storage.getQuestions({ packIds: [packId] })).sort((a, b) => a.id - b.id)
+        : [];
+      const report = await importCustomCheckpoints(content, format, {
+        packQuestions,
+        choices: new Map(choices.map(c => [c.index, c.questionId])),
+      }, dryRun);
+      res.json(report);
     } catch (err) {
-      res.status(400).json({ message: "Move failed" });
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      if (err instanceof WaypointFileError) {
+        return res.status(400).json({ message: err.message, field: "content" });
+      }
+      throw err;
     }
   });
 
-  app.post("/api/stats/complete-hunt", async (req, res) => {
-    const stats = await storage.getUserStats();
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-    
-    let { currentStreak, longestStreak, lastActivityDate, huntsCompleted, streakFreezes, activityDates } = stats;
-    
-    const hasToday = lastActivityDate === today;
-    const hasYesterday = lastActivityDate === yesterday;
-
-    if (!hasToday) {
-      if (hasYesterday) {
-        currentStreak++;
-      } else if (streakFreezes > 0) {
-        streakFreezes--;
-        currentStreak++;
-      } else {
-        currentStreak = 1;
+  app.get(api.game.exportCustomCheckpoints.path, requireUser, async (req, res) => {
+    const format = geoFileFormatSchema.safeParse(req.query.format ?? "geojson");
+    if (!format.success) {
+      return res.status(400).json({ message: "Format must be gpx or geojson", field: "format" });
+    }
+
+    const custom = await storage.getCustomCheckpoints();
+    const waypoints: GeoWaypoint[] = custom.map(cp => ({
+      lat: cp.lat,
+      lng: cp.lng,
+      name: `Checkpoint ${cp.id}`,
+      question: cp.question.question,
+      points: cp.question.points,
+      collected: false,
+      roving: false,
+    }));
+    const date = new Date().toISOString().split('T')[0];
+    res.setHeader("Content-Type", GEO_CONTENT_TYPES[format.data]);
+    res.setHeader("Content-Disposition", `attachment; filename="checkpoints-${date}.${format.data}"`);
+    res.send(exportGeo({ name: "GeoQuest custom checkpoints", waypoints }, format.data));
+  });
+
+  app.get(api.game.exportHunt.path, requireUser, async (req, res) => {
+    try {
+      const { format, userId = req.user!.id } = api.game.exportHunt.input.parse(req.query);
+      const player = userId === req.user!.id ? req.user! : await storage.getUser(userId);
+      if (player !== req.user!) {
+        const cls = player?.classId ? await storage.getClass(player.classId) : undefined;
+        if (!player || cls?.teacherId !== req.user!.id) {
+          return res.status(403).json({ message: "You can only export hunts of students in your classes" });
+        }
+      }
+
+      const session = await findSession(req.params.id, player.id);
+      if (!session) {
+        return res.status(404).json({ message: "Hunt not found" });
+      }
+
+      const track = await storage.getTrack(session.id, player.id);
+      const date = session.startedAt.toISOString().split('T')[0];
+      res.setHeader("Content-Type", GEO_CONTENT_TYPES[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="hunt-${date}-${player.nickname.replace(/[^\w-]+/g, "_")}.${format}"`);
+      res.send(exportGeo({
+        name: `GeoQuest hunt on ${date}`,
+        waypoints: huntWaypoints(session),
+        track: {
+          name: `${player.nickname}'s track`,
+          points: track.map(p => ({ lat: p.lat, lng: p.lng, at: p.recordedAt.toISOString() })),
+        },
+      }, format));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
       }
+      throw err;
     }
-    
-    streakFreezes++;
-    
-    if (currentStreak > longestStreak) longestStreak = currentStreak;
-    
-    const updatedActivityDates = activityDates || [];
-    if (!updatedActivityDates.includes(today)) {
-      updatedActivityDates.push(today);
+  });
+
+  app.patch(api.game.updateCustomCheckpoint.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Checkpoint id must be a number", field: "id" });
+      }
+      const update = api.game.updateCustomCheckpoint.input.parse(req.body);
+      if (update.questionId !== undefined && !(await storage.getQuestion(update.questionId))) {
+        return res.status(400).json({ message: "That question doesn't exist", field: "questionId" });
+      }
+      const cp = await storage.updateCustomCheckpoint(id, update);
+      if (!cp) {
+        return res.status(404).json({ message: "Checkpoint not found" });
+      }
+      res.json(cp);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
     }
-    
-    const updated = await storage.updateUserStats({
-      currentStreak,
-      longestStreak,
-      lastActivityDate: today,
-      huntsCompleted: huntsCompleted + 1,
-      streakFreezes,
-      activityDates: updatedActivityDates
-    });
-    
-    res.json(updated);
+  });
+
+  app.delete(api.game.deleteCustomCheckpoint.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Checkpoint id must be a number", field: "id" });
+    }
+    if (!(await storage.getCustomCheckpoint(id))) {
+      return res.status(404).json({ message: "Checkpoint not found" });
+    }
+
+    await storage.deleteCustomCheckpoint(id);
+    res.status(204).end();
+  });
+
+  app.get(api.achievements.list.path, requireUser, async (req, res) => {
+    res.json(await getAchievements(req.user!.id));
   });
 
   // Photo Verification using OpenAI Vision
-  app.post("/api/verify-photo", async (req, res) => {
+  app.post("/api/verify-photo", requireUser, idempotent, async (req, res) => {
     try {
       const { itemName, image } = req.body;
       
       if (!image) {
         return res.status(400).json({ message: "Image is required" });
       }
+      if (!natureItems.some(item => item.name === itemName)) {
+        return res.status(400).json({ message: "That isn't one of the Nature Finds items", field: "itemName" });
+      }
 
       // Extract base64 part from data URL if present
       const base64Image = image.includes(",") ? image.split(",")[1] : image;
@@ -263,15 +670,29 @@ export async function registerRoutes(
       const result = JSON.parse(response.choices[0].message.content || "{}");
       const isSuccess = result.verified && result.confidence > 70;
       
-      if (isSuccess) {
-        await storage.addPoints(25);
+      // Another photo of an item already found today is still verified, but earns nothing
+      const today = localDate(new Date(), req.user!.timezone);
+      const place = isSuccess ? await storage.recordNatureFind(req.user!.id, today, itemName) : null;
+      let achievements: Achievement[] = [];
+      let dailyGoal: { streak: HuntStreak } | null = null;
+      if (place !== null) {
+        await storage.recordPoints({ userId: req.user!.id, amount: 25, source: "photo_verify", day: today });
+        achievements = await recordGameEvent(req.user!.id, { type: "natureItemVerified", itemName });
+        // The day's goal counts as a finished hunt, once
+        if (place === NATURE_FINDS_PER_DAY) {
+          const { streak } = await recordHuntCompletion(req.user!.id);
+          achievements = [...achievements, ...(await recordGameEvent(req.user!.id, { type: "huntCompleted" }))];
+          dailyGoal = { streak };
+        }
       }
-      
+
       res.json({
         verified: isSuccess,
         confidence: result.confidence,
         feedback: result.feedback,
-        points: isSuccess ? 25 : 0
+        points: place !== null ? 25 : 0,
+        achievements,
+        dailyGoal
       });
     } catch (err) {
       console.error("Vision verification failed:", err);
@@ -327,3 +748,171 @@ export async function registerRoutes(
 
   return httpServer;
 }
+
+const HUNT_HISTORY_SIZE = 50; // past hunts listed on the Stats page
+const NATURE_FINDS_PER_DAY = 3; // different items found in a day for the daily goal
+
+function isExpired(session: GameSession, at = new Date()): boolean {
+  if (session.timeLimit === null) return false;
+  return at.getTime() > session.startedAt.getTime() + session.timeLimit * 60 * 1000;
+}
+
+// Looks up a session the given player started or joined as a teammate; other
+// players' hunts are treated as missing
+async function findSession(id: string, userId: number): Promise<GameSession | undefined> {
+  if (!z.string().uuid().safeParse(id).success) return undefined;
+  const session = await storage.getGameSession(id);
+  if (!session) return undefined;
+  if (session.userId === userId) return session;
+  return session.teamCode && await storage.getTeamMember(session.id, userId) ? session : undefined;
+}
+
+// A team hunt gets a join code and its host as the first member
+async function startSession(userId: number, team: boolean, values: Omit<InsertGameSession, "userId" | "teamCode">): Promise<GameSession> {
+  let teamCode: string | null = null;
+  while (team && !teamCode) {
+    const code = randomJoinCode();
+    if (!(await storage.getGameSessionByTeamCode(code))) teamCode = code;
+  }
+
+  const session = await storage.createGameSession({ ...values, userId, teamCode });
+  if (teamCode) await storage.addTeamMember(session.id, userId);
+  return session;
+}
+
+// Marks the hunt complete and credits everyone who played it, with the achievements each
+// of them earned by finishing. Team members are told about theirs over the hunt socket.
+// Undefined if the hunt was already complete.
+async function finishHunt(session: GameSession): Promise<{ session: GameSession; earned: Map<number, Achievement[]>; streaks: Map<number, HuntStreak> } | undefined> {
+  const completed = await storage.completeGameSession(session.id);
+  if (!completed) return undefined;
+
+  const players = session.teamCode
+    ? (await storage.getTeamMembers(session.id)).map(m => m.userId)
+    : [session.userId];
+  const earned = new Map<number, Achievement[]>();
+  const streaks = new Map<number, HuntStreak>();
+  for (const userId of players) {
+    const { streak } = await recordHuntCompletion(userId);
+    streaks.set(userId, streak);
+    const achievements = await recordGameEvent(userId, { type: "huntCompleted" });
+    earned.set(userId, achievements);
+    if (session.teamCode) {
+      broadcastToHunt(session.id, { type: "streak", userId, streak });
+      if (achievements.length > 0) broadcastToHunt(session.id, { type: "achievements", userId, achievements });
+    }
+  }
+  return { session: completed, earned, streaks };
+}
+
+async function huntStateMessage(session: GameSession): Promise<HuntSocketMessage> {
+  return {
+    type: "state",
+    session: toSessionState(session),
+    scoreboard: await storage.getTeamScoreboard(session.id),
+  };
+}
+
+// Roving checkpoints are reported where they are at the moment
+function toCheckpointState(checkpoint: SessionCheckpoint, startedAt: Date): Checkpoint {
+  const { questionId, collectedAt, movement, ...cp } = checkpoint;
+  return { ...cp, ...rovingPosition(checkpoint, startedAt) };
+}
+
+// Trail stops are collected strictly in order, so this is also the one to answer next
+function nextTrailStop(session: GameSession): SessionCheckpoint | undefined {
+  return session.checkpoints.find(cp => !cp.collected);
+}
+
+// A trail reveals the stops reached so far plus the next one
+function revealedCheckpoints(session: GameSession): SessionCheckpoint[] {
+  if (session.huntType !== "trail") return session.checkpoints;
+  const next = nextTrailStop(session);
+  return next ? session.checkpoints.filter(cp => cp.collected || cp.id === next.id) : session.checkpoints;
+}
+
+// The stops of a trail as session checkpoints, numbered in walking order
+async function buildTrailCheckpoints(trail: Trail): Promise<SessionCheckpoint[]> {
+  const checkpoints: SessionCheckpoint[] = [];
+  for (const stop of trail.stops) {
+    const question = await storage.getQuestion(stop.questionId);
+    if (!question) continue;
+    const order = checkpoints.length + 1;
+    checkpoints.push({
+      id: order,
+      questionId: question.id,
+      lat: stop.lat,
+      lng: stop.lng,
+      question: question.question,
+      options: question.options,
+      points: question.points,
+      collected: false,
+      isCustom: false,
+      isRoving: false,
+      order,
+      directions: stop.directions || undefined,
+    });
+  }
+  return checkpoints;
+}
+
+// As the player saw them: roving checkpoints where they were caught or are now, and
+// on a trail still being walked only the stops reached so far
+function huntWaypoints(session: GameSession): GeoWaypoint[] {
+  return revealedCheckpoints(session).map((cp, i) => {
+    const state = toCheckpointState(cp, session.startedAt);
+    return {
+      lat: state.lat,
+      lng: state.lng,
+      name: cp.order ? `Stop ${cp.order}` : `Checkpoint ${i + 1}`,
+      question: cp.question,
+      points: cp.points,
+      collected: cp.collected,
+      roving: !!cp.movement,
+      collectedAt: cp.collectedAt ?? null,
+      order: cp.order,
+    };
+  });
+}
+
+// The client-facing view of a session: no question ids, dates as ISO strings
+function toHuntSummary(session: GameSession): HuntSummary {
+  return {
+    id: session.id,
+    huntType: session.huntType,
+    teamCode: session.teamCode,
+    score: session.score,
+    collected: session.checkpoints.filter(cp => cp.collected).length,
+    totalCheckpoints: session.checkpoints.length,
+    startedAt: session.startedAt.toISOString(),
+    completedAt: session.completedAt?.toISOString() ?? null,
+  };
+}
+
+function toSessionState(session: GameSession): GameSessionState {
+  return {
+    id: session.id,
+    huntType: session.huntType,
+    teamCode: session.teamCode,
+    checkpoints: revealedCheckpoints(session).map(cp => toCheckpointState(cp, session.startedAt)),
+    totalCheckpoints: session.checkpoints.length,
+    score: session.score,
+    timeLimit: session.timeLimit,
+    captureRadius: session.captureRadius,
+    startedAt: session.startedAt.toISOString(),
+    completedAt: session.completedAt?.toISOString() ?? null,
+  };
+}
+
+// Updates streaks, freezes and activity dates after a finished hunt, by the player's own
+// calendar and their class's freeze rules
+async function recordHuntCompletion(userId: number): Promise<{ stats: UserStats; streak: HuntStreak }> {
+  const user = await storage.getUser(userId);
+  const stats = await storage.getUserStats(userId);
+  const rules = await storage.getSettings(user?.classId);
+  const today = localDate(new Date(), user?.timezone ?? "UTC");
+
+  const { state, freezeEarned } = completeHunt(stats, today, rules);
+  const updated = await storage.updateUserStats(userId, state);
+  return { stats: updated, streak: { currentStreak: updated.currentStreak, streakFreezes: updated.streakFreezes, freezeEarned } };
+}
@@ -0,0 +1,157 @@
+import { getDistance } from "geolib";
+import type { AreaGeometry, MovementOffset, PlayArea, RovingMovement, RovingMovementMode, SessionCheckpoint } from "@shared/schema";
+import { placePoints, isPlayable, isPointInGeometry, PlacementError } from "./area-geometry";
+
+type Point = { lat: number; lng: number };
+
+// Where a hunt's roving checkpoints may go
+export type HuntArea = {
+  center: Point;
+  radius: number; // meters
+  areas: PlayArea[];
+  boundary?: AreaGeometry | null;
+};
+
+const PATROL_RADIUS = 60; // meters around the spawn point
+const PATROL_SPEED = 1.2; // meters per second, a slow walk
+const WANDER_WAYPOINTS = 6;
+const WANDER_SPEED = 0.8; // meters per second
+
+// A player this close makes a fleeing checkpoint dash away, up to MAX_ESCAPES times
+const FLEE_DISTANCE = 25; // meters
+const DASH_DISTANCE = 40; // meters
+const DASH_SPEED = 4; // meters per second
+const MAX_ESCAPES = 3;
+
+const NO_OFFSET: MovementOffset = { north: 0, east: 0 };
+
+function distance(a: Point, b: Point): number {
+  return getDistance({ latitude: a.lat, longitude: a.lng }, { latitude: b.lat, longitude: b.lng });
+}
+
+function applyOffset(point: Point, offset: MovementOffset): Point {
+  return {
+    lat: point.lat + offset.north / 111000,
+    lng: point.lng + offset.east / (111000 * Math.cos(point.lat * Math.PI / 180)),
+  };
+}
+
+function isAllowed(point: Point, hunt: HuntArea): boolean {
+  return distance(point, hunt.center) <= hunt.radius &&
+    isPlayable(point, hunt.areas) &&
+    (!hunt.boundary || isPointInGeometry(point, hunt.boundary));
+}
+
+// Falls back to standing still when the area has no room for a path
+function tryPlace(center: Point, radius: number, count: number, hunt: HuntArea, minFromCenter: number, minBetween: number): Point[] {
+  try {
+    return placePoints(center, radius, count, hunt.areas, { minFromCenter, minBetween, boundary: hunt.boundary });
+  } catch (err) {
+    if (err instanceof PlacementError) return [];
+    throw err;
+  }
+}
+
+// A patrol loops through a few spots near where the checkpoint spawned; a wanderer
+// roams between spots across the whole hunt area. Both start at the spawn point.
+// Only the waypoints are checked against the play areas, not the straight lines between them.
+export function buildRovingMovement(spawn: Point, index: number, mode: RovingMovementMode, flee: boolean, hunt: HuntArea): RovingMovement {
+  const behaviour = mode === "mixed" ? (index % 2 === 0 ? "patrol" : "wander") : mode;
+  const waypoints = behaviour === "patrol"
+    ? tryPlace(spawn, PATROL_RADIUS, 3, hunt, 20, 20)
+    : tryPlace(hunt.center, hunt.radius, WANDER_WAYPOINTS, hunt, 0, 30);
+
+  return {
+    behaviour,
+    path: [spawn, ...waypoints],
+    speed: behaviour === "patrol" ? PATROL_SPEED : WANDER_SPEED,
+    flee,
+    escapesLeft: flee ? MAX_ESCAPES : 0,
+    center: hunt.center,
+    radius: hunt.radius,
+  };
+}
+
+// The spot a given distance along the path, walked as a closed loop
+function pointAlongPath(path: Point[], traveled: number): Point {
+  const legs = path.map((from, i) => ({ from, to: path[(i + 1) % path.length], length: distance(from, path[(i + 1) % path.length]) }));
+  const loopLength = legs.reduce((sum, leg) => sum + leg.length, 0);
+  if (loopLength === 0) return path[0];
+
+  let remaining = traveled % loopLength;
+  for (const leg of legs) {
+    if (remaining <= leg.length && leg.length > 0) {
+      const t = remaining / leg.length;
+      return { lat: leg.from.lat + (leg.to.lat - leg.from.lat) * t, lng: leg.from.lng + (leg.to.lng - leg.from.lng) * t };
+    }
+    remaining -= leg.length;
+  }
+  return path[0];
+}
+
+function dashDuration(dash: NonNullable<RovingMovement["dash"]>): number {
+  return Math.hypot(dash.to.north - dash.from.north, dash.to.east - dash.from.east) / DASH_SPEED * 1000;
+}
+
+function isDashing(movement: RovingMovement, now: Date): boolean {
+  return !!movement.dash && now.getTime() - new Date(movement.dash.at).getTime() < dashDuration(movement.dash);
+}
+
+function currentOffset(movement: RovingMovement, now: Date): MovementOffset {
+  const dash = movement.dash;
+  if (!dash) return NO_OFFSET;
+  const duration = dashDuration(dash);
+  const t = duration === 0 ? 1 : Math.min(1, (now.getTime() - new Date(dash.at).getTime()) / duration);
+  return {
+    north: dash.from.north + (dash.to.north - dash.from.north) * t,
+    east: dash.from.east + (dash.to.east - dash.from.east) * t,
+  };
+}
+
+// Where the checkpoint is right now. Collected and stationary checkpoints stay put.
+export function rovingPosition(cp: SessionCheckpoint, startedAt: Date, now = new Date()): Point {
+  const movement = cp.movement;
+  if (!movement || cp.collected) return { lat: cp.lat, lng: cp.lng };
+  const elapsed = Math.max(0, (now.getTime() - startedAt.getTime()) / 1000);
+  return applyOffset(pointAlongPath(movement.path, elapsed * movement.speed), currentOffset(movement, now));
+}
+
+export function isFleeing(cp: SessionCheckpoint, now = new Date()): boolean {
+  return !!cp.movement && !cp.collected && isDashing(cp.movement, now);
+}
+
+// If the player is close enough to scare a fleeing checkpoint, the movement with a new dash
+// straight away from them, or turned aside when that way leaves the hunt area. Undefined
+// when it stays put: out of escapes, already dashing, or cornered.
+export function fleeFrom(
+  cp: SessionCheckpoint,
+  startedAt: Date,
+  player: Point,
+  { areas, boundary }: Pick<HuntArea, "areas" | "boundary">,
+  now = new Date(),
+): RovingMovement | undefined {
+  const movement = cp.movement;
+  if (!movement?.flee || cp.collected || movement.escapesLeft <= 0 || isDashing(movement, now)) return undefined;
+  const hunt = { center: movement.center, radius: movement.radius, areas, boundary };
+
+  const position = rovingPosition(cp, startedAt, now);
+  if (distance(position, player) > FLEE_DISTANCE) return undefined;
+
+  const from = currentOffset(movement, now);
+  const away = Math.atan2(
+    (position.lng - player.lng) * Math.cos(position.lat * Math.PI / 180),
+    position.lat - player.lat,
+  );
+  for (const turn of [0, Math.PI / 4, -Math.PI / 4, Math.PI / 2, -Math.PI / 2]) {
+    const bearing = away + turn;
+    const step = { north: Math.cos(bearing) * DASH_DISTANCE, east: Math.sin(bearing) * DASH_DISTANCE };
+    if (!isAllowed(applyOffset(position, step), hunt)) continue;
+
+    return {
+      ...movement,
+      escapesLeft: movement.escapesLeft - 1,
+      dash: { from, to: { north: from.north + step.north, east: from.east + step.east }, at: now.toISOString() },
+    };
+  }
+  return undefined;
+}
@@ -1,29 +1,174 @@
 import { db } from "./db";
-import { questions, type Question, type InsertQuestion, customCheckpoints, settings, type CustomCheckpoint, type InsertCustomCheckpoint, userStats, type UserStats, type InsertUserStats } from "@shared/schema";
-import { eq, sql } from "drizzle-orm";
+import { questions, type Question, type InsertQuestion, questionPacks, type QuestionPack, type InsertQuestionPack, type QuestionFilter, questionAnswers, type QuestionAnswer, type InsertQuestionAnswer, customCheckpoints, settings, playAreas, trails, type Trail, type TrailInput, zones, type Zone, type ZoneInput, type PlayArea, type PlayAreaInput, type CustomCheckpoint, type InsertCustomCheckpoint, userStats, type UserStats, type InsertUserStats, playerAchievements, type PlayerAchievement, natureFinds, pointsLedger, type PointsEntry, type InsertPointsEntry, gameSessions, type GameSession, type InsertGameSession, teamMembers, type TeamMember, type TeamMemberScore, trackPoints, type TrackPoint, type InsertTrackPoint, idempotentRequests, type IdempotentRequest, users, type User, type InsertUser, classes, type Class, type InsertClass, type RosterEntry, type LeaderboardEntry, type LeaderboardWindow, type Settings, type GameSettings, type RovingMovement } from "@shared/schema";
+import { and, asc, count, desc, eq, gte, inArray, isNotNull, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { alias, unionAll } from "drizzle-orm/pg-core";
 
 export interface IStorage {
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByNickname(nickname: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  setLeaderboardNicknameOnly(userId: number, nicknameOnly: boolean): Promise<User>;
+  setUserTimezone(userId: number, timezone: string): Promise<User>;
+
   // Questions
   getAllQuestions(): Promise<Question[]>;
   getQuestion(id: number): Promise<Question | undefined>;
   createQuestion(question: InsertQuestion): Promise<Question>;
-  getRandomQuestions(count: number): Promise<Question[]>;
+  createQuestions(questions: InsertQuestion[]): Promise<Question[]>;
+  getQuestions(filter: QuestionFilter): Promise<Question[]>;
+  getRandomQuestions(count: number, filter?: QuestionFilter): Promise<Question[]>;
+  updateQuestion(id: number, question: Partial<InsertQuestion>): Promise<Question | undefined>;
+  deleteQuestion(id: number): Promise<void>;
+  isQuestionInUse(id: number): Promise<boolean>;
+
+  // Answer History
+  recordAnswer(answer: InsertQuestionAnswer): Promise<QuestionAnswer>;
+  getRecentAnswers(userId: number, limit: number): Promise<(QuestionAnswer & { question: Question })[]>;
+
+  // Question Packs
+  getPacks(): Promise<(QuestionPack & { questionCount: number })[]>;
+  getPack(id: number): Promise<QuestionPack | undefined>;
+  getPackByName(name: string): Promise<QuestionPack | undefined>;
+  createPack(pack: InsertQuestionPack): Promise<QuestionPack>;
+  updatePack(id: number, pack: Partial<InsertQuestionPack>): Promise<QuestionPack | undefined>;
+  deletePack(id: number): Promise<void>;
   
   // Custom Checkpoints
   getCustomCheckpoints(): Promise<(CustomCheckpoint & { question: Question })[]>;
+  getCustomCheckpoint(id: number): Promise<CustomCheckpoint | undefined>;
   addCustomCheckpoint(cp: InsertCustomCheckpoint): Promise<CustomCheckpoint>;
+  addCustomCheckpoints(cps: InsertCustomCheckpoint[]): Promise<CustomCheckpoint[]>;
+  updateCustomCheckpoint(id: number, update: Partial<InsertCustomCheckpoint>): Promise<CustomCheckpoint | undefined>;
+  deleteCustomCheckpoint(id: number): Promise<void>;
   
+  // Play Areas
+  getPlayAreas(): Promise<PlayArea[]>;
+  getPlayArea(id: number): Promise<PlayArea | undefined>;
+  createPlayAreas(areas: PlayAreaInput[]): Promise<PlayArea[]>;
+  deletePlayArea(id: number): Promise<void>;
+
+  // Trails
+  getTrails(): Promise<Trail[]>;
+  getTrail(id: number): Promise<Trail | undefined>;
+  createTrail(trail: TrailInput): Promise<Trail>;
+  updateTrail(id: number, trail: TrailInput): Promise<Trail | undefined>;
+  deleteTrail(id: number): Promise<void>;
+
+  // Zones
+  getZones(): Promise<Zone[]>;
+  getZone(id: number): Promise<Zone | undefined>;
+  getZoneByName(name: string): Promise<Zone | undefined>;
+  createZone(zone: ZoneInput): Promise<Zone>;
+  updateZone(id: number, zone: ZoneInput): Promise<Zone | undefined>;
+  deleteZone(id: number): Promise<void>;
+
+  // Game Sessions
+  createGameSession(session: InsertGameSession): Promise<GameSession>;
+  getGameSession(id: string): Promise<GameSession | undefined>;
+  collectSessionCheckpoint(sessionId: string, checkpointId: number, position?: { lat: number; lng: number }): Promise<GameSession | undefined>;
+  updateRovingMovement(sessionId: string, checkpointId: number, movement: RovingMovement): Promise<void>;
+  getGameSessionByTeamCode(teamCode: string): Promise<GameSession | undefined>;
+
+  // Team hunts
+  addTeamMember(sessionId: string, userId: number): Promise<TeamMember | undefined>;
+  getTeamMember(sessionId: string, userId: number): Promise<TeamMember | undefined>;
+  getTeamMembers(sessionId: string): Promise<TeamMember[]>;
+  getTeamScoreboard(sessionId: string): Promise<TeamMemberScore[]>;
+  creditTeamMember(sessionId: string, userId: number, points: number): Promise<void>;
+  completeGameSession(id: string): Promise<GameSession | undefined>;
+  getPlayerSessions(userId: number, limit: number): Promise<GameSession[]>;
+
+  // Tracks
+  addTrackPoints(points: InsertTrackPoint[]): Promise<void>;
+  getLastTrackPoint(sessionId: string, userId: number): Promise<TrackPoint | undefined>;
+  countTrackPoints(sessionId: string, userId: number): Promise<number>;
+  getTrack(sessionId: string, userId: number): Promise<TrackPoint[]>;
+
+  // Idempotency keys
+  claimIdempotencyKey(userId: number, key: string, route: string): Promise<IdempotentRequest | undefined>;
+  getIdempotentRequest(userId: number, key: string): Promise<IdempotentRequest | undefined>;
+  saveIdempotentResponse(id: number, statusCode: number, body: unknown): Promise<void>;
+  releaseIdempotencyKey(id: number): Promise<void>;
+
+  // Classes
+  createClass(cls: InsertClass): Promise<Class>;
+  getClass(id: number): Promise<Class | undefined>;
+  getClassByJoinCode(joinCode: string): Promise<Class | undefined>;
+  getClassesForTeacher(teacherId: number): Promise<Class[]>;
+  setUserClass(userId: number, classId: number | null): Promise<void>;
+  getClassRoster(classId: number): Promise<RosterEntry[]>;
+
+  // Leaderboards
+  getLeaderboard(filter: { window: LeaderboardWindow; classId?: number; zoneId?: number }): Promise<Omit<LeaderboardEntry, "rank">[]>;
+
   // Settings
-  getSettings(): Promise<{ timeLimit: number; checkpointCount: number; rovingCount: number; radius: number }>;
-  updateSettings(timeLimit: number, checkpointCount: number, rovingCount: number, radius: number): Promise<void>;
+  getSettings(classId?: number | null): Promise<GameSettings>;
+  updateSettings(update: Partial<GameSettings>, classId?: number | null): Promise<void>;
 
   // User Stats
-  getUserStats(): Promise<UserStats>;
-  updateUserStats(stats: Partial<UserStats>): Promise<UserStats>;
-  addPoints(points: number): Promise<UserStats>;
+  getUserStats(userId: number): Promise<UserStats>;
+  updateUserStats(userId: number, stats: Partial<UserStats>): Promise<UserStats>;
+  incrementUserStats(userId: number, increments: Partial<Pick<UserStats, "correctAnswers" | "rovingCaught" | "distanceWalked">>): Promise<UserStats>;
+  addNatureItemFound(userId: number, itemName: string): Promise<UserStats>;
+
+  // Achievements
+  getPlayerAchievements(userId: number): Promise<PlayerAchievement[]>;
+  awardAchievements(userId: number, achievementIds: string[]): Promise<PlayerAchievement[]>;
+
+  // Nature finds
+  recordNatureFind(userId: number, day: string, itemName: string): Promise<number | null>;
+
+  // Points ledger
+  recordPoints(entry: InsertPointsEntry): Promise<PointsEntry>;
+  getPointsTotal(userId: number): Promise<number>;
+  getDailyPoints(userId: number, sinceDay: string): Promise<{ date: string; points: number }[]>;
+  getPointsLedger(userId: number, limit: number): Promise<(PointsEntry & { reversed: boolean })[]>;
+  getPointsEntry(id: number): Promise<PointsEntry | undefined>;
+  reversePointsEntry(entry: PointsEntry, reversal: { note: string; createdBy: number; day: string }): Promise<PointsEntry | undefined>;
+}
+
+// Empty or missing lists don't restrict anything
+function questionFilterCondition(filter: QuestionFilter): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filter.packIds?.length) conditions.push(inArray(questions.packId, filter.packIds));
+  if (filter.difficulties?.length) conditions.push(inArray(questions.difficulty, filter.difficulties));
+  return and(...conditions);
 }
 
 export class DatabaseStorage implements IStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  // Nicknames are matched case-insensitively so "Sam" and "sam" are the same player
+  async getUserByNickname(nickname: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.nickname}) = lower(${nickname})`);
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async setLeaderboardNicknameOnly(userId: number, nicknameOnly: boolean): Promise<User> {
+    const [updated] = await db.update(users)
+      .set({ leaderboardNicknameOnly: nicknameOnly })
+      .where(eq(users.id, userId))
+      .returning();
+    return updated;
+  }
+
+  async setUserTimezone(userId: number, timezone: string): Promise<User> {
+    const [updated] = await db.update(users)
+      .set({ timezone })
+      .where(eq(users.id, userId))
+      .returning();
+    return updated;
+  }
+
   async getAllQuestions(): Promise<Question[]> {
     return await db.select().from(questions);
   }
@@ -39,13 +184,105 @@ export class DatabaseStorage implements IStorage {
       answer: question.answer,
       options: question.options,
       points: question.points ?? 10,
-      difficulty: question.difficulty ?? "easy"
+      difficulty: question.difficulty ?? "easy",
+      packId: question.packId ?? null
     }).returning();
     return newQuestion;
   }
 
-  async getRandomQuestions(count: number): Promise<Question[]> {
-    return await db.select().from(questions).orderBy(sql`RANDOM()`).limit(count);
+  async createQuestions(newQuestions: InsertQuestion[]): Promise<Question[]> {
+    if (newQuestions.length === 0) return [];
+    return await db.insert(questions).values(newQuestions).returning();
+  }
+
+  async getQuestions(filter: QuestionFilter): Promise<Question[]> {
+    return await db.select().from(questions).where(questionFilterCondition(filter));
+  }
+
+  async getRandomQuestions(count: number, filter: QuestionFilter = {}): Promise<Question[]> {
+    return await db.select().from(questions)
+      .where(questionFilterCondition(filter))
+      .orderBy(sql`RANDOM()`)
+      .limit(count);
+  }
+
+  async updateQuestion(id: number, question: Partial<InsertQuestion>): Promise<Question | undefined> {
+    const [updated] = await db.update(questions).set(question).where(eq(questions.id, id)).returning();
+    return updated;
+  }
+
+  async deleteQuestion(id: number): Promise<void> {
+    await db.delete(questions).where(eq(questions.id, id));
+  }
+
+  // Custom checkpoints and trail stops reference questions, so those can't be deleted out from under them
+  async isQuestionInUse(id: number): Promise<boolean> {
+    const [cp] = await db.select({ id: customCheckpoints.id }).from(customCheckpoints)
+      .where(eq(customCheckpoints.questionId, id))
+      .limit(1);
+    const [trail] = await db.select({ id: trails.id }).from(trails)
+      .where(sql`${trails.stops} @> ${JSON.stringify([{ questionId: id }])}::jsonb`)
+      .limit(1);
+    return !!cp || !!trail;
+  }
+
+  async recordAnswer(answer: InsertQuestionAnswer): Promise<QuestionAnswer> {
+    const [recorded] = await db.insert(questionAnswers).values(answer).returning();
+    return recorded;
+  }
+
+  // Newest first
+  async getRecentAnswers(userId: number, limit: number): Promise<(QuestionAnswer & { question: Question })[]> {
+    const rows = await db.select({ answer: questionAnswers, question: questions })
+      .from(questionAnswers)
+      .innerJoin(questions, eq(questionAnswers.questionId, questions.id))
+      .where(eq(questionAnswers.userId, userId))
+      .orderBy(desc(questionAnswers.answeredAt), desc(questionAnswers.id))
+      .limit(limit);
+    return rows.map(r => ({ ...r.answer, question: r.question }));
+  }
+
+  async getPacks(): Promise<(QuestionPack & { questionCount: number })[]> {
+    const rows = await db.select({ pack: questionPacks, questionCount: count(questions.id) })
+      .from(questionPacks)
+      .leftJoin(questions, eq(questions.packId, questionPacks.id))
+      .groupBy(questionPacks.id)
+      .orderBy(questionPacks.name);
+    return rows.map(r => ({ ...r.pack, questionCount: r.questionCount }));
+  }
+
+  async getPack(id: number): Promise<QuestionPack | undefined> {
+    const [pack] = await db.select().from(questionPacks).where(eq(questionPacks.id, id));
+    return pack;
+  }
+
+  async getPackByName(name: string): Promise<QuestionPack | undefined> {
+    const [pack] = await db.select().from(questionPacks).where(sql`lower(${questionPacks.name}) = lower(${name.trim()})`);
+    return pack;
+  }
+
+  async createPack(pack: InsertQuestionPack): Promise<QuestionPack> {
+    const [newPack] = await db.insert(questionPacks).values(pack).returning();
+    return newPack;
+  }
+
+  async updatePack(id: number, pack: Partial<InsertQuestionPack>): Promise<QuestionPack | undefined> {
+    const [updated] = await db.update(questionPacks).set(pack).where(eq(questionPacks.id, id)).returning();
+    return updated;
+  }
+
+  // The pack's questions fall back to "no pack" via the foreign key; settings
+  // that picked the pack forget it so they don't end up matching nothing
+  async deletePack(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const rows = await tx.select().from(settings);
+      for (const row of rows.filter(r => r.packIds.includes(id))) {
+        await tx.update(settings)
+          .set({ packIds: row.packIds.filter(packId => packId !== id) })
+          .where(eq(settings.id, row.id));
+      }
+      await tx.delete(questionPacks).where(eq(questionPacks.id, id));
+    });
   }
 
   async getCustomCheckpoints(): Promise<(CustomCheckpoint & { question: Question })[]> {
@@ -58,41 +295,426 @@ export class DatabaseStorage implements IStorage {
     return results.map(r => ({ ...r.checkpoint, question: r.question }));
   }
 
+  async getCustomCheckpoint(id: number): Promise<CustomCheckpoint | undefined> {
+    const [cp] = await db.select().from(customCheckpoints).where(eq(customCheckpoints.id, id));
+    return cp;
+  }
+
   async addCustomCheckpoint(cp: InsertCustomCheckpoint): Promise<CustomCheckpoint> {
     const [newCp] = await db.insert(customCheckpoints).values(cp).returning();
     return newCp;
   }
 
-  async getSettings(): Promise<{ timeLimit: number; checkpointCount: number; rovingCount: number; radius: number; mapTheme: string; zenMode: boolean }> {
-    const [s] = await db.select().from(settings);
-    if (!s) return { timeLimit: 30, checkpointCount: 5, rovingCount: 2, radius: 500, mapTheme: "standard", zenMode: false };
+  // One insert, so an import lands whole or not at all
+  async addCustomCheckpoints(cps: InsertCustomCheckpoint[]): Promise<CustomCheckpoint[]> {
+    if (cps.length === 0) return [];
+    return await db.insert(customCheckpoints).values(cps).returning();
+  }
+
+  async updateCustomCheckpoint(id: number, update: Partial<InsertCustomCheckpoint>): Promise<CustomCheckpoint | undefined> {
+    const [updated] = await db.update(customCheckpoints).set(update).where(eq(customCheckpoints.id, id)).returning();
+    return updated;
+  }
+
+  async deleteCustomCheckpoint(id: number): Promise<void> {
+    await db.delete(customCheckpoints).where(eq(customCheckpoints.id, id));
+  }
+
+  async getPlayAreas(): Promise<PlayArea[]> {
+    return await db.select().from(playAreas).orderBy(playAreas.createdAt);
+  }
+
+  async getPlayArea(id: number): Promise<PlayArea | undefined> {
+    const [area] = await db.select().from(playAreas).where(eq(playAreas.id, id));
+    return area;
+  }
+
+  async createPlayAreas(areas: PlayAreaInput[]): Promise<PlayArea[]> {
+    if (areas.length === 0) return [];
+    return await db.insert(playAreas).values(areas).returning();
+  }
+
+  async deletePlayArea(id: number): Promise<void> {
+    await db.delete(playAreas).where(eq(playAreas.id, id));
+  }
+
+  async getTrails(): Promise<Trail[]> {
+    return await db.select().from(trails).orderBy(trails.name);
+  }
+
+  async getTrail(id: number): Promise<Trail | undefined> {
+    const [trail] = await db.select().from(trails).where(eq(trails.id, id));
+    return trail;
+  }
+
+  async createTrail(trail: TrailInput): Promise<Trail> {
+    const [newTrail] = await db.insert(trails).values(trail).returning();
+    return newTrail;
+  }
+
+  async updateTrail(id: number, trail: TrailInput): Promise<Trail | undefined> {
+    const [updated] = await db.update(trails).set(trail).where(eq(trails.id, id)).returning();
+    return updated;
+  }
+
+  async deleteTrail(id: number): Promise<void> {
+    await db.delete(trails).where(eq(trails.id, id));
+  }
+
+  async getZones(): Promise<Zone[]> {
+    return await db.select().from(zones).orderBy(zones.name);
+  }
+
+  async getZone(id: number): Promise<Zone | undefined> {
+    const [zone] = await db.select().from(zones).where(eq(zones.id, id));
+    return zone;
+  }
+
+  async getZoneByName(name: string): Promise<Zone | undefined> {
+    const [zone] = await db.select().from(zones).where(sql`lower(${zones.name}) = lower(${name.trim()})`);
+    return zone;
+  }
+
+  async createZone(zone: ZoneInput): Promise<Zone> {
+    const [newZone] = await db.insert(zones).values(zone).returning();
+    return newZone;
+  }
+
+  async updateZone(id: number, zone: ZoneInput): Promise<Zone | undefined> {
+    const [updated] = await db.update(zones).set(zone).where(eq(zones.id, id)).returning();
+    return updated;
+  }
+
+  async deleteZone(id: number): Promise<void> {
+    await db.delete(zones).where(eq(zones.id, id));
+  }
+
+  async createGameSession(session: InsertGameSession): Promise<GameSession> {
+    const [newSession] = await db.insert(gameSessions).values(session).returning();
+    return newSession;
+  }
+
+  async getGameSession(id: string): Promise<GameSession | undefined> {
+    const [session] = await db.select().from(gameSessions).where(eq(gameSessions.id, id));
+    return session;
+  }
+
+  // Marks a checkpoint collected and adds its points to the session score.
+  // Returns undefined if the checkpoint was already collected (e.g. a double tap).
+  // Roving checkpoints pass the position they were caught at, where they then stay.
+  async collectSessionCheckpoint(sessionId: string, checkpointId: number, position?: { lat: number; lng: number }): Promise<GameSession | undefined> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(gameSessions)
+        .where(eq(gameSessions.id, sessionId))
+        .for("update");
+      const checkpoint = session?.checkpoints.find(cp => cp.id === checkpointId);
+      if (!session || !checkpoint || checkpoint.collected) return undefined;
+
+      const collectedAt = new Date().toISOString();
+      const [updated] = await tx.update(gameSessions)
+        .set({
+          checkpoints: session.checkpoints.map(cp =>
+            cp.id === checkpointId ? { ...cp, ...position, collected: true, collectedAt } : cp
+          ),
+          score: session.score + checkpoint.points,
+        })
+        .where(eq(gameSessions.id, sessionId))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Locked like collecting, so a dash can't undo a capture made at the same moment
+  async updateRovingMovement(sessionId: string, checkpointId: number, movement: RovingMovement): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(gameSessions)
+        .where(eq(gameSessions.id, sessionId))
+        .for("update");
+      const checkpoint = session?.checkpoints.find(cp => cp.id === checkpointId);
+      if (!session || !checkpoint || checkpoint.collected) return;
+
+      await tx.update(gameSessions)
+        .set({ checkpoints: session.checkpoints.map(cp => cp.id === checkpointId ? { ...cp, movement } : cp) })
+        .where(eq(gameSessions.id, sessionId));
+    });
+  }
+
+  async getGameSessionByTeamCode(teamCode: string): Promise<GameSession | undefined> {
+    const [session] = await db.select().from(gameSessions).where(eq(gameSessions.teamCode, teamCode.toUpperCase()));
+    return session;
+  }
+
+  // Returns the new member, or undefined when the player had already joined
+  async addTeamMember(sessionId: string, userId: number): Promise<TeamMember | undefined> {
+    const [member] = await db.insert(teamMembers)
+      .values({ sessionId, userId })
+      .onConflictDoNothing()
+      .returning();
+    return member;
+  }
+
+  async getTeamMember(sessionId: string, userId: number): Promise<TeamMember | undefined> {
+    const [member] = await db.select().from(teamMembers)
+      .where(and(eq(teamMembers.sessionId, sessionId), eq(teamMembers.userId, userId)));
+    return member;
+  }
+
+  async getTeamMembers(sessionId: string): Promise<TeamMember[]> {
+    return await db.select().from(teamMembers).where(eq(teamMembers.sessionId, sessionId));
+  }
+
+  // Highest score first; ties go to whoever joined first
+  async getTeamScoreboard(sessionId: string): Promise<TeamMemberScore[]> {
+    return await db.select({
+      userId: teamMembers.userId,
+      nickname: users.nickname,
+      score: teamMembers.score,
+      collected: teamMembers.collected,
+    })
+      .from(teamMembers)
+      .innerJoin(users, eq(users.id, teamMembers.userId))
+      .where(eq(teamMembers.sessionId, sessionId))
+      .orderBy(desc(teamMembers.score), teamMembers.joinedAt);
+  }
+
+  async creditTeamMember(sessionId: string, userId: number, points: number): Promise<void> {
+    await db.update(teamMembers)
+      .set({ score: sql`${teamMembers.score} + ${points}`, collected: sql`${teamMembers.collected} + 1` })
+      .where(and(eq(teamMembers.sessionId, sessionId), eq(teamMembers.userId, userId)));
+  }
+
+  async completeGameSession(id: string): Promise<GameSession | undefined> {
+    const [updated] = await db.update(gameSessions)
+      .set({ completedAt: new Date() })
+      .where(and(eq(gameSessions.id, id), isNull(gameSessions.completedAt)))
+      .returning();
+    return updated;
+  }
+
+  // Hunts the player hosted or joined as a teammate, newest first
+  async getPlayerSessions(userId: number, limit: number): Promise<GameSession[]> {
+    const joined = db.select({ sessionId: teamMembers.sessionId }).from(teamMembers).where(eq(teamMembers.userId, userId));
+    return await db.select().from(gameSessions)
+      .where(or(eq(gameSessions.userId, userId), inArray(gameSessions.id, joined)))
+      .orderBy(desc(gameSessions.startedAt))
+      .limit(limit);
+  }
+
+  async addTrackPoints(points: InsertTrackPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    await db.insert(trackPoints).values(points);
+  }
+
+  async getLastTrackPoint(sessionId: string, userId: number): Promise<TrackPoint | undefined> {
+    const [point] = await db.select().from(trackPoints)
+      .where(and(eq(trackPoints.sessionId, sessionId), eq(trackPoints.userId, userId)))
+      .orderBy(desc(trackPoints.recordedAt))
+      .limit(1);
+    return point;
+  }
+
+  async countTrackPoints(sessionId: string, userId: number): Promise<number> {
+    const [row] = await db.select({ value: count() }).from(trackPoints)
+      .where(and(eq(trackPoints.sessionId, sessionId), eq(trackPoints.userId, userId)));
+    return row.value;
+  }
+
+  async getTrack(sessionId: string, userId: number): Promise<TrackPoint[]> {
+    return await db.select().from(trackPoints)
+      .where(and(eq(trackPoints.sessionId, sessionId), eq(trackPoints.userId, userId)))
+      .orderBy(trackPoints.recordedAt);
+  }
+
+  // Returns the new claim, or undefined when the player has used the key before
+  async claimIdempotencyKey(userId: number, key: string, route: string): Promise<IdempotentRequest | undefined> {
+    const [claim] = await db.insert(idempotentRequests)
+      .values({ userId, key, route })
+      .onConflictDoNothing()
+      .returning();
+    return claim;
+  }
+
+  async getIdempotentRequest(userId: number, key: string): Promise<IdempotentRequest | undefined> {
+    const [request] = await db.select().from(idempotentRequests)
+      .where(and(eq(idempotentRequests.userId, userId), eq(idempotentRequests.key, key)));
+    return request;
+  }
+
+  async saveIdempotentResponse(id: number, statusCode: number, body: unknown): Promise<void> {
+    await db.update(idempotentRequests).set({ statusCode, body }).where(eq(idempotentRequests.id, id));
+  }
+
+  async releaseIdempotencyKey(id: number): Promise<void> {
+    await db.delete(idempotentRequests).where(eq(idempotentRequests.id, id));
+  }
+
+  async createClass(cls: InsertClass): Promise<Class> {
+    const [newClass] = await db.insert(classes).values(cls).returning();
+    return newClass;
+  }
+
+  async getClass(id: number): Promise<Class | undefined> {
+    const [cls] = await db.select().from(classes).where(eq(classes.id, id));
+    return cls;
+  }
+
+  async getClassByJoinCode(joinCode: string): Promise<Class | undefined> {
+    const [cls] = await db.select().from(classes).where(eq(classes.joinCode, joinCode.toUpperCase()));
+    return cls;
+  }
+
+  async getClassesForTeacher(teacherId: number): Promise<Class[]> {
+    return await db.select().from(classes).where(eq(classes.teacherId, teacherId)).orderBy(classes.createdAt);
+  }
+
+  async setUserClass(userId: number, classId: number | null): Promise<void> {
+    await db.update(users).set({ classId }).where(eq(users.id, userId));
+  }
+
+  // Students who haven't played yet have no stats row or ledger entries, hence the left joins
+  async getClassRoster(classId: number): Promise<RosterEntry[]> {
+    const totals = db.select({
+      userId: pointsLedger.userId,
+      points: sql<number>`sum(${pointsLedger.amount})::int`.as("points"),
+    }).from(pointsLedger).groupBy(pointsLedger.userId).as("totals");
+
+    const rows = await db.select({ user: users, stats: userStats, points: totals.points })
+      .from(users)
+      .leftJoin(userStats, eq(userStats.userId, users.id))
+      .leftJoin(totals, eq(totals.userId, users.id))
+      .where(eq(users.classId, classId))
+      .orderBy(users.nickname);
+
+    return rows.map(({ user, stats, points }) => ({
+      userId: user.id,
+      nickname: user.nickname,
+      totalPoints: points ?? 0,
+      currentStreak: stats?.currentStreak ?? 0,
+      huntsCompleted: stats?.huntsCompleted ?? 0,
+      lastActivityDate: stats?.lastActivityDate ?? null,
+    }));
+  }
+
+  // Every hunt a player took part in counts once, solo or as a teammate, toward the
+  // window it started in. Points are the player's own finds; in a team hunt that's
+  // their share rather than the team's total. Best first, in a stable order.
+  async getLeaderboard({ window, classId, zoneId }: { window: LeaderboardWindow; classId?: number; zoneId?: number }): Promise<Omit<LeaderboardEntry, "rank">[]> {
+    // Windows are in each player's own days, like the ledger's `day`: today, or since
+    // Monday, where they are
+    const firstDay = window === "daily"
+      ? sql`to_char((now() at time zone ${users.timezone})::date, 'YYYY-MM-DD')`
+      : sql`to_char(date_trunc('week', now() at time zone ${users.timezone})::date, 'YYYY-MM-DD')`;
+
+    // Points are whatever the ledger says, reversals, photos and achievements included
+    const earnedConditions: SQL[] = [];
+    if (window !== "all") earnedConditions.push(sql`${pointsLedger.day} >= ${firstDay}`);
+    if (zoneId !== undefined) earnedConditions.push(eq(gameSessions.zoneId, zoneId));
+    const earned = db.select({
+      userId: pointsLedger.userId,
+      points: sql<number>`sum(${pointsLedger.amount})::int`.as("points"),
+    })
+      .from(pointsLedger)
+      .innerJoin(users, eq(users.id, pointsLedger.userId))
+      .leftJoin(gameSessions, eq(gameSessions.id, pointsLedger.sessionId))
+      .where(and(...earnedConditions))
+      .groupBy(pointsLedger.userId)
+      .as("earned");
+
+    const plays = unionAll(
+      db.select({ userId: gameSessions.userId, completedAt: gameSessions.completedAt, zoneId: gameSessions.zoneId })
+        .from(gameSessions)
+        .where(isNull(gameSessions.teamCode)),
+      db.select({ userId: teamMembers.userId, completedAt: gameSessions.completedAt, zoneId: gameSessions.zoneId })
+        .from(teamMembers)
+        .innerJoin(gameSessions, eq(gameSessions.id, teamMembers.sessionId)),
+    ).as("plays");
+    const huntConditions: SQL[] = [isNotNull(plays.completedAt)];
+    // Completion times are stored in UTC
+    if (window !== "all") huntConditions.push(sql`to_char((${plays.completedAt} at time zone 'UTC') at time zone ${users.timezone}, 'YYYY-MM-DD') >= ${firstDay}`);
+    if (zoneId !== undefined) huntConditions.push(eq(plays.zoneId, zoneId));
+    const finished = db.select({
+      userId: plays.userId,
+      hunts: sql<number>`count(*)::int`.as("hunts"),
+    })
+      .from(plays)
+      .innerJoin(users, eq(users.id, plays.userId))
+      .where(and(...huntConditions))
+      .groupBy(plays.userId)
+      .as("finished");
+
+    const points = sql<number>`coalesce(${earned.points}, 0)`;
+    const huntsCompleted = sql<number>`coalesce(${finished.hunts}, 0)`;
+    const longestStreak = sql<number>`coalesce(${userStats.longestStreak}, 0)`;
+
+    const conditions: SQL[] = [or(isNotNull(earned.userId), isNotNull(finished.userId))!];
+    if (classId !== undefined) conditions.push(eq(users.classId, classId));
+
+    const rows = await db.select({
+      userId: users.id,
+      nickname: users.nickname,
+      nicknameOnly: users.leaderboardNicknameOnly,
+      className: classes.name,
+      points,
+      huntsCompleted,
+      longestStreak,
+    })
+      .from(users)
+      .leftJoin(earned, eq(earned.userId, users.id))
+      .leftJoin(finished, eq(finished.userId, users.id))
+      .leftJoin(classes, eq(classes.id, users.classId))
+      .leftJoin(userStats, eq(userStats.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(points), desc(huntsCompleted), desc(longestStreak), asc(users.id));
+
+    return rows.map(({ nicknameOnly, className, ...row }) => ({
+      ...row,
+      className: nicknameOnly ? null : className,
+    }));
+  }
+
+  // A class without settings of its own plays with the default (classless) row
+  async getSettings(classId?: number | null): Promise<GameSettings> {
+    const s = (classId ? await this.getSettingsRow(classId) : undefined) ?? await this.getSettingsRow(null);
+    if (!s) return { timeLimit: 30, checkpointCount: 5, rovingCount: 2, rovingMovement: "mixed", rovingFlee: false, radius: 500, mapTheme: "standard", zenMode: false, captureRadius: 20, questionMode: "random", packIds: [], difficulties: [], huntsPerFreeze: 1, maxFreezes: 5 };
     return { 
       timeLimit: s.timeLimit,
       checkpointCount: s.checkpointCount,
       rovingCount: s.rovingCount,
+      rovingMovement: s.rovingMovement ?? "mixed",
+      rovingFlee: s.rovingFlee ?? false,
       radius: s.radius,
       mapTheme: s.mapTheme ?? "standard",
-      zenMode: s.zenMode ?? false
+      zenMode: s.zenMode ?? false,
+      captureRadius: s.captureRadius ?? 20,
+      questionMode: s.questionMode ?? "random",
+      packIds: s.packIds ?? [],
+      difficulties: s.difficulties ?? [],
+      huntsPerFreeze: s.huntsPerFreeze ?? 1,
+      maxFreezes: s.maxFreezes ?? 5
     };
   }
 
-  async updateSettings(timeLimit: number, checkpointCount: number, rovingCount: number, radius: number, mapTheme?: string, zenMode?: boolean): Promise<void> {
-    const [s] = await db.select().from(settings);
-    const updateData = { timeLimit, checkpointCount, rovingCount, radius };
-    if (mapTheme !== undefined) (updateData as any).mapTheme = mapTheme;
-    if (zenMode !== undefined) (updateData as any).zenMode = zenMode;
+  async updateSettings(update: Partial<GameSettings>, classId?: number | null): Promise<void> {
+    const s = await this.getSettingsRow(classId ?? null);
     
     if (s) {
-      await db.update(settings).set(updateData).where(eq(settings.id, s.id));
+      await db.update(settings).set(update).where(eq(settings.id, s.id));
     } else {
-      await db.insert(settings).values({ ...updateData, mapTheme: mapTheme ?? "standard", zenMode: zenMode ?? false });
+      await db.insert(settings).values({ ...update, classId: classId ?? null });
     }
   }
 
-  async getUserStats(): Promise<UserStats> {
-    const [stats] = await db.select().from(userStats);
+  private async getSettingsRow(classId: number | null): Promise<Settings | undefined> {
+    const [s] = await db.select().from(settings)
+      .where(classId === null ? isNull(settings.classId) : eq(settings.classId, classId));
+    return s;
+  }
+
+  async getUserStats(userId: number): Promise<UserStats> {
+    const [stats] = await db.select().from(userStats).where(eq(userStats.userId, userId));
     if (!stats) {
       const [newStats] = await db.insert(userStats).values({
+        userId,
         totalPoints: 0,
         currentStreak: 0,
         longestStreak: 0,
@@ -105,8 +727,8 @@ export class DatabaseStorage implements IStorage {
     return stats;
   }
 
-  async updateUserStats(statsUpdate: Partial<UserStats>): Promise<UserStats> {
-    const stats = await this.getUserStats();
+  async updateUserStats(userId: number, statsUpdate: Partial<UserStats>): Promise<UserStats> {
+    const stats = await this.getUserStats(userId);
     const [updated] = await db.update(userStats)
       .set(statsUpdate)
       .where(eq(userStats.id, stats.id))
@@ -114,36 +736,129 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async addPoints(points: number): Promise<UserStats> {
-    const stats = await this.getUserStats();
-    const today = new Date().toISOString().split('T')[0];
-    
-    let history = [...(stats.pointsHistory as {date: string, points: number}[])];
-    const todayIndex = history.findIndex(h => h.date === today);
-    
-    if (todayIndex >= 0) {
-      history[todayIndex].points += points;
-    } else {
-      history.push({ date: today, points });
+  // Added in SQL so reports that arrive together aren't lost
+  async incrementUserStats(userId: number, increments: Partial<Pick<UserStats, "correctAnswers" | "rovingCaught" | "distanceWalked">>): Promise<UserStats> {
+    const stats = await this.getUserStats(userId);
+    const update: Partial<Record<keyof typeof increments, SQL>> = {};
+    for (const [key, amount] of Object.entries(increments) as [keyof typeof increments, number][]) {
+      update[key] = sql`${userStats[key]} + ${amount}`;
     }
+    if (Object.keys(update).length === 0) return stats;
 
-    if (history.length > 30) history = history.slice(-30);
-    
-    const activityDates = stats.activityDates || [];
-    if (!activityDates.includes(today)) {
-      activityDates.push(today);
-    }
+    const [updated] = await db.update(userStats)
+      .set(update)
+      .where(eq(userStats.id, stats.id))
+      .returning();
+    return updated;
+  }
+
+  async addNatureItemFound(userId: number, itemName: string): Promise<UserStats> {
+    const stats = await this.getUserStats(userId);
+    if (stats.natureItemsFound.includes(itemName)) return stats;
 
     const [updated] = await db.update(userStats)
-      .set({ 
-        totalPoints: stats.totalPoints + points,
-        pointsHistory: history,
-        activityDates
-      })
+      .set({ natureItemsFound: [...stats.natureItemsFound, itemName] })
       .where(eq(userStats.id, stats.id))
       .returning();
     return updated;
   }
+
+  async getPlayerAchievements(userId: number): Promise<PlayerAchievement[]> {
+    return await db.select().from(playerAchievements)
+      .where(eq(playerAchievements.userId, userId))
+      .orderBy(playerAchievements.earnedAt);
+  }
+
+  // Only the ones the player didn't already have come back
+  async awardAchievements(userId: number, achievementIds: string[]): Promise<PlayerAchievement[]> {
+    if (achievementIds.length === 0) return [];
+    return await db.insert(playerAchievements)
+      .values(achievementIds.map(achievementId => ({ userId, achievementId })))
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  // The find's place among the player's finds that day (1 for the first), or null when
+  // they'd already found that item that day. Counting up to its own id keeps two photos
+  // checked at once from both, or neither, coming in third.
+  async recordNatureFind(userId: number, day: string, itemName: string): Promise<number | null> {
+    const [find] = await db.insert(natureFinds)
+      .values({ userId, day, itemName })
+      .onConflictDoNothing()
+      .returning();
+    if (!find) return null;
+
+    const [row] = await db.select({ value: count() }).from(natureFinds)
+      .where(and(eq(natureFinds.userId, userId), eq(natureFinds.day, day), lte(natureFinds.id, find.id)));
+    return row.value;
+  }
+
+  // Also marks the entry's day as active on the player's calendar
+  async recordPoints(entry: InsertPointsEntry): Promise<PointsEntry> {
+    const [recorded] = await db.insert(pointsLedger).values(entry).returning();
+    const stats = await this.getUserStats(entry.userId);
+    if (!stats.activityDates.includes(entry.day)) {
+      await db.update(userStats)
+        .set({ activityDates: [...stats.activityDates, entry.day] })
+        .where(eq(userStats.id, stats.id));
+    }
+    return recorded;
+  }
+
+  async getPointsTotal(userId: number): Promise<number> {
+    const [row] = await db.select({ total: sql<number>`coalesce(sum(${pointsLedger.amount}), 0)::int` })
+      .from(pointsLedger)
+      .where(eq(pointsLedger.userId, userId));
+    return row.total;
+  }
+
+  // Net points per local day from `sinceDay` on, oldest first; days without entries are left out
+  async getDailyPoints(userId: number, sinceDay: string): Promise<{ date: string; points: number }[]> {
+    return await db.select({ date: pointsLedger.day, points: sql<number>`sum(${pointsLedger.amount})::int` })
+      .from(pointsLedger)
+      .where(and(eq(pointsLedger.userId, userId), gte(pointsLedger.day, sinceDay)))
+      .groupBy(pointsLedger.day)
+      .orderBy(pointsLedger.day);
+  }
+
+  // Newest first, each flagged if a later reversal undid it
+  async getPointsLedger(userId: number, limit: number): Promise<(PointsEntry & { reversed: boolean })[]> {
+    const reversals = alias(pointsLedger, "reversals");
+    const rows = await db.select({ entry: pointsLedger, reversalId: reversals.id })
+      .from(pointsLedger)
+      .leftJoin(reversals, eq(reversals.reversalOf, pointsLedger.id))
+      .where(eq(pointsLedger.userId, userId))
+      .orderBy(desc(pointsLedger.createdAt), desc(pointsLedger.id))
+      .limit(limit);
+    return rows.map(({ entry, reversalId }) => ({ ...entry, reversed: reversalId !== null }));
+  }
+
+  async getPointsEntry(id: number): Promise<PointsEntry | undefined> {
+    const [entry] = await db.select().from(pointsLedger).where(eq(pointsLedger.id, id));
+    return entry;
+  }
+
+  // The reversal cancels the entry's amount and keeps what it was for. Undefined if the
+  // entry has already been reversed, which the unique reversal_of enforces under races.
+  async reversePointsEntry(entry: PointsEntry, { note, createdBy, day }: { note: string; createdBy: number; day: string }): Promise<PointsEntry | undefined> {
+    const [reversal] = await db.insert(pointsLedger)
+      .values({
+        userId: entry.userId,
+        amount: -entry.amount,
+        source: "reversal",
+        checkpointId: entry.checkpointId,
+        questionId: entry.questionId,
+        sessionId: entry.sessionId,
+        achievementId: entry.achievementId,
+        day,
+        reversalOf: entry.id,
+        note,
+        createdBy,
+      })
+      .onConflictDoNothing()
+      .returning();
+    return reversal;
+  }
 }
 
 export const storage = new DatabaseStorage();
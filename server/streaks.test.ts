@@ -0,0 +1,115 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { completeHunt, localDate, type FreezeRules, type StreakState } from "./streaks";
+
+const NO_FREEZES: FreezeRules = { huntsPerFreeze: 0, maxFreezes: 0 };
+
+function streak(overrides: Partial<StreakState> = {}): StreakState {
+  return {
+    currentStreak: 3,
+    longestStreak: 5,
+    lastActivityDate: "2024-05-01",
+    huntsCompleted: 10,
+    streakFreezes: 0,
+    activityDates: ["2024-04-29", "2024-04-30", "2024-05-01"],
+    frozenDates: [],
+    ...overrides,
+  };
+}
+
+describe("localDate", () => {
+  it("gives the calendar date where the player is", () => {
+    const at = new Date("2024-03-10T03:30:00Z");
+    assert.equal(localDate(at, "UTC"), "2024-03-10");
+    assert.equal(localDate(at, "America/New_York"), "2024-03-09");
+    assert.equal(localDate(at, "Pacific/Auckland"), "2024-03-10");
+  });
+
+  it("rolls over at local midnight", () => {
+    assert.equal(localDate(new Date("2024-05-02T06:59:59Z"), "America/Los_Angeles"), "2024-05-01");
+    assert.equal(localDate(new Date("2024-05-02T07:00:00Z"), "America/Los_Angeles"), "2024-05-02");
+  });
+});
+
+describe("completeHunt", () => {
+  it("starts a streak with the first hunt", () => {
+    const { state } = completeHunt(streak({ currentStreak: 0, longestStreak: 0, lastActivityDate: null, activityDates: [] }), "2024-05-01", NO_FREEZES);
+    assert.equal(state.currentStreak, 1);
+    assert.equal(state.longestStreak, 1);
+    assert.equal(state.lastActivityDate, "2024-05-01");
+    assert.deepEqual(state.activityDates, ["2024-05-01"]);
+  });
+
+  it("extends the streak on the next day", () => {
+    const { state } = completeHunt(streak(), "2024-05-02", NO_FREEZES);
+    assert.equal(state.currentStreak, 4);
+    assert.equal(state.lastActivityDate, "2024-05-02");
+    assert.deepEqual(state.activityDates.slice(-1), ["2024-05-02"]);
+  });
+
+  it("leaves the streak alone for a second hunt on the same day", () => {
+    const before = streak();
+    const { state } = completeHunt(before, "2024-05-01", NO_FREEZES);
+    assert.equal(state.currentStreak, 3);
+    assert.equal(state.huntsCompleted, 11);
+    assert.deepEqual(state.activityDates, before.activityDates);
+  });
+
+  it("spends a freeze on a missed day", () => {
+    const { state } = completeHunt(streak({ streakFreezes: 2 }), "2024-05-03", NO_FREEZES);
+    assert.equal(state.currentStreak, 4);
+    assert.equal(state.streakFreezes, 1);
+    assert.deepEqual(state.frozenDates, ["2024-05-02"]);
+  });
+
+  it("starts over and keeps the freezes when the gap is longer than they cover", () => {
+    const { state } = completeHunt(streak({ streakFreezes: 2 }), "2024-05-05", NO_FREEZES);
+    assert.equal(state.currentStreak, 1);
+    assert.equal(state.longestStreak, 5);
+    assert.equal(state.streakFreezes, 2);
+    assert.deepEqual(state.frozenDates, []);
+  });
+
+  it("earns a freeze every huntsPerFreeze hunts", () => {
+    const rules = { huntsPerFreeze: 3, maxFreezes: 5 };
+    const earned = completeHunt(streak({ huntsCompleted: 11 }), "2024-05-02", rules);
+    assert.equal(earned.freezeEarned, true);
+    assert.equal(earned.state.streakFreezes, 1);
+
+    const notYet = completeHunt(streak({ huntsCompleted: 10 }), "2024-05-02", rules);
+    assert.equal(notYet.freezeEarned, false);
+    assert.equal(notYet.state.streakFreezes, 0);
+  });
+
+  it("stops earning freezes at maxFreezes", () => {
+    const rules = { huntsPerFreeze: 1, maxFreezes: 2 };
+    const atCap = completeHunt(streak({ streakFreezes: 2 }), "2024-05-02", rules);
+    assert.equal(atCap.freezeEarned, false);
+    assert.equal(atCap.state.streakFreezes, 2);
+
+    const belowCap = completeHunt(streak({ streakFreezes: 1 }), "2024-05-02", rules);
+    assert.equal(belowCap.freezeEarned, true);
+    assert.equal(belowCap.state.streakFreezes, 2);
+  });
+
+  it("never earns freezes when huntsPerFreeze is 0", () => {
+    const { state, freezeEarned } = completeHunt(streak(), "2024-05-02", { huntsPerFreeze: 0, maxFreezes: 5 });
+    assert.equal(freezeEarned, false);
+    assert.equal(state.streakFreezes, 0);
+  });
+
+  it("counts an evening hunt towards the player's own day, not UTC's", () => {
+    // 11pm on May 1st in Los Angeles is already May 2nd in UTC
+    const evening = localDate(new Date("2024-05-02T06:00:00Z"), "America/Los_Angeles");
+    assert.equal(completeHunt(streak(), evening, NO_FREEZES).state.currentStreak, 3);
+
+    const nextMorning = localDate(new Date("2024-05-02T15:00:00Z"), "America/Los_Angeles");
+    assert.equal(completeHunt(streak(), nextMorning, NO_FREEZES).state.currentStreak, 4);
+  });
+
+  it("keeps the last activity date when a timezone move puts today before it", () => {
+    const { state } = completeHunt(streak(), "2024-04-30", NO_FREEZES);
+    assert.equal(state.currentStreak, 3);
+    assert.equal(state.lastActivityDate, "2024-05-01");
+  });
+});
@@ -0,0 +1,71 @@
+import type { UserStats } from "@shared/schema";
+
+// How streak freezes are earned; set per class in settings
+export interface FreezeRules {
+  huntsPerFreeze: number; // a freeze for every this many completed hunts, 0 for never
+  maxFreezes: number; // freezes stop accumulating here
+}
+
+export type StreakState = Pick<UserStats,
+  "currentStreak" | "longestStreak" | "lastActivityDate" | "huntsCompleted" | "streakFreezes" | "activityDates" | "frozenDates">;
+
+export interface HuntCompletion {
+  state: StreakState;
+  freezeEarned: boolean; // whether this hunt added a freeze
+}
+
+const DAY_MS = 86400000;
+
+// The calendar date (YYYY-MM-DD) at that moment where the player is
+export function localDate(at: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// The player's streak after finishing a hunt on `today`, their local date. Each day
+// missed since they last played costs one freeze; with too few freezes to cover the
+// gap the streak starts over and the freezes are kept. Playing again on the same day,
+// or on an earlier date after moving timezones, leaves the streak as it is.
+export function completeHunt(state: StreakState, today: string, rules: FreezeRules): HuntCompletion {
+  let { currentStreak, streakFreezes } = state;
+  const frozenDates = [...state.frozenDates];
+
+  const gap = state.lastActivityDate ? daysBetween(state.lastActivityDate, today) : null;
+  if (gap === null) {
+    currentStreak = 1;
+  } else if (gap >= 1) {
+    const missed = gap - 1;
+    if (missed <= streakFreezes) {
+      for (let i = 1; i <= missed; i++) frozenDates.push(addDays(state.lastActivityDate!, i));
+      streakFreezes -= missed;
+      currentStreak++;
+    } else {
+      currentStreak = 1;
+    }
+  }
+
+  const huntsCompleted = state.huntsCompleted + 1;
+  const freezeEarned = rules.huntsPerFreeze > 0 && huntsCompleted % rules.huntsPerFreeze === 0 && streakFreezes < rules.maxFreezes;
+  if (freezeEarned) streakFreezes++;
+
+  const next: StreakState = {
+    currentStreak,
+    longestStreak: Math.max(state.longestStreak, currentStreak),
+    lastActivityDate: gap !== null && gap < 0 ? state.lastActivityDate : today,
+    huntsCompleted,
+    streakFreezes,
+    activityDates: state.activityDates.includes(today) ? state.activityDates : [...state.activityDates, today],
+    frozenDates,
+  };
+  return { state: next, freezeEarned };
+}
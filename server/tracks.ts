@@ -0,0 +1,57 @@
+import { getDistance } from "geolib";
+import type { TrackPointInput } from "@shared/schema";
+
+const MAX_ACCURACY = 30; // meters; a vaguer fix would draw the path through buildings
+const MIN_SPACING = 8; // meters between kept points; closer ones are standing still or jitter
+const MAX_SPEED = 15; // m/s; faster than a bike means a bad fix
+const MAX_WALKING_SPEED = 4; // m/s; a run, the fastest leg that counts as distance walked
+export const MAX_TRACK_POINTS = 2000; // per player per hunt, about four hours of steady walking
+
+export interface TrackFix {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  recordedAt: Date;
+}
+
+// The fixes worth storing from a batch, given the last one already stored. Fixes are
+// taken in time order and anything before the hunt started, after `now` or at or before
+// the last stored fix is dropped, so a batch sent twice adds nothing the second time.
+export function thinTrack(batch: TrackPointInput[], last: TrackFix | undefined, startedAt: Date, now = new Date()): TrackFix[] {
+  const kept: TrackFix[] = [];
+  let previous = last;
+
+  const fixes = batch
+    .map(p => ({ lat: p.lat, lng: p.lng, accuracy: Math.round(p.accuracy), recordedAt: new Date(p.recordedAt) }))
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+  for (const fix of fixes) {
+    if (fix.accuracy > MAX_ACCURACY) continue;
+    if (fix.recordedAt < startedAt || fix.recordedAt > now) continue;
+    if (previous) {
+      const seconds = (fix.recordedAt.getTime() - previous.recordedAt.getTime()) / 1000;
+      if (seconds <= 0) continue;
+      const meters = getDistance({ latitude: previous.lat, longitude: previous.lng }, { latitude: fix.lat, longitude: fix.lng });
+      if (meters < MIN_SPACING || meters / seconds > MAX_SPEED) continue;
+    }
+    kept.push(fix);
+    previous = fix;
+  }
+  return kept;
+}
+
+// How far the player walked through newly kept fixes, on from the last one already
+// stored. Legs faster than a run are left out, so the distance can't outpace the clock.
+export function walkedDistance(kept: TrackFix[], last: TrackFix | undefined): number {
+  let meters = 0;
+  let previous = last;
+  for (const fix of kept) {
+    if (previous) {
+      const seconds = (fix.recordedAt.getTime() - previous.recordedAt.getTime()) / 1000;
+      const leg = getDistance({ latitude: previous.lat, longitude: previous.lng }, { latitude: fix.lat, longitude: fix.lng });
+      if (leg <= seconds * MAX_WALKING_SPEED) meters += leg;
+    }
+    previous = fix;
+  }
+  return meters;
+}
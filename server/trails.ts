@@ -0,0 +1,83 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher } from "./auth";
+import { parseId } from "./params";
+import { api } from "@shared/routes";
+import type { TrailInput } from "@shared/schema";
+
+// The stop number (from 1) whose question doesn't exist, if any
+async function findMissingQuestion(trail: TrailInput): Promise<number | undefined> {
+  for (let i = 0; i < trail.stops.length; i++) {
+    if (!(await storage.getQuestion(trail.stops[i].questionId))) return i + 1;
+  }
+  return undefined;
+}
+
+export function registerTrailRoutes(app: Express) {
+  app.get(api.trails.list.path, async (req, res) => {
+    const trails = await storage.getTrails();
+    res.json(trails);
+  });
+
+  app.post(api.trails.create.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const input = api.trails.create.input.parse(req.body);
+      const missing = await findMissingQuestion(input);
+      if (missing) {
+        return res.status(400).json({ message: `Stop ${missing}'s question doesn't exist`, field: `stops.${missing - 1}.questionId` });
+      }
+      const trail = await storage.createTrail(input);
+      res.status(201).json(trail);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.put(api.trails.update.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Trail id must be a number", field: "id" });
+      }
+      const input = api.trails.update.input.parse(req.body);
+      const missing = await findMissingQuestion(input);
+      if (missing) {
+        return res.status(400).json({ message: `Stop ${missing}'s question doesn't exist`, field: `stops.${missing - 1}.questionId` });
+      }
+      const trail = await storage.updateTrail(id, input);
+      if (!trail) {
+        return res.status(404).json({ message: "Trail not found" });
+      }
+      res.json(trail);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  // Hunts already on the trail keep their own copy of the stops
+  app.delete(api.trails.delete.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Trail id must be a number", field: "id" });
+    }
+    if (!(await storage.getTrail(id))) {
+      return res.status(404).json({ message: "Trail not found" });
+    }
+
+    await storage.deleteTrail(id);
+    res.status(204).end();
+  });
+}
@@ -0,0 +1,97 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireUser, requireTeacher } from "./auth";
+import { parseId } from "./params";
+import { api } from "@shared/routes";
+import { distanceToZone } from "./area-geometry";
+
+// How far outside a zone a player can be and still have it offered in the menu
+const NEARBY_ZONE_DISTANCE = 2000; // meters
+
+export function registerZoneRoutes(app: Express) {
+  app.get(api.zones.list.path, async (req, res) => {
+    const zones = await storage.getZones();
+    res.json(zones);
+  });
+
+  // Closest first, so the zone the player is standing in comes up top
+  app.get(api.zones.nearby.path, requireUser, async (req, res) => {
+    try {
+      const point = api.zones.nearby.input.parse(req.query);
+      const zones = await storage.getZones();
+      const nearby = zones
+        .map(zone => ({ ...zone, distance: Math.round(distanceToZone(point, zone)) }))
+        .filter(zone => zone.distance <= NEARBY_ZONE_DISTANCE)
+        .sort((a, b) => a.distance - b.distance);
+      res.json(nearby);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.zones.create.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const input = api.zones.create.input.parse(req.body);
+      if (await storage.getZoneByName(input.name)) {
+        return res.status(409).json({ message: "A zone with this name already exists" });
+      }
+      const zone = await storage.createZone(input);
+      res.status(201).json(zone);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.put(api.zones.update.path, requireUser, requireTeacher, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Zone id must be a number", field: "id" });
+      }
+      const input = api.zones.update.input.parse(req.body);
+      const sameName = await storage.getZoneByName(input.name);
+      if (sameName && sameName.id !== id) {
+        return res.status(409).json({ message: "A zone with this name already exists" });
+      }
+      const zone = await storage.updateZone(id, input);
+      if (!zone) {
+        return res.status(404).json({ message: "Zone not found" });
+      }
+      res.json(zone);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.zones.delete.path, requireUser, requireTeacher, async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: "Zone id must be a number", field: "id" });
+    }
+    if (!(await storage.getZone(id))) {
+      return res.status(404).json({ message: "Zone not found" });
+    }
+
+    await storage.deleteZone(id);
+    res.status(204).end();
+  });
+}
@@ -0,0 +1,29 @@
+import type { AchievementStat } from "./schema";
+import { natureItems } from "./nature-items";
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // key into the client's badge icons
+  stat: AchievementStat;
+  goal: number; // earned once the stat reaches this
+  points: number; // a one-off bonus, recorded in the points ledger
+}
+
+// Earned achievements are stored by id, so ids must never change once released.
+// Adding one here is enough: players who already qualify get it on their next game event.
+export const achievements: AchievementDefinition[] = [
+  { id: "first-answer", name: "First Find", description: "Answer a checkpoint question correctly", icon: "sprout", stat: "correctAnswers", goal: 1, points: 10 },
+  { id: "answers-50", name: "Sharp Mind", description: "Answer 50 questions correctly", icon: "brain", stat: "correctAnswers", goal: 50, points: 50 },
+  { id: "first-roving", name: "First Roving Catch", description: "Catch a roving checkpoint", icon: "rabbit", stat: "rovingCaught", goal: 1, points: 20 },
+  { id: "roving-10", name: "Roving Wrangler", description: "Catch 10 roving checkpoints", icon: "dog", stat: "rovingCaught", goal: 10, points: 50 },
+  { id: "first-hunt", name: "Trailblazer", description: "Complete a hunt", icon: "flag", stat: "huntsCompleted", goal: 1, points: 20 },
+  { id: "hunts-25", name: "Seasoned Ranger", description: "Complete 25 hunts", icon: "medal", stat: "huntsCompleted", goal: 25, points: 100 },
+  { id: "streak-7", name: "7-Day Streak", description: "Keep a streak going for a week", icon: "flame", stat: "longestStreak", goal: 7, points: 50 },
+  { id: "streak-30", name: "Month Strong", description: "Keep a streak going for 30 days", icon: "calendar", stat: "longestStreak", goal: 30, points: 200 },
+  { id: "walked-1k", name: "1 km Explorer", description: "Walk 1 km during hunts", icon: "footprints", stat: "distanceWalked", goal: 1000, points: 20 },
+  { id: "walked-10k", name: "10 km Explorer", description: "Walk 10 km during hunts", icon: "mountain", stat: "distanceWalked", goal: 10000, points: 100 },
+  { id: "first-nature", name: "Naturalist", description: "Verify a Nature Finder photo", icon: "leaf", stat: "natureItemsFound", goal: 1, points: 10 },
+  { id: "nature-all", name: `All ${natureItems.length} Nature Items`, description: "Verify a photo of every Nature Finder item", icon: "trees", stat: "natureItemsFound", goal: natureItems.length, points: 150 },
+];
@@ -1,3 +1,4 @@
+// Things to photograph in Nature Finder; the server checks names against this list
 export const natureItems = [
   { id: 1, name: "White Pine Cone", category: "Trees", difficulty: "easy" },
   { id: 2, name: "Birch Bark", category: "Trees", difficulty: "easy" },
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { checkpointSchema, verifyAnswerSchema } from './schema';
+import { achievementSchema, checkpointSchema, classSummarySchema, credentialsSchema, registrationSchema, customCheckpointSchema, gameSessionSchema, gameSettingsSchema, huntReplaySchema, huntSocketMessageSchema, huntStreakSchema, huntSummarySchema, leaderboardSchema, leaderboardWindowSchema, packInputSchema, playAreaInputSchema, pointsEntrySchema, playAreaKindSchema, playAreaSchema, playerSchema, questionFilterSchema, questionInputSchema, questionModeSchema, questionPackSchema, questionSchema, rosterEntrySchema, rovingPositionSchema, timezoneSchema, trackPointInputSchema, trailInputSchema, trailSchema, verifyAnswerSchema, zoneInputSchema, zoneSchema, nearbyZoneSchema } from './schema';
 
 export const errorSchemas = {
   validation: z.object({
@@ -9,12 +9,143 @@ export const errorSchemas = {
   notFound: z.object({
     message: z.string(),
   }),
+  unauthorized: z.object({
+    message: z.string(),
+  }),
+  forbidden: z.object({
+    message: z.string(),
+  }),
+  conflict: z.object({
+    message: z.string(),
+  }),
+  tooFar: z.object({
+    message: z.string(),
+    distance: z.number(),
+    captureRadius: z.number(),
+  }),
   internal: z.object({
     message: z.string(),
   }),
 };
 
+export const questionFileFormatSchema = z.enum(["json", "csv"]);
+
+// Checkpoints and tracks for other mapping tools (QGIS, GPS units)
+export const geoFileFormatSchema = z.enum(["gpx", "geojson"], {
+  errorMap: () => ({ message: "Format must be gpx or geojson" }),
+});
+
+// Which column (CSV header or JSON key) holds each question field; options may
+// be a single column of "|"-separated values or a list of columns
+export const columnMappingSchema = z.object({
+  question: z.string().optional(),
+  answer: z.string().optional(),
+  options: z.union([z.string(), z.array(z.string())]).optional(),
+  points: z.string().optional(),
+  difficulty: z.string().optional(),
+  pack: z.string().optional(), // pack name; unknown names become new packs
+});
+
+export const importRowResultSchema = z.object({
+  row: z.number(),
+  status: z.enum(["imported", "duplicate", "invalid"]),
+  question: z.string().optional(),
+  message: z.string().optional(),
+});
+
+export const importReportSchema = z.object({
+  dryRun: z.boolean(),
+  imported: z.number(),
+  duplicates: z.number(),
+  invalid: z.number(),
+  newPacks: z.array(z.string()), // packs the file names that don't exist yet
+  rows: z.array(importRowResultSchema),
+});
+
+// Waypoint files custom checkpoints can be imported from
+export const waypointFileFormatSchema = z.enum(["gpx", "kml", "geojson"], {
+  errorMap: () => ({ message: "Format must be gpx, kml or geojson" }),
+});
+
+export const checkpointImportItemSchema = z.object({
+  index: z.number(), // the waypoint's position in the file, from 1
+  name: z.string(),
+  lat: z.number().nullable(), // null when the item has no usable point
+  lng: z.number().nullable(),
+  status: z.enum(["imported", "skipped"]),
+  questionId: z.number().nullable(),
+  matchedBy: z.enum(["choice", "name", "pack"]).nullable(), // how the question was picked
+  message: z.string().optional(), // why it was skipped
+});
+
+export const checkpointImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  imported: z.number(),
+  skipped: z.number(),
+  items: z.array(checkpointImportItemSchema),
+});
+
 export const api = {
+  auth: {
+    register: {
+      method: 'POST' as const,
+      path: '/api/auth/register',
+      input: registrationSchema,
+      responses: {
+        201: playerSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        409: errorSchemas.conflict,
+      },
+    },
+    login: {
+      method: 'POST' as const,
+      path: '/api/auth/login',
+      input: credentialsSchema,
+      responses: {
+        200: playerSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    logout: {
+      method: 'POST' as const,
+      path: '/api/auth/logout',
+      responses: {
+        200: z.object({ success: z.boolean() }),
+      },
+    },
+    me: {
+      method: 'GET' as const,
+      path: '/api/auth/me',
+      responses: {
+        200: playerSchema,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    updateTimezone: {
+      method: 'PATCH' as const,
+      path: '/api/auth/me/timezone',
+      input: z.object({ timezone: timezoneSchema }),
+      responses: {
+        200: playerSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    updatePrivacy: {
+      method: 'PATCH' as const,
+      path: '/api/auth/me/privacy',
+      input: z.object({
+        leaderboardNicknameOnly: z.boolean(),
+      }),
+      responses: {
+        200: playerSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
   game: {
     generate: {
       method: 'POST' as const,
@@ -24,10 +155,92 @@ export const api = {
         lng: z.number(),
         radius: z.number().default(500), // meters
         count: z.number().default(5),
+        questionMode: questionModeSchema.optional(),
+        trailId: z.number().int().optional(), // walk a trail instead of scattering random checkpoints
+        zoneId: z.number().int().optional(), // play in a zone, with its area and rules instead of radius and count
+        team: z.boolean().optional(), // a team hunt that others can join with its code
+      }).merge(questionFilterSchema), // falls back to the question mode, packs and difficulties in settings
+      responses: {
+        200: gameSessionSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    getSession: {
+      method: 'GET' as const,
+      path: '/api/game/sessions/:id',
+      responses: {
+        200: gameSessionSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    joinTeam: {
+      method: 'POST' as const,
+      path: '/api/game/teams/join',
+      input: z.object({
+        teamCode: z.string().trim().toUpperCase().length(6, "Team codes are 6 characters"),
       }),
       responses: {
-        200: z.array(checkpointSchema),
+        200: gameSessionSchema,
         400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    roving: {
+      method: 'POST' as const,
+      path: '/api/game/sessions/:id/roving',
+      input: z.object({
+        // Where the player is, so fleeing checkpoints can react; leave out to only look
+        lat: z.number().optional(),
+        lng: z.number().optional(),
+      }),
+      responses: {
+        200: z.array(rovingPositionSchema), // uncollected roving checkpoints only
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Position fixes sent in batches during a hunt; the server keeps the ones worth keeping
+    // and counts the distance walked between them towards achievements
+    track: {
+      method: 'POST' as const,
+      path: '/api/game/sessions/:id/track',
+      input: z.object({
+        points: z.array(trackPointInputSchema).min(1).max(100, "Send at most 100 points at once"),
+      }),
+      responses: {
+        200: z.object({ kept: z.number(), achievements: z.array(achievementSchema) }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    history: {
+      method: 'GET' as const,
+      path: '/api/game/sessions',
+      responses: {
+        200: z.array(huntSummarySchema), // the signed-in player's hunts, solo or team, newest first
+      },
+    },
+    replay: {
+      method: 'GET' as const,
+      path: '/api/game/sessions/:id/replay',
+      responses: {
+        200: huntReplaySchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    complete: {
+      method: 'POST' as const,
+      path: '/api/game/sessions/:id/complete',
+      responses: {
+        200: gameSessionSchema.extend({
+          achievements: z.array(achievementSchema), // earned by finishing
+          streak: huntStreakSchema.nullable(), // the caller's, null if they weren't in the hunt
+        }),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
       },
     },
     verify: {
@@ -39,27 +252,38 @@ export const api = {
           correct: z.boolean(),
           points: z.number(),
           message: z.string(),
+          nextCheckpoint: checkpointSchema.nullable().optional(), // the trail stop this answer unlocked
+          achievements: z.array(achievementSchema), // earned by this answer
         }),
+        400: errorSchemas.validation,
+        403: errorSchemas.tooFar,
         404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
       },
     },
     getSettings: {
       method: 'GET' as const,
-      path: '/api/settings',
+      path: '/api/settings', // ?classId= for a class's own settings
+      input: z.object({
+        classId: z.coerce.number().int().positive().optional(),
+      }),
       responses: {
-        200: z.object({
-          timeLimit: z.number(),
-        }),
+        200: gameSettingsSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
       },
     },
     updateSettings: {
       method: 'POST' as const,
       path: '/api/settings',
-      input: z.object({
-        timeLimit: z.number(),
+      input: gameSettingsSchema.partial().extend({
+        classId: z.number().nullable().optional(), // omitted or null for the default settings
       }),
       responses: {
         200: z.object({ success: z.boolean() }),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
       },
     },
     addCustomCheckpoint: {
@@ -72,9 +296,440 @@ export const api = {
       }),
       responses: {
         201: z.object({ id: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    updateCustomCheckpoint: {
+      method: 'PATCH' as const,
+      path: '/api/checkpoints/:id',
+      input: z.object({
+        lat: z.number().min(-90).max(90).optional(),
+        lng: z.number().min(-180).max(180).optional(),
+        questionId: z.number().int().optional(),
+      }).refine(update => update.lat !== undefined || update.lng !== undefined || update.questionId !== undefined, {
+        message: "Nothing to update",
+      }),
+      responses: {
+        200: customCheckpointSchema,
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    deleteCustomCheckpoint: {
+      method: 'DELETE' as const,
+      path: '/api/checkpoints/:id',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Waypoints are matched to questions by a choice made for that item, else by their name
+    // or description matching a question's text, else by taking the pack's questions in turn
+    importCustomCheckpoints: {
+      method: 'POST' as const,
+      path: '/api/checkpoints/import',
+      input: z.object({
+        format: waypointFileFormatSchema,
+        content: z.string().min(1, "The file is empty"),
+        packId: z.number().int().optional(),
+        choices: z.array(z.object({
+          index: z.number().int(),
+          questionId: z.number().int().nullable(), // null leaves the item out
+        })).default([]),
+        dryRun: z.boolean().default(false), // preview without creating anything
+      }),
+      responses: {
+        200: checkpointImportReportSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    exportCustomCheckpoints: {
+      method: 'GET' as const,
+      path: '/api/checkpoints/export', // ?format=gpx|geojson, served as a file download
+      responses: {
+        400: errorSchemas.validation,
+      },
+    },
+    // A hunt's checkpoints and a player's track through it, served as a file download.
+    // Teachers can pass userId for a student in their class.
+    exportHunt: {
+      method: 'GET' as const,
+      path: '/api/game/sessions/:id/export',
+      input: z.object({
+        format: geoFileFormatSchema,
+        userId: z.coerce.number().int().optional(),
+      }),
+      responses: {
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
       },
     },
   },
+  questions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/questions',
+      responses: {
+        200: z.array(questionSchema),
+        403: errorSchemas.forbidden,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/questions',
+      input: questionInputSchema,
+      responses: {
+        201: questionSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/questions/:id',
+      input: questionInputSchema,
+      responses: {
+        200: questionSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/questions/import',
+      input: z.object({
+        format: questionFileFormatSchema,
+        content: z.string().min(1, "The file is empty"),
+        mapping: columnMappingSchema.optional(),
+        dryRun: z.boolean().default(false), // validate and report without creating anything
+      }),
+      responses: {
+        200: importReportSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    export: {
+      method: 'GET' as const,
+      path: '/api/questions/export', // ?format=json|csv, served as a file download
+      responses: {
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/questions/:id',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+  },
+  packs: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/packs',
+      responses: {
+        200: z.array(questionPackSchema.extend({ questionCount: z.number() })),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/packs',
+      input: packInputSchema,
+      responses: {
+        201: questionPackSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        409: errorSchemas.conflict,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/packs/:id',
+      input: packInputSchema,
+      responses: {
+        200: questionPackSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/packs/:id', // the pack's questions are kept, just no longer in a pack
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  playAreas: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/play-areas',
+      responses: {
+        200: z.array(playAreaSchema),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/play-areas',
+      input: playAreaInputSchema,
+      responses: {
+        201: playAreaSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/play-areas/import',
+      input: z.object({
+        content: z.string().min(1, "The file is empty"), // GeoJSON geometry, Feature or FeatureCollection
+        kind: playAreaKindSchema, // used for features without a "kind" property
+      }),
+      responses: {
+        201: z.object({
+          created: z.array(playAreaSchema),
+          skipped: z.array(z.string()), // why each non-polygon or invalid feature was left out
+        }),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/play-areas/:id',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  trails: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/trails',
+      responses: {
+        200: z.array(trailSchema),
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/trails',
+      input: trailInputSchema,
+      responses: {
+        201: trailSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/trails/:id',
+      input: trailInputSchema,
+      responses: {
+        200: trailSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/trails/:id',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  zones: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/zones',
+      responses: {
+        200: z.array(zoneSchema),
+      },
+    },
+    nearby: {
+      method: 'GET' as const,
+      path: '/api/zones/nearby', // ?lat=&lng=
+      input: z.object({
+        lat: z.coerce.number().min(-90).max(90),
+        lng: z.coerce.number().min(-180).max(180),
+      }),
+      responses: {
+        200: z.array(nearbyZoneSchema),
+        400: errorSchemas.validation,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/zones',
+      input: zoneInputSchema,
+      responses: {
+        201: zoneSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        409: errorSchemas.conflict,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/zones/:id',
+      input: zoneInputSchema,
+      responses: {
+        200: zoneSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/zones/:id',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  achievements: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/achievements',
+      responses: {
+        200: z.array(achievementSchema), // the whole catalog, with the signed-in player's progress
+      },
+    },
+  },
+  leaderboards: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/leaderboards',
+      // Query string; without a class or zone the board covers every player
+      input: z.object({
+        window: leaderboardWindowSchema.default("weekly"),
+        classId: z.coerce.number().int().optional(),
+        zoneId: z.coerce.number().int().optional(),
+      }),
+      responses: {
+        200: leaderboardSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  classes: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/classes',
+      responses: {
+        200: z.array(classSummarySchema),
+        403: errorSchemas.forbidden,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/classes',
+      input: z.object({
+        name: z.string().trim().min(1, "Class name is required").max(60),
+      }),
+      responses: {
+        201: classSummarySchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    join: {
+      method: 'POST' as const,
+      path: '/api/classes/join',
+      input: z.object({
+        joinCode: z.string().trim().min(1, "Enter a join code"),
+      }),
+      responses: {
+        200: playerSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    leave: {
+      method: 'POST' as const,
+      path: '/api/classes/leave',
+      responses: {
+        200: playerSchema,
+      },
+    },
+    roster: {
+      method: 'GET' as const,
+      path: '/api/classes/:id/roster',
+      responses: {
+        200: z.array(rosterEntrySchema),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  // A student's points ledger, for the teacher of their class
+  points: {
+    ledger: {
+      method: 'GET' as const,
+      path: '/api/classes/:id/students/:userId/points',
+      responses: {
+        200: z.array(pointsEntrySchema), // newest first
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    reverse: {
+      method: 'POST' as const,
+      path: '/api/classes/:id/students/:userId/points/:entryId/reverse',
+      input: z.object({
+        note: z.string().trim().min(1, "Say why the points are being taken back").max(500),
+      }),
+      responses: {
+        201: pointsEntrySchema, // the reversing entry
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+  },
+};
+
+// Team hunts push updates to their players over a WebSocket at this path, ?sessionId=
+export const huntSocket = {
+  path: '/ws/hunts',
+  message: huntSocketMessageSchema,
 };
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
@@ -90,4 +745,19 @@ export function buildUrl(path: string, params?: Record<string, string | number>)
 }
 
 export type GenerateGameRequest = z.infer<typeof api.game.generate.input>;
+export type UpdateSettingsRequest = z.infer<typeof api.game.updateSettings.input>;
+export type QuestionFileFormat = z.infer<typeof questionFileFormatSchema>;
+export type GeoFileFormat = z.infer<typeof geoFileFormatSchema>;
+export type WaypointFileFormat = z.infer<typeof waypointFileFormatSchema>;
+export type CheckpointImportItem = z.infer<typeof checkpointImportItemSchema>;
+export type CheckpointImportReport = z.infer<typeof checkpointImportReportSchema>;
+export type ImportCheckpointsRequest = z.input<typeof api.game.importCustomCheckpoints.input>;
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+export type ImportRowResult = z.infer<typeof importRowResultSchema>;
+export type ImportReport = z.infer<typeof importReportSchema>;
+export type ImportQuestionsRequest = z.input<typeof api.questions.import.input>;
+export type UpdateCustomCheckpointRequest = z.infer<typeof api.game.updateCustomCheckpoint.input>;
+export type ImportPlayAreasResponse = z.infer<typeof api.playAreas.import.responses[201]>;
+export type VerifyAnswerRequest = z.infer<typeof api.game.verify.input>;
 export type VerifyAnswerResponse = z.infer<typeof api.game.verify.responses[200]>;
+export type PackSummary = z.infer<typeof api.packs.list.responses[200]>[number];
@@ -1,9 +1,38 @@
-import { pgTable, text, serial, integer, boolean, jsonb, doublePrecision } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, serial, integer, boolean, jsonb, doublePrecision, timestamp, uuid, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  nickname: text("nickname").notNull().unique(),
+  pinHash: text("pin_hash").notNull(),
+  role: text("role").notNull().default("student"), // "student" | "teacher"
+  classId: integer("class_id").references((): AnyPgColumn => classes.id),
+  leaderboardNicknameOnly: boolean("leaderboard_nickname_only").notNull().default(false), // hides the player's class on leaderboards
+  timezone: text("timezone").notNull().default("UTC"), // IANA name from the player's browser; decides where their days start
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const classes = pgTable("classes", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  joinCode: text("join_code").notNull().unique(),
+  teacherId: integer("teacher_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A named set of questions for one topic or outing, e.g. "Upper Peninsula geology"
+export const questionPacks = pgTable("question_packs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull().default(""),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const questions = pgTable("questions", {
   id: serial("id").primaryKey(),
+  packId: integer("pack_id").references(() => questionPacks.id, { onDelete: "set null" }),
   question: text("question").notNull(),
   answer: text("answer").notNull(),
   options: jsonb("options").$type<string[]>().notNull(),
@@ -18,43 +47,496 @@ export const customCheckpoints = pgTable("custom_checkpoints", {
   questionId: integer("question_id").references(() => questions.id),
 });
 
+// Admin-drawn or uploaded GeoJSON areas: generated checkpoints must fall inside an
+// include area (when there are any) and outside every exclude area
+export const playAreas = pgTable("play_areas", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").$type<PlayAreaKind>().notNull(),
+  geometry: jsonb("geometry").$type<AreaGeometry>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A named place to play, e.g. one park, with its own hunt rules. The area is a
+// circle around the center or, when a boundary is drawn, that polygon.
+export const zones = pgTable("zones", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  radius: integer("radius"), // meters, null when the boundary defines the area
+  boundary: jsonb("boundary").$type<AreaGeometry>(),
+  timeLimit: integer("time_limit").notNull().default(30), // minutes
+  checkpointCount: integer("checkpoint_count").notNull().default(5),
+  rovingCount: integer("roving_count").notNull().default(2),
+  mapTheme: text("map_theme").notNull().default("standard"),
+  zenMode: boolean("zen_mode").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
+  classId: integer("class_id").unique().references(() => classes.id), // null for the default settings
   timeLimit: integer("time_limit").notNull().default(30), // minutes
   checkpointCount: integer("checkpoint_count").notNull().default(5),
   rovingCount: integer("roving_count").notNull().default(2),
+  rovingMovement: text("roving_movement").$type<RovingMovementMode>().notNull().default("mixed"),
+  rovingFlee: boolean("roving_flee").notNull().default(false), // roving checkpoints dash away from players a few times
   radius: integer("radius").notNull().default(500), // meters
   mapTheme: text("map_theme").notNull().default("standard"),
   zenMode: boolean("zen_mode").notNull().default(false),
+  captureRadius: integer("capture_radius").notNull().default(20), // meters
+  questionMode: text("question_mode").$type<QuestionMode>().notNull().default("random"),
+  packIds: jsonb("pack_ids").$type<number[]>().notNull().default([]), // empty for every pack
+  difficulties: jsonb("difficulties").$type<Difficulty[]>().notNull().default([]), // empty for every difficulty
+  huntsPerFreeze: integer("hunts_per_freeze").notNull().default(1), // 0 for no streak freezes
+  maxFreezes: integer("max_freezes").notNull().default(5),
 });
 
 export const userStats = pgTable("user_stats", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  // Superseded by points_ledger and no longer written; kept until scripts/backfill-points-ledger.ts has run
   totalPoints: integer("total_points").notNull().default(0),
   currentStreak: integer("current_streak").notNull().default(0),
   longestStreak: integer("longest_streak").notNull().default(0),
   lastActivityDate: text("last_activity_date"),
   huntsCompleted: integer("hunts_completed").notNull().default(0),
   streakFreezes: integer("streak_freezes").notNull().default(0),
-  pointsHistory: jsonb("points_history").$type<{date: string, points: number}[]>().notNull().default([]),
+  pointsHistory: jsonb("points_history").$type<{date: string, points: number}[]>().notNull().default([]), // superseded, as above
   activityDates: jsonb("activity_dates").$type<string[]>().notNull().default([]),
+  frozenDates: jsonb("frozen_dates").$type<string[]>().notNull().default([]), // missed days a streak freeze covered
+  // Counters behind achievements
+  correctAnswers: integer("correct_answers").notNull().default(0),
+  rovingCaught: integer("roving_caught").notNull().default(0),
+  distanceWalked: integer("distance_walked").notNull().default(0), // meters, during hunts
+  natureItemsFound: jsonb("nature_items_found").$type<string[]>().notNull().default([]), // distinct item names
+});
+
+// Append-only: every award of points is a row, and a mistake is undone by adding a
+// reversal rather than editing or deleting the original
+export const pointsLedger = pgTable("points_ledger", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  amount: integer("amount").notNull(), // negative for reversals
+  source: text("source").$type<PointsSource>().notNull(),
+  checkpointId: integer("checkpoint_id"), // the checkpoint's id within its session
+  questionId: integer("question_id").references(() => questions.id, { onDelete: "set null" }),
+  sessionId: uuid("session_id").references(() => gameSessions.id, { onDelete: "set null" }),
+  achievementId: text("achievement_id"),
+  day: text("day").notNull(), // the player's local date, YYYY-MM-DD
+  reversalOf: integer("reversal_of").unique().references((): AnyPgColumn => pointsLedger.id), // an entry can only be reversed once
+  note: text("note"), // the admin's reason for a reversal
+  createdBy: integer("created_by").references(() => users.id), // the admin who made a reversal
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per achievement a player has earned; see shared/achievements.ts for the catalog
+export const playerAchievements = pgTable("player_achievements", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  achievementId: text("achievement_id").notNull(),
+  earnedAt: timestamp("earned_at").notNull().defaultNow(),
+}, (t) => [unique().on(t.userId, t.achievementId)]);
+
+// Nature Finds photos the vision check accepted, one row per item per player per local
+// day; the day's third row is what completes the daily goal
+export const natureFinds = pgTable("nature_finds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  itemName: text("item_name").notNull(),
+  day: text("day").notNull(), // the player's local date, YYYY-MM-DD
+  foundAt: timestamp("found_at").notNull().defaultNow(),
+}, (t) => [unique().on(t.userId, t.day, t.itemName)]);
+
+// An ordered walk through fixed stops, revealed one at a time during a hunt
+export const trails = pgTable("trails", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  stops: jsonb("stops").$type<TrailStop[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const gameSessions = pgTable("game_sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  huntType: text("hunt_type").$type<HuntType>().notNull().default("free"),
+  trailId: integer("trail_id").references(() => trails.id, { onDelete: "set null" }),
+  zoneId: integer("zone_id").references(() => zones.id, { onDelete: "set null" }),
+  teamCode: text("team_code").unique(), // set for team hunts, which teammates join with it
+  checkpoints: jsonb("checkpoints").$type<SessionCheckpoint[]>().notNull(),
+  score: integer("score").notNull().default(0),
+  timeLimit: integer("time_limit"), // minutes, null in zen mode
+  captureRadius: integer("capture_radius").notNull().default(20), // meters
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Where each player went during a hunt, already filtered and thinned out by server/tracks.ts.
+// In a team hunt every member has their own track.
+export const trackPoints = pgTable("track_points", {
+  id: serial("id").primaryKey(),
+  sessionId: uuid("session_id").notNull().references(() => gameSessions.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  accuracy: integer("accuracy").notNull(), // meters
+  recordedAt: timestamp("recorded_at").notNull(),
+});
+
+// A request sent with an Idempotency-Key and the response it got, so a submission the
+// client replays after losing its connection is answered again instead of counted again
+export const idempotentRequests = pgTable("idempotent_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  route: text("route").notNull(),
+  statusCode: integer("status_code"), // null while the first request is still being handled
+  body: jsonb("body"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => [unique().on(t.userId, t.key)]);
+
+// The players sharing a team hunt and what each has collected; the host is a member too
+export const teamMembers = pgTable("team_members", {
+  id: serial("id").primaryKey(),
+  sessionId: uuid("session_id").notNull().references(() => gameSessions.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  score: integer("score").notNull().default(0),
+  collected: integer("collected").notNull().default(0),
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+}, (t) => [unique().on(t.sessionId, t.userId)]);
+
+// Every answer a player submits at a checkpoint, right or wrong; drives adaptive question selection
+export const questionAnswers = pgTable("question_answers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  questionId: integer("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  sessionId: uuid("session_id").references(() => gameSessions.id),
+  correct: boolean("correct").notNull(),
+  answeredAt: timestamp("answered_at").notNull().defaultNow(),
+});
+
+export const insertUserSchema = createInsertSchema(users);
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export const roleSchema = z.enum(["student", "teacher"]);
+export type Role = z.infer<typeof roleSchema>;
+
+// Kids sign in with a nickname and a short numeric PIN
+export const credentialsSchema = z.object({
+  nickname: z.string().trim().min(2, "Nickname must be at least 2 characters").max(24, "Nickname must be at most 24 characters"),
+  pin: z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits"),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// Everyone registers as a student unless they have the school's teacher code
+export const registrationSchema = credentialsSchema.extend({
+  teacherCode: z.string().trim().min(1).max(100).optional(),
+});
+
+export type Registration = z.infer<typeof registrationSchema>;
+
+export const playerSchema = z.object({
+  id: z.number(),
+  nickname: z.string(),
+  role: roleSchema,
+  classId: z.number().nullable(),
+  className: z.string().nullable(),
+  leaderboardNicknameOnly: z.boolean(),
+  timezone: z.string(),
+});
+
+export const timezoneSchema = z.string().refine((timezone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown timezone");
+
+export type Player = z.infer<typeof playerSchema>;
+
+export const insertClassSchema = createInsertSchema(classes);
+export type Class = typeof classes.$inferSelect;
+export type InsertClass = z.infer<typeof insertClassSchema>;
+
+export const classSummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  joinCode: z.string(),
+});
+
+export type ClassSummary = z.infer<typeof classSummarySchema>;
+
+export const rosterEntrySchema = z.object({
+  userId: z.number(),
+  nickname: z.string(),
+  totalPoints: z.number(),
+  currentStreak: z.number(),
+  huntsCompleted: z.number(),
+  lastActivityDate: z.string().nullable(),
+});
+
+export type RosterEntry = z.infer<typeof rosterEntrySchema>;
+
+export const leaderboardWindowSchema = z.enum(["daily", "weekly", "all"]);
+export type LeaderboardWindow = z.infer<typeof leaderboardWindowSchema>;
+
+// Ranked by points, then hunts completed, then longest streak; the player id settles the rest
+export const leaderboardEntrySchema = z.object({
+  rank: z.number(),
+  userId: z.number(),
+  nickname: z.string(),
+  className: z.string().nullable(), // null without a class, or when the player shows their nickname only
+  points: z.number(),
+  huntsCompleted: z.number(),
+  longestStreak: z.number(),
+});
+
+export type LeaderboardEntry = z.infer<typeof leaderboardEntrySchema>;
+
+export const leaderboardSchema = z.object({
+  window: leaderboardWindowSchema,
+  entries: z.array(leaderboardEntrySchema),
+  you: leaderboardEntrySchema.nullable(), // the signed-in player's row, even below the top entries
+});
+
+export type Leaderboard = z.infer<typeof leaderboardSchema>;
+
 export const insertQuestionSchema = createInsertSchema(questions);
+export const questionSchema = createSelectSchema(questions);
 export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 
+export const difficultySchema = z.enum(["easy", "medium", "hard"]);
+export type Difficulty = z.infer<typeof difficultySchema>;
+
+export const insertQuestionPackSchema = createInsertSchema(questionPacks);
+export const questionPackSchema = createSelectSchema(questionPacks, {
+  tags: z.array(z.string()),
+});
+export type QuestionPack = typeof questionPacks.$inferSelect;
+export type InsertQuestionPack = z.infer<typeof insertQuestionPackSchema>;
+
+// Tags are stored lowercased and without duplicates so filtering can match them exactly
+export const packInputSchema = z.object({
+  name: z.string().trim().min(1, "Pack name is required").max(60, "Pack name must be at most 60 characters"),
+  description: z.string().trim().max(300, "Description must be at most 300 characters").default(""),
+  tags: z.array(z.string().trim().toLowerCase().min(1, "Tags can't be blank").max(30, "Tags must be at most 30 characters"))
+    .max(10, "At most ten tags")
+    .transform(tags => Array.from(new Set(tags)))
+    .default([]),
+});
+
+export type PackInput = z.infer<typeof packInputSchema>;
+
+// "random" draws uniformly; "adaptive" follows the player's answer history
+export const questionModeSchema = z.enum(["random", "adaptive"]);
+export type QuestionMode = z.infer<typeof questionModeSchema>;
+
+export const insertQuestionAnswerSchema = createInsertSchema(questionAnswers);
+export type QuestionAnswer = typeof questionAnswers.$inferSelect;
+export type InsertQuestionAnswer = z.infer<typeof insertQuestionAnswerSchema>;
+
+// Which questions a hunt draws from; an empty list means no restriction
+export const questionFilterSchema = z.object({
+  packIds: z.array(z.number().int()).optional(),
+  difficulties: z.array(difficultySchema).optional(),
+});
+
+export type QuestionFilter = z.infer<typeof questionFilterSchema>;
+
+// What the question editor submits; the answer has to be one of the options
+export const questionInputSchema = z.object({
+  question: z.string().trim().min(1, "Question text is required"),
+  answer: z.string().trim().min(1, "Answer is required"),
+  options: z.array(z.string().trim().min(1, "Options can't be blank")).min(2, "Add at least two options").max(6, "At most six options"),
+  points: z.number().int().min(1, "Points must be at least 1").max(100, "Points must be at most 100"),
+  difficulty: difficultySchema,
+  packId: z.number().int().nullable().default(null),
+}).refine(q => q.options.includes(q.answer), {
+  message: "The answer must be one of the options",
+  path: ["answer"],
+}).refine(q => new Set(q.options.map(o => o.toLowerCase())).size === q.options.length, {
+  message: "Options must all be different",
+  path: ["options"],
+});
+
+export type QuestionInput = z.infer<typeof questionInputSchema>;
+
 export const insertCustomCheckpointSchema = createInsertSchema(customCheckpoints);
+export const customCheckpointSchema = createSelectSchema(customCheckpoints);
 export type CustomCheckpoint = typeof customCheckpoints.$inferSelect;
 export type InsertCustomCheckpoint = z.infer<typeof insertCustomCheckpointSchema>;
 
+// GeoJSON positions are [longitude, latitude], optionally followed by altitude
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+const linearRingSchema = z.array(positionSchema).min(4, "Polygon rings need at least four positions");
+
+export const areaGeometrySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Polygon"), coordinates: z.array(linearRingSchema).min(1) }),
+  z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(linearRingSchema).min(1)).min(1) }),
+]);
+
+export type AreaGeometry = z.infer<typeof areaGeometrySchema>;
+
+export const playAreaKindSchema = z.enum(["include", "exclude"]);
+export type PlayAreaKind = z.infer<typeof playAreaKindSchema>;
+
+export const insertPlayAreaSchema = createInsertSchema(playAreas);
+export const playAreaSchema = createSelectSchema(playAreas, {
+  kind: playAreaKindSchema,
+  geometry: areaGeometrySchema,
+});
+export type PlayArea = typeof playAreas.$inferSelect;
+export type InsertPlayArea = z.infer<typeof insertPlayAreaSchema>;
+
+export const playAreaInputSchema = z.object({
+  name: z.string().trim().min(1, "Area name is required").max(60, "Area name must be at most 60 characters"),
+  kind: playAreaKindSchema,
+  geometry: areaGeometrySchema,
+});
+
+export type PlayAreaInput = z.infer<typeof playAreaInputSchema>;
+
+export const insertZoneSchema = createInsertSchema(zones);
+export const zoneSchema = createSelectSchema(zones, {
+  boundary: areaGeometrySchema.nullable(),
+});
+export type Zone = typeof zones.$inferSelect;
+export type InsertZone = z.infer<typeof insertZoneSchema>;
+
+export const zoneInputSchema = z.object({
+  name: z.string().trim().min(1, "Zone name is required").max(60, "Zone name must be at most 60 characters"),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  radius: z.number().int().min(10, "Radius must be at least 10 meters").max(5000, "Radius must be at most 5000 meters").nullable().default(null),
+  boundary: areaGeometrySchema.nullable().default(null),
+  timeLimit: z.number().int().min(1),
+  checkpointCount: z.number().int().min(1),
+  rovingCount: z.number().int().min(0),
+  mapTheme: z.string(),
+  zenMode: z.boolean(),
+}).refine(zone => zone.radius !== null || zone.boundary !== null, {
+  message: "Give the zone a radius or draw its boundary",
+  path: ["radius"],
+});
+
+export type ZoneInput = z.infer<typeof zoneInputSchema>;
+
+// A zone offered to a player, with how far they are from its edge (0 inside it)
+export const nearbyZoneSchema = zoneSchema.extend({
+  distance: z.number(),
+});
+
+export type NearbyZone = z.infer<typeof nearbyZoneSchema>;
+
+// How roving checkpoints move: along a short loop near where they spawned, across
+// the whole hunt area, or a mix of both
+export const rovingMovementModeSchema = z.enum(["mixed", "patrol", "wander"]);
+export type RovingMovementMode = z.infer<typeof rovingMovementModeSchema>;
+
 export const insertSettingsSchema = createInsertSchema(settings);
 export type Settings = typeof settings.$inferSelect;
+export type GameSettings = Omit<Settings, "id" | "classId">;
+
+export const gameSettingsSchema = z.object({
+  timeLimit: z.number().int().min(1),
+  checkpointCount: z.number().int().min(1),
+  rovingCount: z.number().int().min(0),
+  rovingMovement: rovingMovementModeSchema,
+  rovingFlee: z.boolean(),
+  radius: z.number().int().min(10),
+  mapTheme: z.string(),
+  zenMode: z.boolean(),
+  captureRadius: z.number().int().min(1).max(100), // meters; the Settings slider goes to 100
+  questionMode: questionModeSchema,
+  packIds: z.array(z.number().int()),
+  difficulties: z.array(difficultySchema),
+  huntsPerFreeze: z.number().int().min(0),
+  maxFreezes: z.number().int().min(0),
+});
 
 export const insertUserStatsSchema = createInsertSchema(userStats);
 export type UserStats = typeof userStats.$inferSelect;
 export type InsertUserStats = z.infer<typeof insertUserStatsSchema>;
 
+export type PlayerAchievement = typeof playerAchievements.$inferSelect;
+
+// carried_over is what players had before the ledger, moved in by the backfill script
+export const pointsSourceSchema = z.enum(["trivia", "roving_bonus", "photo_verify", "achievement", "reversal", "carried_over"]);
+export type PointsSource = z.infer<typeof pointsSourceSchema>;
+
+export const insertPointsEntrySchema = createInsertSchema(pointsLedger);
+export type PointsEntry = typeof pointsLedger.$inferSelect;
+export type InsertPointsEntry = typeof pointsLedger.$inferInsert;
+
+export const pointsEntrySchema = z.object({
+  id: z.number(),
+  amount: z.number(),
+  source: pointsSourceSchema,
+  checkpointId: z.number().nullable(),
+  questionId: z.number().nullable(),
+  sessionId: z.string().nullable(),
+  achievementId: z.string().nullable(),
+  day: z.string(),
+  reversalOf: z.number().nullable(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+  reversed: z.boolean(), // a later entry undid this one
+});
+
+export type PointsEntryState = z.infer<typeof pointsEntrySchema>;
+
+export const achievementStatSchema = z.enum(["correctAnswers", "rovingCaught", "huntsCompleted", "longestStreak", "distanceWalked", "natureItemsFound"]);
+export type AchievementStat = z.infer<typeof achievementStatSchema>;
+
+export const achievementSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  icon: z.string(),
+  goal: z.number(),
+  points: z.number(), // added to the ledger when earned
+  progress: z.number(), // the player's current value of the stat, which may pass the goal
+  earnedAt: z.string().nullable(),
+});
+
+export type Achievement = z.infer<typeof achievementSchema>;
+
+// Directions are shown once the stop is revealed, e.g. "Head toward the birch grove"
+export const trailStopSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  questionId: z.number().int(),
+  directions: z.string().trim().max(300, "Directions must be at most 300 characters").default(""),
+});
+
+export type TrailStop = z.infer<typeof trailStopSchema>;
+
+export const insertTrailSchema = createInsertSchema(trails);
+export const trailSchema = createSelectSchema(trails, {
+  stops: z.array(trailStopSchema),
+});
+export type Trail = typeof trails.$inferSelect;
+export type InsertTrail = z.infer<typeof insertTrailSchema>;
+
+export const trailInputSchema = z.object({
+  name: z.string().trim().min(1, "Trail name is required").max(60, "Trail name must be at most 60 characters"),
+  description: z.string().trim().max(300, "Description must be at most 300 characters").default(""),
+  stops: z.array(trailStopSchema).min(2, "A trail needs at least two stops").max(30, "At most 30 stops"),
+});
+
+export type TrailInput = z.infer<typeof trailInputSchema>;
+
+// "free" hunts show every checkpoint at once; "trail" hunts reveal them in order
+export const huntTypeSchema = z.enum(["free", "trail"]);
+export type HuntType = z.infer<typeof huntTypeSchema>;
+
 export const checkpointSchema = z.object({
   id: z.number(),
   lat: z.number(),
@@ -65,13 +547,147 @@ export const checkpointSchema = z.object({
   collected: z.boolean().optional(),
   isCustom: z.boolean().optional(),
   isRoving: z.boolean().optional(),
+  order: z.number().optional(), // position on a trail, from 1
+  directions: z.string().optional(),
 });
 
 export type Checkpoint = z.infer<typeof checkpointSchema>;
 
+// A sideways shift in meters, added on top of a roving checkpoint's path
+export type MovementOffset = { north: number; east: number };
+
+// How the server moves a roving checkpoint. Its position is worked out from the time
+// since the hunt started, so nothing has to run between requests.
+export type RovingMovement = {
+  behaviour: "patrol" | "wander";
+  path: { lat: number; lng: number }[]; // walked as a loop
+  speed: number; // meters per second
+  flee: boolean;
+  escapesLeft: number;
+  // The hunt's spawn circle, which a dash can't leave
+  center: { lat: number; lng: number };
+  radius: number; // meters
+  // The latest dash away from a player, from one offset to the next
+  dash?: { from: MovementOffset; to: MovementOffset; at: string };
+};
+
+// What a session remembers about each checkpoint; questionId and movement never leave the server
+export type SessionCheckpoint = Checkpoint & {
+  questionId: number;
+  collected: boolean;
+  collectedAt?: string;
+  movement?: RovingMovement;
+};
+
+export const rovingPositionSchema = z.object({
+  id: z.number(),
+  lat: z.number(),
+  lng: z.number(),
+  fleeing: z.boolean(),
+});
+
+export type RovingPosition = z.infer<typeof rovingPositionSchema>;
+
+export const insertGameSessionSchema = createInsertSchema(gameSessions, {
+  huntType: huntTypeSchema.optional(),
+});
+export type GameSession = typeof gameSessions.$inferSelect;
+export type InsertGameSession = z.infer<typeof insertGameSessionSchema>;
+
+export const teamMemberScoreSchema = z.object({
+  userId: z.number(),
+  nickname: z.string(),
+  score: z.number(),
+  collected: z.number(),
+});
+
+export type TeamMemberScore = z.infer<typeof teamMemberScoreSchema>;
+
+export const gameSessionSchema = z.object({
+  id: z.string(),
+  huntType: huntTypeSchema,
+  teamCode: z.string().nullable(), // null for solo hunts
+  checkpoints: z.array(checkpointSchema), // on trails, only the stops reached so far and the next one
+  totalCheckpoints: z.number(),
+  score: z.number(),
+  timeLimit: z.number().nullable(),
+  captureRadius: z.number(),
+  startedAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+export type GameSessionState = z.infer<typeof gameSessionSchema>;
+
+export type TeamMember = typeof teamMembers.$inferSelect;
+
+export type TrackPoint = typeof trackPoints.$inferSelect;
+export type InsertTrackPoint = typeof trackPoints.$inferInsert;
+
+export type IdempotentRequest = typeof idempotentRequests.$inferSelect;
+
+// A position fix as the device reported it
+export const trackPointInputSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative(), // meters
+  recordedAt: z.string().datetime(),
+});
+
+export type TrackPointInput = z.infer<typeof trackPointInputSchema>;
+
+// A past hunt in the player's history
+export const huntSummarySchema = z.object({
+  id: z.string(),
+  huntType: huntTypeSchema,
+  teamCode: z.string().nullable(),
+  score: z.number(), // the team's total in a team hunt
+  collected: z.number(),
+  totalCheckpoints: z.number(),
+  startedAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+export type HuntSummary = z.infer<typeof huntSummarySchema>;
+
+export const huntReplaySchema = z.object({
+  hunt: huntSummarySchema,
+  track: z.array(z.object({ lat: z.number(), lng: z.number(), at: z.string() })), // the player's own path, oldest first
+  checkpoints: z.array(checkpointSchema.extend({
+    collectedAt: z.string().nullable(), // roving checkpoints are shown where they were caught
+  })),
+});
+
+export type HuntReplay = z.infer<typeof huntReplaySchema>;
+
+// Where a player's streak stands after finishing a hunt
+export const huntStreakSchema = z.object({
+  currentStreak: z.number(),
+  streakFreezes: z.number(),
+  freezeEarned: z.boolean(),
+});
+
+export type HuntStreak = z.infer<typeof huntStreakSchema>;
+
+// What the team hunt socket pushes: the whole hunt on connect and after every change,
+// plus a note when a teammate collects a checkpoint
+export const huntSocketMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("state"), session: gameSessionSchema, scoreboard: z.array(teamMemberScoreSchema) }),
+  z.object({ type: z.literal("collected"), checkpointId: z.number(), userId: z.number(), nickname: z.string(), points: z.number() }),
+  z.object({ type: z.literal("achievements"), userId: z.number(), achievements: z.array(achievementSchema) }), // for that player only
+  z.object({ type: z.literal("streak"), userId: z.number(), streak: huntStreakSchema }), // for that player only, when the hunt ends
+  z.object({ type: z.literal("error"), message: z.string() }),
+]);
+
+export type HuntSocketMessage = z.infer<typeof huntSocketMessageSchema>;
+
 export const verifyAnswerSchema = z.object({
-  questionId: z.number(),
+  sessionId: z.string(),
+  checkpointId: z.number(),
   answer: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  accuracy: z.number().nonnegative(), // meters, as reported by the device
+  answeredAt: z.string().datetime().optional(), // when an answer queued offline was given; only honored with an Idempotency-Key
 });
 
 export type VerifyAnswerRequest = z.infer<typeof verifyAnswerSchema>;